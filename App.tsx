@@ -16,44 +16,132 @@ import {
     Bell,
     Grid,
     ChevronDown,
-    Zap
+    Zap,
+    SlidersHorizontal,
+    Waves,
+    Boxes,
+    X
 } from 'lucide-react';
-import { EnrichedTransaction, DashboardStats, BatchAnalysisResult, Transaction, TransactionType, User } from './types';
+import { EnrichedTransaction, DashboardStats, BatchAnalysisResult, User, FraudRule, FxSettings, AlertPolicy, CostMatrix, EvaluationOptions, ScoreCalibration, DecisionContext, DecisionPolicy, BatchProfile, DriftSettings, ModelRegistry, ModelVersion, PipelineProgress, ImportSource, IngestionProfile, DataQualityPolicy, Stage3Results } from './types';
 import { MOCK_TRANSACTIONS } from './constants';
-import { analyzeTransaction, generateRandomTransaction, processBatchWithFeatures, runStage3Analysis } from './services/fraudEngine';
+import { analyzeTransaction, generateRandomTransaction, processBatchWithFeatures, rescoreTransactions } from './services/fraudEngine';
 import { generateBatchReport } from './services/geminiService';
+import { runBacktest } from './services/backtest';
+import { createFeatureStore, FeatureStore } from './services/featureStore';
 import { StatsCard } from './components/StatsCard';
 import { TransactionList } from './components/TransactionList';
 import { DetailPanel } from './components/DetailPanel';
-import { AnalysisModal } from './components/AnalysisModal';
+import { AnalysisModal, AnalysisTab } from './components/AnalysisModal';
 import { AnalyticsView } from './components/AnalyticsView';
 import { AlertsView } from './components/AlertsView';
+import { DriftView } from './components/DriftView';
 import { LoginView } from './components/LoginView';
 import { SettingsModal } from './components/SettingsModal';
+import { RulesEditor } from './components/RulesEditor';
+import { ModelRegistryModal } from './components/ModelRegistryModal';
+import { ImportWizard } from './components/ImportWizard';
 import { login, logout, getCurrentUser, isAuthenticated } from './services/authService';
+import { loadRules, saveRules } from './services/ruleStore';
+import { checkRules } from './services/ruleEngine';
+import { loadFxSettings, saveFxSettings } from './services/fxStore';
+import { baseAmountOf, formatAmount, normalizeTransaction, normalizeTransactions } from './services/fx';
+import { loadAlertPolicy, loadCostMatrix, loadDataQualityPolicy, loadDecisionPolicy, loadEvaluationOptions, loadScoreCalibration, saveAlertPolicy, saveCostMatrix, saveDataQualityPolicy, saveDecisionPolicy, saveEvaluationOptions, saveScoreCalibration } from './services/policyStore';
+import { decideTransaction } from './services/decision';
+import { profileBatch } from './services/drift';
+import { createModelVersion, deleteVersion, productionVersion, promoteVersion, registerVersion, rollbackVersion, versionLabel } from './services/modelRegistry';
+import { loadModelRegistry, saveModelRegistry } from './services/registryStore';
+import { clearBatchProfiles, loadBatchProfiles, loadDriftSettings, saveDriftSettings, storeBatchProfile } from './services/driftStore';
+import { alertPolicyForThreshold } from './services/thresholdOptimizer';
+import { BatchPipelineRequest, directImportSource, ScoringSetup, Stage3Sample } from './services/pipeline';
+import { toJsonArray, toNdjson } from './services/jsonTransactions';
+import { PipelineJob, startBaselineModels, startBatchPipeline } from './services/pipelineWorker';
+import { deleteIngestionProfile, loadIngestionProfiles, saveIngestionProfile } from './services/ingestionProfileStore';
 import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
 
+// Label stamped on scored transactions; "*" marks rules edited since the version was registered
+const modelVersionFor = (version: ModelVersion | null, rules: FraudRule[]): string | undefined => {
+  if (!version) return undefined;
+  return JSON.stringify(version.rules) === JSON.stringify(rules) ? versionLabel(version) : `${versionLabel(version)}*`;
+};
+
 export default function App() {
   // Auth State
   const [isLoggedIn, setIsLoggedIn] = useState(false);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [showSettings, setShowSettings] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const [showRegistry, setShowRegistry] = useState(false);
+
+  // Detection Rules (persisted locally, editable by analysts)
+  const [rules, setRules] = useState<FraudRule[]>(() => loadRules());
+  const rulesRef = useRef<FraudRule[]>(rules);
+  // Rules whose condition does not compile are skipped in scoring until fixed in the editor
+  const brokenRules = rules.filter(r => r.compileError).length;
+
+  // FX rate table and base reporting currency (persisted locally)
+  const [fxSettings, setFxSettings] = useState<FxSettings>(() => loadFxSettings());
+  const fxSettingsRef = useRef<FxSettings>(fxSettings);
+
+  // Alert threshold / risk bands for rule scoring, and the cost matrix used to optimise them
+  const [alertPolicy, setAlertPolicy] = useState<AlertPolicy>(() => loadAlertPolicy());
+  const alertPolicyRef = useRef<AlertPolicy>(alertPolicy);
+  const [costMatrix, setCostMatrix] = useState<CostMatrix>(() => loadCostMatrix());
+  const [evaluation, setEvaluation] = useState<EvaluationOptions>(() => loadEvaluationOptions());
+  const [calibration, setCalibration] = useState<ScoreCalibration | null>(() => loadScoreCalibration());
+  const calibrationRef = useRef<ScoreCalibration | null>(calibration);
+  const [decisionPolicy, setDecisionPolicy] = useState<DecisionPolicy>(() => loadDecisionPolicy());
+
+  // What the upload pipeline's data-quality stage does with bad rows (persisted locally)
+  const [dataQualityPolicy, setDataQualityPolicy] = useState<DataQualityPolicy>(() => loadDataQualityPolicy());
+
+  // Feature / score distributions of past uploads, for drift monitoring (persisted locally)
+  const [batchProfiles, setBatchProfiles] = useState<BatchProfile[]>(() => loadBatchProfiles());
+  const [driftSettings, setDriftSettings] = useState<DriftSettings>(() => loadDriftSettings());
+
+  // Registered model versions; the production one scores every transaction (persisted locally)
+  const [registry, setRegistry] = useState<ModelRegistry>(() => loadModelRegistry());
+  const production = useMemo(() => productionVersion(registry), [registry]);
+
+  // Saved column mappings, one per upstream file layout (persisted locally)
+  const [ingestionProfiles, setIngestionProfiles] = useState<IngestionProfile[]>(() => loadIngestionProfiles());
 
   // App Data State
   const [transactions, setTransactions] = useState<EnrichedTransaction[]>([]);
-  const transactionsRef = useRef<EnrichedTransaction[]>([]); 
+  // The last upload's rows sent to the page and its Stage 3 sample; live mode prepends to the feed,
+  // so Stage 3 reruns and backtests use the sample. The file itself is kept to run again when a
+  // setting changes how its rows are scored, since the page never holds all of them.
+  const [uploadView, setUploadView] = useState<EnrichedTransaction[]>([]);
+  const [uploadSample, setUploadSample] = useState<Stage3Sample | null>(null);
+  const lastUploadRef = useRef<{ file: File; source: ImportSource } | null>(null);
+  const uploadIds = useMemo(() => new Set(uploadView.map(t => t.id)), [uploadView]);
+  // Per-client running state for O(1) live scoring, re-seeded whenever a batch replaces the feed
+  const featureStoreRef = useRef<FeatureStore>(createFeatureStore());
 
   const [selectedTransaction, setSelectedTransaction] = useState<EnrichedTransaction | null>(null);
   const [isLive, setIsLive] = useState(false);
-  const [currentView, setCurrentView] = useState<'dashboard' | 'analytics' | 'alerts'>('dashboard');
+  const [currentView, setCurrentView] = useState<'dashboard' | 'analytics' | 'alerts' | 'drift'>('dashboard');
   const [latestAlert, setLatestAlert] = useState<EnrichedTransaction | null>(null);
   const [globalSearch, setGlobalSearch] = useState('');
   
   // Batch Analysis State
   const [isProcessing, setIsProcessing] = useState(false);
+  const [pipelineProgress, setPipelineProgress] = useState<PipelineProgress | null>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [pendingUpload, setPendingUpload] = useState<File | null>(null); // waiting in the upload wizard
+  const cancelJobRef = useRef<(() => void) | null>(null);
   const [analysisResult, setAnalysisResult] = useState<BatchAnalysisResult | null>(null);
+  // Champion / challenger scoring uses the production models; before anything is registered, the
+  // latest Stage 3 models, preferring those trained on point-in-time features since that is what
+  // live scoring computes
+  const decision: DecisionContext = useMemo(() => ({
+    policy: decisionPolicy,
+    models: production?.models ?? analysisResult?.stage3PointInTime?.models ?? analysisResult?.stage3?.models ?? null,
+    modelVersion: modelVersionFor(production, rules)
+  }), [decisionPolicy, analysisResult, production, rules]);
+  const decisionRef = useRef<DecisionContext>(decision);
   const [analysisReport, setAnalysisReport] = useState('');
   const [showAnalysisModal, setShowAnalysisModal] = useState(false);
+  const [analysisTab, setAnalysisTab] = useState<AnalysisTab>('stage1');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -76,11 +164,179 @@ export default function App() {
   };
 
   useEffect(() => {
-    transactionsRef.current = transactions;
-  }, [transactions]);
+    rulesRef.current = rules;
+  }, [rules]);
+
+  useEffect(() => {
+    fxSettingsRef.current = fxSettings;
+  }, [fxSettings]);
+
+  useEffect(() => {
+    alertPolicyRef.current = alertPolicy;
+  }, [alertPolicy]);
+
+  useEffect(() => {
+    calibrationRef.current = calibration;
+  }, [calibration]);
+
+  useEffect(() => {
+    decisionRef.current = decision;
+  }, [decision]);
+
+  // Re-scores what is on screen. An upload runs through the pipeline again with the changed
+  // settings (the page only has some of its rows); otherwise the feed is re-scored in place.
+  const rescore = (update: (batch: EnrichedTransaction[]) => EnrichedTransaction[], changed: Partial<BatchPipelineRequest>) => {
+    const upload = lastUploadRef.current;
+    if (upload) runUpload(upload.file, upload.source, changed);
+    else setTransactions(update);
+  };
+
+  const handleSaveRules = (edited: FraudRule[]) => {
+    const updated = checkRules(edited);
+    saveRules(updated);
+    setRules(updated);
+    // Re-score what is on screen so the new rule set takes effect immediately
+    const context = { ...decision, modelVersion: modelVersionFor(production, updated) };
+    rescore(prev => processBatchWithFeatures(prev, { rules: updated, alertPolicy, calibration, decision: context }), { rules: updated, decision: context });
+  };
+
+  const handleSaveFx = (updated: FxSettings) => {
+    saveFxSettings(updated);
+    setFxSettings(updated);
+    // Amount features depend on the conversion, so re-normalise, re-seed and re-score what is on screen
+    rescore(prev => {
+        const renormalised = normalizeTransactions(prev, updated);
+        featureStoreRef.current.seed(renormalised);
+        return processBatchWithFeatures(renormalised, { rules: rulesRef.current, alertPolicy, calibration, decision });
+    }, { fxSettings: updated });
+  };
+
+  // Takes effect on the next upload; what is on screen already went through the old policy
+  const handleSaveDataQualityPolicy = (policy: DataQualityPolicy) => {
+    saveDataQualityPolicy(policy);
+    setDataQualityPolicy(policy);
+  };
+
+  // Stage 3 models for a batch, on full-history and on point-in-time features
+  const scoringSetup = (policy: AlertPolicy, cost: CostMatrix, evaluationOptions: EvaluationOptions): ScoringSetup => ({
+    rules,
+    alertPolicy: policy,
+    calibration,
+    stage3Options: {
+      costMatrix: cost, ruleThreshold: policy.threshold, modelThresholds: decisionPolicy.thresholds,
+      evaluation: evaluationOptions, ensemble: decisionPolicy.ensemble
+    }
+  });
+
+  // Stage 3 again on the upload's sample, in the pipeline worker
+  const rerunBaselineModels = async (setup: ScoringSetup) => {
+    if (!analysisResult?.stage3 || !uploadSample) return;
+    const models = await runJob(onProgress => startBaselineModels({ ...setup, sample: uploadSample }, onProgress));
+    if (models) setAnalysisResult(prev => prev ? { ...prev, ...models } : prev);
+  };
+
+  const handleRecomputeThresholds = (cost: CostMatrix) => {
+    saveCostMatrix(cost);
+    setCostMatrix(cost);
+    rerunBaselineModels(scoringSetup(alertPolicy, cost, evaluation));
+  };
+
+  const handleChangeEvaluation = (options: EvaluationOptions) => {
+    saveEvaluationOptions(options);
+    setEvaluation(options);
+    rerunBaselineModels(scoringSetup(alertPolicy, costMatrix, options));
+  };
+
+  // Live scoring flags at the chosen threshold of that model's score; risk bands follow it.
+  // The rules' threshold is the AlertPolicy, a learned model's is kept in the decision policy.
+  const handleApplyThreshold = (model: keyof NonNullable<Stage3Results['thresholds']>, threshold: number) => {
+    if (model !== 'ruleBased') {
+      handleApplyDecisionPolicy({ ...decisionPolicy, thresholds: { ...decisionPolicy.thresholds, [model]: threshold } });
+      return;
+    }
+    const policy = alertPolicyForThreshold(threshold);
+    saveAlertPolicy(policy);
+    setAlertPolicy(policy);
+    rescore(prev => processBatchWithFeatures(prev, { rules: rulesRef.current, alertPolicy: policy, calibration, decision }), scoringSetup(policy, costMatrix, evaluation));
+  };
+
+  // Live scores become calibrated probabilities (or raw rule scores again with null); the policy applies to them
+  const handleApplyCalibration = (updated: ScoreCalibration | null) => {
+    saveScoreCalibration(updated);
+    setCalibration(updated);
+    rescore(prev => processBatchWithFeatures(prev, { rules: rulesRef.current, alertPolicy, calibration: updated, decision }), { calibration: updated });
+  };
+
+  const handleApplyDecisionPolicy = (updated: DecisionPolicy) => {
+    saveDecisionPolicy(updated);
+    setDecisionPolicy(updated);
+    const context = { ...decision, policy: updated };
+    rescore(prev => prev.map(t => decideTransaction(t, alertPolicy, context)), { decision: context });
+  };
+
+  // Saves the registry; a change of production version brings in its rule set and models
+  const applyRegistry = (updated: ModelRegistry) => {
+    const kept = saveModelRegistry(updated);
+    setRegistry(kept);
+    const next = productionVersion(kept);
+    if (!next || next.id === production?.id) return;
+    const nextRules = checkRules(next.rules);
+    saveRules(nextRules);
+    setRules(nextRules);
+    const context = { policy: decisionPolicy, models: next.models, modelVersion: versionLabel(next) };
+    rescore(prev => processBatchWithFeatures(prev, { rules: nextRules, alertPolicy, calibration, decision: context }), { rules: nextRules, decision: context });
+  };
+
+  // Registers the rules and Stage 3 models of the batch on screen; the first version goes straight to production
+  const handleRegisterBatchModels = () => {
+    const reported = analysisResult?.stage3PointInTime ?? analysisResult?.stage3;
+    if (!analysisResult || !reported?.models || analysisResult.registeredVersion) return;
+    const { registry: updated, version } = registerVersion(registry, createModelVersion(rules, reported.models, {
+        dataset: analysisResult.fileName,
+        rowCount: analysisResult.totalProcessed,
+        trainedAt: analysisResult.trainedAt ?? new Date().toISOString(),
+        features: reported.models.logisticRegression.features,
+        labelSource: reported.labelSource,
+        evaluation: reported.evaluation?.mode,
+        metrics: { ruleBased: reported.ruleBased, isolationForest: reported.isolationForest, logisticRegression: reported.logisticRegression }
+    }));
+    applyRegistry(updated);
+    setAnalysisResult(prev => prev ? { ...prev, registeredVersion: versionLabel(version) } : prev);
+  };
+
+  const handleImportModel = (version: ModelVersion) => {
+    applyRegistry(registerVersion(registry, version).registry);
+  };
+
+  const handleChangeDriftSettings = (updated: DriftSettings) => {
+    saveDriftSettings(updated);
+    setDriftSettings(updated);
+  };
+
+  const handleBacktestRules = (candidate: FraudRule[]) => {
+    // An upload is backtested on its Stage 3 sample, which keeps the features its rows were scored on
+    const batch = uploadSample?.pointInTime ?? transactions;
+    const backtest = runBacktest(batch, rules, candidate, alertPolicy, calibration);
+    setAnalysisResult(prev => ({
+        ...(prev || {
+            fileName: 'Current session',
+            totalProcessed: batch.length,
+            anomaliesFound: backtest.current.alerts,
+            processingTime: 0,
+            reportContent: '',
+            timestamp: backtest.timestamp
+        }),
+        backtest
+    }));
+    setShowRules(false);
+    setAnalysisTab('backtest');
+    setShowAnalysisModal(true);
+  };
 
   useEffect(() => {
-    const processed = processBatchWithFeatures(MOCK_TRANSACTIONS);
+    const mock = normalizeTransactions(MOCK_TRANSACTIONS, fxSettingsRef.current);
+    const processed = processBatchWithFeatures(mock, { rules: rulesRef.current, alertPolicy: alertPolicyRef.current, calibration: calibrationRef.current, decision: decisionRef.current });
+    featureStoreRef.current.seed(mock);
     setTransactions(processed);
   }, []);
 
@@ -88,9 +344,8 @@ export default function App() {
     let interval: any;
     if (isLive) {
       interval = setInterval(() => {
-        const newTxn = generateRandomTransaction();
-        const currentHistory = transactionsRef.current;
-        const enriched = analyzeTransaction(newTxn, currentHistory); 
+        const newTxn = normalizeTransaction(generateRandomTransaction(), fxSettingsRef.current);
+        const enriched = analyzeTransaction(newTxn, featureStoreRef.current, { rules: rulesRef.current, alertPolicy: alertPolicyRef.current, calibration: calibrationRef.current, decision: decisionRef.current }); 
         
         if (enriched.isSuspicious) {
             setLatestAlert(enriched);
@@ -107,10 +362,14 @@ export default function App() {
   }, [isLive]);
 
   const stats: DashboardStats = useMemo(() => {
-    const total = transactions.length;
-    const flagged = transactions.filter(t => t.isSuspicious).length;
-    const volume = transactions.reduce((acc, t) => acc + t.amount, 0);
-    const blocked = transactions.filter(t => t.isSuspicious).reduce((acc, t) => acc + t.amount, 0);
+    // An upload counts in full from its summary, plus whatever live mode has added since
+    const summary = uploadSample ? analysisResult?.summary : undefined;
+    const counted = summary ? transactions.filter(t => !uploadIds.has(t.id)) : transactions;
+    const total = counted.length + (summary?.rows ?? 0);
+    const flagged = counted.filter(t => t.isSuspicious).length + (summary?.flagged ?? 0);
+    // Totals are in the base currency
+    const volume = counted.reduce((acc, t) => acc + baseAmountOf(t), 0) + (summary?.totalVolume ?? 0);
+    const blocked = counted.filter(t => t.isSuspicious).reduce((acc, t) => acc + baseAmountOf(t), 0) + (summary?.blockedVolume ?? 0);
     
     return {
         totalTransactions: total,
@@ -119,20 +378,20 @@ export default function App() {
         blockedVolume: blocked,
         fraudRate: total > 0 ? (flagged / total) * 100 : 0
     };
-  }, [transactions]);
+  }, [transactions, uploadSample, uploadIds, analysisResult]);
 
   const chartData = useMemo(() => {
     return [...transactions].reverse().map(t => ({
         time: new Date(t.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit'}),
-        amount: t.amount,
+        amount: baseAmountOf(t),
         score: t.fraudScore * 100
     })).slice(-50); 
   }, [transactions]);
 
   const handleExport = () => {
       const csvContent = "data:text/csv;charset=utf-8," 
-        + "transaction_id,fraud_score,is_suspicious,risk_level,explanation\n"
-        + transactions.map(e => `${e.id},${e.fraudScore},${e.isSuspicious},${e.riskLevel},"${e.ruleTriggered}"`).join("\n");
+        + `transaction_id,amount,currency,amount_${fxSettings.baseCurrency.toLowerCase()},fraud_score,decision_model,model_version,is_suspicious,risk_level,challenger_model,challenger_suspicious,explanation\n`
+        + transactions.map(e => `${e.id},${e.amount},${e.currency},${baseAmountOf(e)},${e.fraudScore},${e.decisionModel || 'rules'},${e.modelVersion || ''},${e.isSuspicious},${e.riskLevel},${e.challengerModel || ''},${e.challengerSuspicious ?? ''},"${e.ruleTriggered}"`).join("\n");
       const encodedUri = encodeURI(csvContent);
       const link = document.createElement("a");
       link.setAttribute("href", encodedUri);
@@ -142,111 +401,134 @@ export default function App() {
       document.body.removeChild(link);
   };
 
-  const parseCSV = (csvText: string): Transaction[] => {
-    const lines = csvText.split('\n').filter(line => line.trim() !== '');
-    if (lines.length < 2) return [];
-
-    const headers = lines[0].split(',').map(h => h.trim());
-    
-    const idx = {
-        step: headers.indexOf('step'),
-        type: headers.indexOf('type'),
-        amount: headers.indexOf('amount'),
-        nameOrig: headers.indexOf('nameOrig'),
-        nameDest: headers.indexOf('nameDest'),
-        isFraud: headers.indexOf('isFraud')
-    };
-
-    if (idx.amount === -1 || idx.type === -1) {
-        console.warn("Standard schema not found, using heuristic parsing.");
-    }
-
-    // Process up to 10k rows for parsing
-    const dataLines = lines.slice(1, 10001);
-    const baseDate = new Date('2023-01-01T00:00:00Z');
-
-    return dataLines.map((line, i) => {
-        const row = line.split(',').map(v => v.trim());
-        const step = parseInt(row[idx.step]) || 0;
-        const timestamp = new Date(baseDate.getTime() + step * 60 * 60 * 1000).toISOString();
-
-        return {
-            id: `TX-${i}-${row[idx.step]}`,
-            clientId: row[idx.nameOrig] || `Unknown-${i}`,
-            amount: parseFloat(row[idx.amount]) || 0,
-            currency: 'USD',
-            timestamp: timestamp,
-            category: row[idx.type] || 'PAYMENT',
-            location: 'Unknown',
-            type: TransactionType.PAYMENT,
-            trueLabel: parseInt(row[idx.isFraud]) || 0
-        };
-    });
+  const handleExportJson = (format: 'ndjson' | 'json') => {
+      // Full records quickly outgrow what a data: URI downloads reliably, so this goes through a Blob URL
+      const content = format === 'ndjson' ? toNdjson(transactions) : toJsonArray(transactions);
+      const url = URL.createObjectURL(new Blob([content], { type: format === 'ndjson' ? 'application/x-ndjson' : 'application/json' }));
+      const link = document.createElement("a");
+      link.setAttribute("href", url);
+      link.setAttribute("download", `fraud_transactions_2.0.${format}`);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
   };
 
+  // XML and JSON are imported directly; a CSV first goes through the upload wizard to map its columns
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    const source = directImportSource(file.name);
+    if (source) runUpload(file, source);
+    else setPendingUpload(file);
+  };
+
+  const handleCancelImport = () => {
+    setPendingUpload(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
 
+  // Runs a job in the pipeline worker with its progress on screen; the controls that would start
+  // another are disabled until it ends. Null when cancelled or failed (the analyst is told).
+  const runJob = async <T,>(start: (onProgress: (progress: PipelineProgress) => void) => PipelineJob<T>): Promise<T | null> => {
     setIsProcessing(true);
+    setPipelineProgress(null);
+    const job = start(setPipelineProgress);
+    cancelJobRef.current = job.cancel;
+    try {
+        return await job.result;
+    } catch (err) {
+        alert((err as Error).message);
+        return null;
+    } finally {
+        cancelJobRef.current = null;
+        setIsProcessing(false);
+        setPipelineProgress(null);
+    }
+  };
+
+  // Runs a file through the pipeline worker. `changed` re-runs the upload on screen with the
+  // settings just changed (not yet in state): it replaces the scores but not the report, and
+  // opens nothing.
+  const runUpload = async (file: File, source: ImportSource, changed?: Partial<BatchPipelineRequest>) => {
+    setPendingUpload(null);
     const startTime = Date.now();
 
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-        const text = e.target?.result as string;
-        
-        const rawTransactions = parseCSV(text);
-        
-        if (rawTransactions.length === 0) {
-            alert("Could not parse transactions. Ensure CSV format matches the FraudDetect 2.0 schema.");
-            setIsProcessing(false);
-            return;
-        }
+    // Parsing, scoring and both Stage 3 runs happen in the pipeline worker; the file is streamed
+    // there rather than read into one string here. Rows are decided as they are scored, with the
+    // models live transactions use: the batch's own are only registered when the analyst asks
+    // for it (handleRegisterBatchModels).
+    const request: BatchPipelineRequest = {
+        file, source, fxSettings, dataQualityPolicy, decision, ...scoringSetup(alertPolicy, costMatrix, evaluation), ...changed
+    };
+    const pipelineResult = await runJob(onProgress => startBatchPipeline(request, onProgress));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!pipelineResult) return;
+    const { view, sample, summary, importReport, dataQuality, stage3: stage3Results, stage3PointInTime } = pipelineResult;
+
+    lastUploadRef.current = { file, source };
+    // On a re-run, live rows added since the upload stay on the feed, re-scored on the features they carry
+    setTransactions(prev => changed
+        ? [...rescoreTransactions(normalizeTransactions(prev.filter(t => !uploadIds.has(t.id)), request.fxSettings), request), ...view]
+        : view);
+    setUploadView(view);
+    setUploadSample(sample);
+    // Live scoring carries on from the client history of the rows the page has
+    featureStoreRef.current.seed(view);
+
+    const batchResults = {
+        totalProcessed: summary.rows,
+        anomaliesFound: summary.flagged,
+        stage3: stage3Results,
+        stage3PointInTime,
+        summary,
+        importReport,
+        dataQuality
+    };
+    if (changed) {
+        setAnalysisResult(prev => prev ? { ...prev, ...batchResults } : prev);
+        return;
+    }
 
-        await new Promise(r => setTimeout(r, 500));
-        
-        const enrichedBatch = processBatchWithFeatures(rawTransactions);
-        const stage3Results = runStage3Analysis(enrichedBatch);
-
-        setTransactions(enrichedBatch);
-
-        const batchStats = {
-            totalTransactions: enrichedBatch.length,
-            flaggedTransactions: enrichedBatch.filter(t => t.isSuspicious).length,
-            totalVolume: enrichedBatch.reduce((acc, t) => acc + t.amount, 0),
-            blockedVolume: enrichedBatch.filter(t => t.isSuspicious).reduce((acc, t) => acc + t.amount, 0),
-            fraudRate: (enrichedBatch.filter(t => t.isSuspicious).length / enrichedBatch.length) * 100
-        };
-
-        const triggers = new Set<string>();
-        enrichedBatch.forEach(t => {
-            if (t.ruleTriggered) t.ruleTriggered.split(', ').forEach(tr => triggers.add(tr));
-        });
-
-        const report = await generateBatchReport(batchStats, Array.from(triggers));
-
-        setAnalysisResult({
-            fileName: file.name,
-            totalProcessed: enrichedBatch.length,
-            anomaliesFound: batchStats.flaggedTransactions,
-            processingTime: Date.now() - startTime,
-            reportContent: report,
-            timestamp: new Date().toLocaleString(),
-            stage3: stage3Results
-        });
-        setAnalysisReport(report);
-        setIsProcessing(false);
-        setShowAnalysisModal(true);
-        
-        if (fileInputRef.current) fileInputRef.current.value = '';
+    const sampleDecided = sample.pointInTime.map(t => decideTransaction(t, request.alertPolicy, request.decision));
+    setBatchProfiles(storeBatchProfile(profileBatch(sampleDecided, request.decision?.models ?? null, file.name), driftSettings.referenceId));
+
+    const batchStats = {
+        totalTransactions: summary.rows,
+        flaggedTransactions: summary.flagged,
+        totalVolume: summary.totalVolume,
+        blockedVolume: summary.blockedVolume,
+        fraudRate: (summary.flagged / summary.rows) * 100
     };
-    reader.readAsText(file);
+    const report = await generateBatchReport(batchStats, summary.ruleHits.map(hit => hit.name), fxSettings.baseCurrency);
+
+    setAnalysisResult({
+        fileName: file.name,
+        processingTime: Date.now() - startTime,
+        reportContent: report,
+        timestamp: new Date().toLocaleString(),
+        trainedAt: new Date().toISOString(),
+        ...batchResults
+    });
+    setAnalysisReport(report);
+    // Rows left out of scoring should not go unnoticed
+    setAnalysisTab(dataQuality.quarantined + dataQuality.rejected > 0 ? 'quality' : 'stage1');
+    setShowAnalysisModal(true);
   };
 
   const renderContent = () => {
     switch(currentView) {
       case 'analytics':
         return <AnalyticsView transactions={transactions} />;
+      case 'drift':
+        return (
+            <DriftView
+                profiles={batchProfiles}
+                settings={driftSettings}
+                onChangeSettings={handleChangeDriftSettings}
+                onClearHistory={() => setBatchProfiles(clearBatchProfiles())}
+            />
+        );
       case 'alerts':
         return (
             <AlertsView 
@@ -254,6 +536,7 @@ export default function App() {
                 onSelect={setSelectedTransaction} 
                 latestAlert={latestAlert}
                 onClearAlert={() => setLatestAlert(null)}
+                baseCurrency={fxSettings.baseCurrency}
             />
         );
       case 'dashboard':
@@ -293,7 +576,7 @@ export default function App() {
                             <span className="text-sm font-medium">Safe Transaction Volume</span>
                         </div>
                         <h2 className="text-4xl font-bold text-white mb-2">
-                            ${(stats.totalVolume - stats.blockedVolume).toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}
+                            {formatAmount(stats.totalVolume - stats.blockedVolume, fxSettings.baseCurrency)}
                         </h2>
                          <div className="flex items-center gap-2">
                              <span className="bg-green-500/20 text-green-400 text-xs px-2 py-1 rounded-full font-medium flex items-center gap-1">
@@ -322,6 +605,7 @@ export default function App() {
                             transactions={transactions} 
                             onSelect={setSelectedTransaction} 
                             externalSearch={globalSearch}
+                            baseCurrency={fxSettings.baseCurrency}
                         />
                     </div>
                 </div>
@@ -338,13 +622,37 @@ export default function App() {
                     <div className="relative z-10">
                          <h3 className="font-bold text-lg mb-1">AI Data Ingestion</h3>
                          <p className="text-indigo-100 text-xs mb-4">Upload synthetic datasets for deep deep learning analysis.</p>
-                         <button className="bg-white/20 hover:bg-white/30 backdrop-blur-md px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2">
-                            {isProcessing ? <Loader2 className="animate-spin" size={16}/> : <UploadCloud size={16} />}
-                            {isProcessing ? 'Processing...' : 'Upload CSV'}
-                         </button>
+                         {isProcessing ? (
+                            <div onClick={(e) => e.stopPropagation()} className="space-y-2 cursor-default">
+                                <div className="flex items-center justify-between text-xs">
+                                    <span className="flex items-center gap-2 font-medium">
+                                        <Loader2 className="animate-spin" size={14}/>
+                                        {pipelineProgress ? pipelineProgress.label : 'Starting'}
+                                        {pipelineProgress?.rowsRead !== undefined && <span className="text-indigo-100 font-normal">· {pipelineProgress.rowsRead.toLocaleString()} rows</span>}
+                                    </span>
+                                    {pipelineProgress && <span className="text-indigo-100 font-mono">{pipelineProgress.step}/{pipelineProgress.totalSteps}</span>}
+                                </div>
+                                <div className="h-1.5 bg-white/20 rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full bg-white rounded-full transition-all duration-300"
+                                        style={{ width: `${pipelineProgress ? ((pipelineProgress.step - 1 + (pipelineProgress.stepFraction ?? 0)) / pipelineProgress.totalSteps) * 100 : 0}%` }}
+                                    />
+                                </div>
+                                <button
+                                    onClick={() => cancelJobRef.current?.()}
+                                    className="bg-white/20 hover:bg-white/30 backdrop-blur-md px-3 py-1.5 rounded-lg text-xs font-medium transition-colors flex items-center gap-2"
+                                >
+                                    <X size={14} /> Cancel
+                                </button>
+                            </div>
+                         ) : (
+                            <button className="bg-white/20 hover:bg-white/30 backdrop-blur-md px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2">
+                                <UploadCloud size={16} /> Upload CSV / XML / JSON
+                            </button>
+                         )}
                          <input 
                             type="file" 
-                            accept=".csv" 
+                            accept=".csv,.tsv,.txt,.xml,.json,.ndjson,.jsonl" 
                             ref={fileInputRef}
                             onChange={handleFileUpload}
                             className="hidden"
@@ -368,7 +676,7 @@ export default function App() {
                     />
                     <StatsCard 
                         title="Blocked Volume"
-                        value={`$${(stats.blockedVolume / 1000).toFixed(1)}k`}
+                        value={formatAmount(stats.blockedVolume, fxSettings.baseCurrency, true)}
                         icon={<ShieldCheck size={20} />}
                         trend="-1.2%"
                         trendUp={true}
@@ -446,6 +754,7 @@ export default function App() {
                 { id: 'dashboard', icon: LayoutDashboard, label: 'Home' },
                 { id: 'analytics', icon: Activity, label: 'Analytics' },
                 { id: 'alerts', icon: AlertTriangle, label: 'Alerts', badge: stats.flaggedTransactions },
+                { id: 'drift', icon: Waves, label: 'Drift' },
             ].map((item) => (
                  <button 
                     key={item.id}
@@ -471,6 +780,25 @@ export default function App() {
             ))}
             
             <div className="pt-4 mt-4 border-t border-surfaceHighlight">
+                 <button 
+                    onClick={() => setShowRules(true)}
+                    className="w-full flex items-center gap-3 px-3 py-3 rounded-xl text-slate-400 hover:text-white hover:bg-surfaceHighlight transition-colors"
+                >
+                    <SlidersHorizontal size={22} />
+                    <span className="hidden lg:block font-medium">Rules</span>
+                    {brokenRules > 0 && (
+                        <span title={`${brokenRules} rule${brokenRules === 1 ? '' : 's'} skipped: condition does not compile`} className="hidden lg:flex ml-auto w-5 h-5 bg-red-500 text-white text-[10px] items-center justify-center rounded-full">
+                            {brokenRules}
+                        </span>
+                    )}
+                </button>
+                 <button 
+                    onClick={() => setShowRegistry(true)}
+                    className="w-full flex items-center gap-3 px-3 py-3 rounded-xl text-slate-400 hover:text-white hover:bg-surfaceHighlight transition-colors"
+                >
+                    <Boxes size={22} />
+                    <span className="hidden lg:block font-medium">Models{production ? ` · ${versionLabel(production)}` : ''}</span>
+                </button>
                  <button 
                     onClick={() => setShowSettings(true)}
                     className="w-full flex items-center gap-3 px-3 py-3 rounded-xl text-slate-400 hover:text-white hover:bg-surfaceHighlight transition-colors"
@@ -523,13 +851,34 @@ export default function App() {
                     {isLive ? 'Stop Live' : 'Start Live Mode'}
                 </button>
 
-                 <button 
-                    onClick={handleExport}
-                    className="hidden md:flex items-center gap-2 px-5 py-2.5 rounded-xl font-medium text-sm border border-slate-600 text-slate-300 hover:text-white hover:border-slate-500 transition-all"
-                >
-                    <Download size={16} />
-                    Export
-                </button>
+                 <div className="relative hidden md:block">
+                    <button 
+                        onClick={() => setShowExportMenu(!showExportMenu)}
+                        className="flex items-center gap-2 px-5 py-2.5 rounded-xl font-medium text-sm border border-slate-600 text-slate-300 hover:text-white hover:border-slate-500 transition-all"
+                    >
+                        <Download size={16} />
+                        Export
+                        <ChevronDown size={14} />
+                    </button>
+                    {showExportMenu && (
+                        <div className="absolute right-0 mt-2 w-64 bg-surface border border-surfaceHighlight rounded-xl shadow-2xl z-50 overflow-hidden">
+                            {[
+                                { label: 'CSV report', hint: 'Scores and decisions', run: handleExport },
+                                { label: 'NDJSON', hint: 'Full records, one per line', run: () => handleExportJson('ndjson') },
+                                { label: 'JSON', hint: 'Full records as an array', run: () => handleExportJson('json') }
+                            ].map(option => (
+                                <button
+                                    key={option.label}
+                                    onClick={() => { option.run(); setShowExportMenu(false); }}
+                                    className="w-full text-left px-4 py-2.5 hover:bg-surfaceHighlight transition-colors"
+                                >
+                                    <div className="text-sm text-slate-200">{option.label}</div>
+                                    <div className="text-[11px] text-slate-500">{option.hint}</div>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                 </div>
 
                 <div className="h-8 w-px bg-surfaceHighlight mx-2"></div>
                 
@@ -560,6 +909,8 @@ export default function App() {
           transaction={selectedTransaction} 
           allTransactions={transactions}
           onClose={() => setSelectedTransaction(null)} 
+          baseCurrency={fxSettings.baseCurrency}
+          models={decision.models}
         />
         
         {/* Analysis Modal */}
@@ -567,8 +918,23 @@ export default function App() {
             isOpen={showAnalysisModal}
             onClose={() => setShowAnalysisModal(false)}
             results={analysisResult}
-            transactions={transactions.slice(0, analysisResult?.totalProcessed || 50)}
+            transactions={uploadSample ? uploadView : transactions.slice(0, analysisResult?.totalProcessed || 50)}
             reportText={analysisReport}
+            initialTab={analysisTab}
+            baseCurrency={fxSettings.baseCurrency}
+            costMatrix={costMatrix}
+            alertPolicy={alertPolicy}
+            onRecomputeThresholds={handleRecomputeThresholds}
+            onApplyThreshold={handleApplyThreshold}
+            evaluation={evaluation}
+            onChangeEvaluation={handleChangeEvaluation}
+            calibration={calibration}
+            onApplyCalibration={handleApplyCalibration}
+            decisionPolicy={decisionPolicy}
+            onApplyDecisionPolicy={handleApplyDecisionPolicy}
+            onRegisterModels={handleRegisterBatchModels}
+            busy={isProcessing}
+            progress={pipelineProgress}
         />
 
         {/* Settings Modal */}
@@ -576,6 +942,45 @@ export default function App() {
             isOpen={showSettings} 
             onClose={() => setShowSettings(false)}
             user={currentUser}
+            fxSettings={fxSettings}
+            onSaveFx={handleSaveFx}
+            dataQualityPolicy={dataQualityPolicy}
+            onSaveDataQualityPolicy={handleSaveDataQualityPolicy}
+            busy={isProcessing}
+        />
+
+        {/* Model Registry */}
+        <ModelRegistryModal
+            isOpen={showRegistry}
+            onClose={() => setShowRegistry(false)}
+            registry={registry}
+            onPromote={(id) => applyRegistry(promoteVersion(registry, id))}
+            onRollback={() => applyRegistry(rollbackVersion(registry))}
+            onDelete={(id) => applyRegistry(deleteVersion(registry, id))}
+            onImport={handleImportModel}
+            busy={isProcessing}
+        />
+
+        {/* Upload Wizard */}
+        <ImportWizard
+            file={pendingUpload}
+            profiles={ingestionProfiles}
+            baseCurrency={fxSettings.baseCurrency}
+            onCancel={handleCancelImport}
+            onImport={(mapping) => pendingUpload && runUpload(pendingUpload, { format: 'csv', mapping })}
+            onSaveProfile={(name, mapping) => setIngestionProfiles(saveIngestionProfile(name, mapping))}
+            onDeleteProfile={(id) => setIngestionProfiles(deleteIngestionProfile(id))}
+        />
+
+        {/* Rules Editor */}
+        <RulesEditor 
+            isOpen={showRules}
+            onClose={() => setShowRules(false)}
+            rules={rules}
+            onSave={handleSaveRules}
+            onBacktest={handleBacktestRules}
+            alertThreshold={alertPolicy.threshold}
+            busy={isProcessing}
         />
         
       </main>
@@ -2,15 +2,17 @@ import React, { useState } from 'react';
 import { EnrichedTransaction } from '../types';
 import { ShieldAlert, CheckCircle, Search, Filter, AlertTriangle, Radio } from 'lucide-react';
 import { NotificationToast } from './NotificationToast';
+import { formatAmount, formatBaseAmount } from '../services/fx';
 
 interface AlertsViewProps {
   transactions: EnrichedTransaction[];
   onSelect: (t: EnrichedTransaction) => void;
   latestAlert: EnrichedTransaction | null;
   onClearAlert: () => void;
+  baseCurrency: string;
 }
 
-export const AlertsView: React.FC<AlertsViewProps> = ({ transactions, onSelect, latestAlert, onClearAlert }) => {
+export const AlertsView: React.FC<AlertsViewProps> = ({ transactions, onSelect, latestAlert, onClearAlert, baseCurrency }) => {
   const [filter, setFilter] = useState<'ALL' | 'CRITICAL' | 'HIGH' | 'MEDIUM'>('ALL');
 
   const alerts = transactions.filter(t => t.isSuspicious).filter(t => {
@@ -98,7 +100,10 @@ export const AlertsView: React.FC<AlertsViewProps> = ({ transactions, onSelect,
                     <td className="p-4 text-slate-300 max-w-xs truncate" title={txn.ruleTriggered}>
                         {txn.ruleTriggered}
                     </td>
-                    <td className="p-4 text-white font-mono">${txn.amount.toLocaleString()}</td>
+                    <td className="p-4 text-white font-mono">
+                        {formatAmount(txn.amount, txn.currency)}
+                        {formatBaseAmount(txn, baseCurrency) && <span className="block text-[10px] text-slate-500">{formatBaseAmount(txn, baseCurrency)}</span>}
+                    </td>
                     <td className="p-4 text-xs">{new Date(txn.timestamp).toLocaleString()}</td>
                     <td className="p-4">
                         <button className="bg-surfaceHighlight hover:bg-slate-700 text-white px-3 py-1 rounded-lg text-xs flex items-center gap-2 transition-colors border border-slate-600">
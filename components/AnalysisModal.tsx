@@ -1,7 +1,13 @@
-import React, { useRef, useState } from 'react';
-import { EnrichedTransaction, BatchAnalysisResult, ModelMetrics } from '../types';
-import { X, FileText, FileSpreadsheet, Image as ImageIcon, Download, ShieldAlert, List, BarChart as BarChartIcon, GitBranch } from 'lucide-react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, LineChart, Line, Legend } from 'recharts';
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertPolicy, CostMatrix, DataQualityCheck, EnrichedTransaction, BatchAnalysisResult, DecisionModel, DecisionPolicy, EvaluationMode, EvaluationOptions, ModelMetrics, PipelineProgress, ScoreCalibration, Stage3Results } from '../types';
+import { X, FileText, FileSpreadsheet, Image as ImageIcon, Download, ShieldAlert, List, BarChart as BarChartIcon, GitBranch, GitCompare, FileInput, FileJson, ShieldCheck, AlertTriangle, Boxes, Loader2 } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, LineChart, Line, Legend, ReferenceLine } from 'recharts';
+import { baseAmountOf, formatAmount } from '../services/fx';
+import { PRECISION_AT_K } from '../services/metrics';
+import { BASE_MODELS, DECISION_MODEL_LABELS } from '../services/decision';
+import { toNdjson } from '../services/jsonTransactions';
+import { DATA_QUALITY_ACTION_LABELS, DATA_QUALITY_CHECKS } from '../services/dataQuality';
+import { MAX_FLAGGED_ROWS, VIEW_WINDOW } from '../services/pipeline';
 
 interface AnalysisModalProps {
   isOpen: boolean;
@@ -9,53 +15,113 @@ interface AnalysisModalProps {
   results: BatchAnalysisResult | null;
   transactions: EnrichedTransaction[];
   reportText: string;
+  initialTab?: AnalysisTab;
+  baseCurrency: string;
+  costMatrix: CostMatrix;
+  alertPolicy: AlertPolicy;
+  onRecomputeThresholds: (cost: CostMatrix) => void;
+  onApplyThreshold: (model: ThresholdModel, threshold: number) => void;
+  evaluation: EvaluationOptions;
+  onChangeEvaluation: (options: EvaluationOptions) => void;
+  calibration: ScoreCalibration | null;
+  onApplyCalibration: (calibration: ScoreCalibration | null) => void;
+  decisionPolicy: DecisionPolicy;
+  onApplyDecisionPolicy: (policy: DecisionPolicy) => void;
+  onRegisterModels: () => void;
+  busy: boolean; // a pipeline job is running; the controls that would start another are disabled
+  progress: PipelineProgress | null;
 }
 
-export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, results, transactions, reportText }) => {
+type ThresholdModel = keyof NonNullable<Stage3Results['thresholds']>;
+
+const CURVE_SERIES: { key: keyof NonNullable<Stage3Results['curves']>; name: string; color: string }[] = [
+  { key: 'ruleBased', name: 'RuleBased', color: '#3b82f6' },
+  { key: 'isolationForest', name: 'IsoForest', color: '#10b981' },
+  { key: 'logisticRegression', name: 'LogReg', color: '#f59e0b' }
+];
+
+const THRESHOLD_MODELS: { key: ThresholdModel; label: string; color: string }[] = [
+  { key: 'ruleBased', label: 'Rule-Based', color: '#3b82f6' },
+  { key: 'isolationForest', label: 'Isolation Forest', color: '#10b981' },
+  { key: 'logisticRegression', label: 'Logistic Regression', color: '#f59e0b' }
+];
+
+export type AnalysisTab = 'stage1' | 'quality' | 'stage3' | 'backtest';
+
+const formatDelta = (value: number, digits = 4) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+// " [0.8812–0.9401]" after a point estimate, when the metric has a bootstrap interval
+const formatInterval = (metrics: ModelMetrics, key: keyof NonNullable<ModelMetrics['ci']>) =>
+  metrics.ci ? ` [${metrics.ci[key].lower}–${metrics.ci[key].upper}]` : '';
+
+const EVALUATION_MODES: { key: EvaluationMode; label: string }[] = [
+  { key: 'in-sample', label: 'In-Sample' },
+  { key: 'out-of-time', label: 'Out-of-Time' },
+  { key: 'k-fold', label: 'K-Fold CV' }
+];
+
+const CALIBRATION_SERIES: { key: 'raw' | 'platt' | 'isotonic'; name: string; color: string }[] = [
+  { key: 'raw', name: 'Raw score', color: '#94a3b8' },
+  { key: 'platt', name: 'Platt', color: '#8b5cf6' },
+  { key: 'isotonic', name: 'Isotonic', color: '#ec4899' }
+];
+
+const CHECK_LABELS = Object.fromEntries(DATA_QUALITY_CHECKS.map(c => [c.check, c.label])) as Record<DataQualityCheck, string>;
+
+const inputClass = "w-full bg-surface border border-surfaceHighlight text-white rounded-lg px-3 py-2 text-sm focus:border-primary-500 focus:outline-none";
+
+export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, results, transactions, reportText, initialTab = 'stage1', baseCurrency,
+  costMatrix, alertPolicy, onRecomputeThresholds, onApplyThreshold, evaluation, onChangeEvaluation,
+  calibration, onApplyCalibration, decisionPolicy, onApplyDecisionPolicy, onRegisterModels, busy, progress
+}) => {
   const chartRef = useRef<HTMLDivElement>(null);
   const [downloading, setDownloading] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'stage1' | 'stage3'>('stage1');
+  const [activeTab, setActiveTab] = useState<AnalysisTab>(initialTab);
+  const [showAllBacktestRows, setShowAllBacktestRows] = useState(false);
+  const [featureMode, setFeatureMode] = useState<'full' | 'pointInTime'>('full');
+  const [costDraft, setCostDraft] = useState<CostMatrix>(costMatrix);
+  const [thresholdModel, setThresholdModel] = useState<ThresholdModel>('ruleBased');
+  const [evaluationDraft, setEvaluationDraft] = useState<EvaluationOptions>(evaluation);
+  const [calibrationModel, setCalibrationModel] = useState<ThresholdModel>('ruleBased');
+  const [decisionDraft, setDecisionDraft] = useState<DecisionPolicy>(decisionPolicy);
+
+  useEffect(() => {
+    if (isOpen) setActiveTab(initialTab);
+  }, [isOpen, initialTab]);
+
+  useEffect(() => {
+    setCostDraft(costMatrix);
+  }, [costMatrix, isOpen]);
+
+  useEffect(() => {
+    setEvaluationDraft(evaluation);
+  }, [evaluation, isOpen]);
+
+  useEffect(() => {
+    setDecisionDraft(decisionPolicy);
+  }, [decisionPolicy, isOpen]);
 
   if (!isOpen || !results) return null;
 
-  // Prepare chart data: Distribution of risk
+  const stage3 = featureMode === 'pointInTime' && results.stage3PointInTime ? results.stage3PointInTime : results.stage3;
+
+  // Prepare chart data: Distribution of risk, over the whole upload when there is one
+  const riskCount = (level: EnrichedTransaction['riskLevel']) =>
+    results.summary ? results.summary.riskLevels[level] : transactions.filter(t => t.riskLevel === level).length;
   const riskDistribution = [
-    { name: 'Low Risk', count: transactions.filter(t => t.riskLevel === 'LOW').length, color: '#22c55e' },
-    { name: 'Medium Risk', count: transactions.filter(t => t.riskLevel === 'MEDIUM').length, color: '#eab308' },
-    { name: 'High Risk', count: transactions.filter(t => t.riskLevel === 'HIGH').length, color: '#f97316' },
-    { name: 'Critical', count: transactions.filter(t => t.riskLevel === 'CRITICAL').length, color: '#ef4444' },
+    { name: 'Low Risk', count: riskCount('LOW'), color: '#22c55e' },
+    { name: 'Medium Risk', count: riskCount('MEDIUM'), color: '#eab308' },
+    { name: 'High Risk', count: riskCount('HIGH'), color: '#f97316' },
+    { name: 'Critical', count: riskCount('CRITICAL'), color: '#ef4444' },
   ];
 
-  const metricsData = results.stage3 ? [
-      { name: 'Precision', RuleBased: results.stage3.ruleBased.precision, IsoForest: results.stage3.isolationForest.precision, LogReg: results.stage3.logisticRegression.precision },
-      { name: 'Recall', RuleBased: results.stage3.ruleBased.recall, IsoForest: results.stage3.isolationForest.recall, LogReg: results.stage3.logisticRegression.recall },
-      { name: 'F1 Score', RuleBased: results.stage3.ruleBased.f1Score, IsoForest: results.stage3.isolationForest.f1Score, LogReg: results.stage3.logisticRegression.f1Score },
-      { name: 'ROC AUC', RuleBased: results.stage3.ruleBased.rocAuc, IsoForest: results.stage3.isolationForest.rocAuc, LogReg: results.stage3.logisticRegression.rocAuc },
+  const metricsData = stage3 ? [
+      { name: 'Precision', RuleBased: stage3.ruleBased.precision, IsoForest: stage3.isolationForest.precision, LogReg: stage3.logisticRegression.precision },
+      { name: 'Recall', RuleBased: stage3.ruleBased.recall, IsoForest: stage3.isolationForest.recall, LogReg: stage3.logisticRegression.recall },
+      { name: 'F1 Score', RuleBased: stage3.ruleBased.f1Score, IsoForest: stage3.isolationForest.f1Score, LogReg: stage3.logisticRegression.f1Score },
+      { name: 'ROC AUC', RuleBased: stage3.ruleBased.rocAuc, IsoForest: stage3.isolationForest.rocAuc, LogReg: stage3.logisticRegression.rocAuc },
   ] : [];
 
-  const generateRocData = (auc: number) => {
-      const data = [];
-      for (let i = 0; i <= 10; i++) {
-          const x = i / 10;
-          const power = Math.log(1 - auc) / Math.log(0.5); 
-          const y = Math.pow(x, 1/power);
-          data.push({ x, y: x === 0 ? 0 : y });
-      }
-      return data;
-  };
-  
-  const rocData = results.stage3 ? (() => {
-      const rule = generateRocData(results.stage3.ruleBased.rocAuc);
-      const iso = generateRocData(results.stage3.isolationForest.rocAuc);
-      const log = generateRocData(results.stage3.logisticRegression.rocAuc);
-      return rule.map((p, i) => ({
-          x: p.x,
-          RuleBased: p.y,
-          IsoForest: iso[i].y,
-          LogReg: log[i].y,
-          Random: p.x
-      }));
-  })() : [];
 
 
   // DOWNLOAD HANDLERS
@@ -123,12 +189,12 @@ export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, r
   const downloadStage1Data = () => {
       handleDownloadCSV("fraud_data_with_features.csv", () => {
         const headers = [
-            "transaction_id", "client_id", "amount", "timestamp", "fraud_score", "risk_level", "explanation",
+            "transaction_id", "client_id", "amount", "currency", `amount_${baseCurrency.toLowerCase()}`, "fx_rate_date", "timestamp", "fraud_score", "risk_level", "explanation",
             "amount_zscore", "is_amount_outlier", "client_amount_mean", "client_amount_std", 
             "time_since_last_min", "amount_rolling_mean_5", "is_rapid_transaction"
         ];
         const rows = transactions.map(t => [
-            t.id, t.clientId, t.amount, t.timestamp, t.fraudScore, t.riskLevel, `"${t.ruleTriggered || ''}"`,
+            t.id, t.clientId, t.amount, t.currency, baseAmountOf(t), t.fxRateDate || '', t.timestamp, t.fraudScore, t.riskLevel, `"${t.ruleTriggered || ''}"`,
             t.amount_zscore || 0, t.is_amount_outlier ? 1 : 0, t.client_amount_mean || 0, t.client_amount_std || 0,
             t.time_since_last_trans || 0, t.amount_rolling_mean_5 || 0, t.is_rapid_transaction ? 1 : 0
         ].join(","));
@@ -139,26 +205,82 @@ export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, r
   const downloadBaselineResults = () => {
       if (!results.stage3) return;
       handleDownloadCSV("baseline_models_results.csv", () => {
-          const s3 = results.stage3!;
-          return `Model,ROC-AUC,Precision,Recall,F1-Score\n` +
-                 `Rule-Based,${s3.ruleBased.rocAuc},${s3.ruleBased.precision},${s3.ruleBased.recall},${s3.ruleBased.f1Score}\n` +
-                 `IsolationForest,${s3.isolationForest.rocAuc},${s3.isolationForest.precision},${s3.isolationForest.recall},${s3.isolationForest.f1Score}\n` +
-                 `LogisticRegression,${s3.logisticRegression.rocAuc},${s3.logisticRegression.precision},${s3.logisticRegression.recall},${s3.logisticRegression.f1Score}`;
+          const cost = (s3: Stage3Results, model: ThresholdModel) => {
+              const t = s3.thresholds?.[model];
+              return t ? `${t.currentThreshold},${t.currentCost},${t.optimalThreshold},${t.optimalCost}` : ',,,';
+          };
+          const ranking = (s3: Stage3Results, model: ThresholdModel) => {
+              const c = s3.curves?.[model];
+              return [c?.averagePrecision ?? '', ...PRECISION_AT_K.map(k => c?.precisionAtK.find(p => p.k === k)?.precision ?? '')].join(',');
+          };
+          const intervals = (m: ModelMetrics) =>
+              (['rocAuc', 'precision', 'recall', 'f1Score'] as const).map(k => m.ci ? `${m.ci[k].lower},${m.ci[k].upper}` : ',').join(',');
+          const line = (mode: string, s3: Stage3Results, name: string, model: ThresholdModel) => {
+              const m = s3[model];
+              return `${mode},${s3.evaluation?.mode ?? 'in-sample'},${name},${m.rocAuc},${m.precision},${m.recall},${m.f1Score},${intervals(m)},${ranking(s3, model)},${cost(s3, model)}`;
+          };
+          const rows = (mode: string, s3: Stage3Results) =>
+                 line(mode, s3, 'Rule-Based', 'ruleBased') + "\n" +
+                 line(mode, s3, 'IsolationForest', 'isolationForest') + "\n" +
+                 line(mode, s3, 'LogisticRegression', 'logisticRegression');
+          return `Features,Evaluation,Model,ROC-AUC,Precision,Recall,F1-Score,ROC-AUC Low,ROC-AUC High,Precision Low,Precision High,Recall Low,Recall High,F1 Low,F1 High,Average Precision,${PRECISION_AT_K.map(k => `P@${k}`).join(',')},Current Threshold,Expected Cost (${baseCurrency}),Optimal Threshold,Optimal Cost (${baseCurrency})\n` +
+                 rows('full-history', results.stage3!) +
+                 (results.stage3PointInTime ? "\n" + rows('point-in-time', results.stage3PointInTime) : '');
+      });
+  };
+
+  const downloadModelCurves = () => {
+      if (!stage3?.curves) return;
+      handleDownloadCSV("model_curves.csv", () => {
+          const rows: string[] = [];
+          CURVE_SERIES.forEach(({ key, name }) => {
+              const c = stage3!.curves![key];
+              c.roc.forEach(p => rows.push(`${name},roc,${p.threshold},${p.fpr},${p.tpr}`));
+              c.pr.forEach(p => rows.push(`${name},pr,${p.threshold},${p.recall},${p.precision}`));
+          });
+          // x/y are fpr/tpr for ROC rows and recall/precision for PR rows
+          return "model,curve,threshold,x,y\n" + rows.join("\n");
       });
   };
 
   const downloadBaselinePredictions = () => {
       handleDownloadCSV("baseline_predictions.csv", () => {
-          const headers = ["transaction_id", "rule_score", "iso_score", "logreg_score"];
-          const rows = transactions.map(t => [t.id, t.fraudScore, t.isoForestScore || 0, t.logRegScore || 0].join(","));
+          // fraud_score is the deciding model's live score, rule_score the raw rule-weight sum
+          const headers = ["transaction_id", "fraud_score", "decision_model", "model_version", "rule_score", "iso_score", "logreg_score"];
+          const rows = transactions.map(t => [t.id, t.fraudScore, t.decisionModel || 'rules', t.modelVersion || '', t.ruleScore ?? t.fraudScore, t.isoForestScore || 0, t.logRegScore || 0].join(","));
           return headers.join(",") + "\n" + rows.join("\n");
       });
   };
 
   const downloadFeatureImportance = () => {
-      if (!results.stage3) return;
+      if (!stage3) return;
       handleDownloadCSV("logreg_feature_importance.csv", () => {
-           return "feature,coefficient\n" + results.stage3!.featureImportance.map(f => `${f.feature},${f.coefficient}`).join("\n");
+           return "feature,coefficient\n" + stage3!.featureImportance.map(f => `${f.feature},${f.coefficient}`).join("\n");
+      });
+  };
+
+  const downloadBacktestDiff = () => {
+      if (!results.backtest) return;
+      handleDownloadCSV("rule_backtest_diff.csv", () => {
+          const headers = ["transaction_id", "client_id", "amount", "currency", `amount_${baseCurrency.toLowerCase()}`, "true_label", "current_score", "candidate_score", "current_alert", "candidate_alert", "change", "current_triggers", "candidate_triggers"];
+          const rows = results.backtest!.rows.map(r => [
+              r.transactionId, r.clientId, r.amount, r.currency, r.baseAmount, r.trueLabel ?? '', r.currentScore, r.candidateScore,
+              r.currentAlert ? 1 : 0, r.candidateAlert ? 1 : 0, r.change, `"${r.currentTriggers}"`, `"${r.candidateTriggers}"`
+          ].join(","));
+          return headers.join(",") + "\n" + rows.join("\n");
+      });
+  };
+
+  const downloadBacktestSummary = () => {
+      if (!results.backtest) return;
+      handleDownloadCSV("rule_backtest_summary.csv", () => {
+          const bt = results.backtest!;
+          const line = (name: string, s: typeof bt.current) =>
+              `${name},${s.alerts},${s.blockedVolume.toFixed(2)},${s.metrics?.precision ?? ''},${s.metrics?.recall ?? ''},${s.metrics?.f1Score ?? ''}`;
+          return `Ruleset,Alerts,Blocked Volume (${baseCurrency}),Precision,Recall,F1-Score\n` +
+                 line('Current', bt.current) + "\n" +
+                 line('Candidate', bt.candidate) + "\n" +
+                 `Alerts gained,${bt.alertsGained}\nAlerts lost,${bt.alertsLost}`;
       });
   };
 
@@ -176,6 +298,62 @@ export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, r
       }, 500);
   }
 
+  const handleDownloadRecords = () => {
+      setDownloading('ndjson');
+      setTimeout(() => {
+        const element = document.createElement("a");
+        const file = new Blob([toNdjson(transactions)], {type: 'application/x-ndjson'});
+        element.href = URL.createObjectURL(file);
+        element.download = "fraud_transactions.ndjson";
+        document.body.appendChild(element);
+        element.click();
+        document.body.removeChild(element);
+        setDownloading(null);
+      }, 500);
+  }
+
+  const downloadDataQualityReport = () => {
+      if (!results.dataQuality) return;
+      handleDownloadCSV("data_quality_report.csv", () => {
+          const dq = results.dataQuality!;
+          const rows = [
+              ...Object.entries(results.importReport?.skipReasons ?? {}).map(([reason, count]) => `import skip,"${reason}",${count},reject,,,`),
+              ...DATA_QUALITY_CHECKS.map(({ check, label }) => `check,${label},${dq.checks[check].count},${dq.checks[check].action},,,`),
+              ...dq.columns.map(c => `column,${c.field},,,${c.present},${c.missing},${c.unparseable}`),
+              `outlier bounds (${baseCurrency}),lower,${dq.outlierBounds?.lower ?? ''},,,,`,
+              `outlier bounds (${baseCurrency}),upper,${dq.outlierBounds?.upper ?? ''},,,,`,
+              `labels,labelled,${dq.labels.labelled},,,,`,
+              `labels,fraud,${dq.labels.fraud},,,,`,
+              `labels,prevalence,${dq.labels.prevalence ?? ''},,,,`,
+              `rows,read,${results.importReport?.rowsRead ?? dq.rowsIn},,,,`,
+              `rows,into data quality,${dq.rowsIn},,,,`,
+              `rows,fixed,${dq.fixed},,,,`,
+              `rows,quarantined,${dq.quarantined},,,,`,
+              ...Object.entries(dq.quarantinedIssues).map(([check, count]) => `quarantined,${CHECK_LABELS[check as DataQualityCheck]},${count},,,,`),
+              `rows,rejected,${dq.rejected},,,,`,
+              `rows,scored,${dq.rowsOut},,,,`
+          ];
+          return "section,name,count,action,present,missing,unparseable\n" + rows.join("\n");
+      });
+  };
+
+  // The sampled quarantined rows as imported, each with the checks it failed, ready to correct and re-upload
+  const handleDownloadQuarantined = () => {
+      if (!results.dataQuality) return;
+      setDownloading('quarantine');
+      setTimeout(() => {
+        const element = document.createElement("a");
+        const records = results.dataQuality!.quarantinedSamples.map(r => ({ ...r.transaction, dataQualityIssues: r.issues }));
+        const file = new Blob([toNdjson(records)], {type: 'application/x-ndjson'});
+        element.href = URL.createObjectURL(file);
+        element.download = "quarantined_rows_sample.ndjson";
+        document.body.appendChild(element);
+        element.click();
+        document.body.removeChild(element);
+        setDownloading(null);
+      }, 500);
+  }
+
   const handleDownloadFeatures = () => {
       setDownloading('features');
       const featureList = 
@@ -220,12 +398,28 @@ TOTAL FEATURES GENERATED: 10
              >
                 Stage 1 & 2: Explore
              </button>
+             {results.dataQuality && (
+                <button
+                    onClick={() => setActiveTab('quality')}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${activeTab === 'quality' ? 'bg-primary-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                >
+                    Data Quality
+                </button>
+             )}
              <button 
                 onClick={() => setActiveTab('stage3')}
                 className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${activeTab === 'stage3' ? 'bg-primary-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
              >
                 Stage 3: Models
              </button>
+             {results.backtest && (
+                <button 
+                    onClick={() => setActiveTab('backtest')}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${activeTab === 'backtest' ? 'bg-primary-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                >
+                    Rule Backtest
+                </button>
+             )}
           </div>
 
           <button onClick={onClose} className="p-2 hover:bg-surfaceHighlight rounded-full text-slate-400 hover:text-white transition-colors">
@@ -233,6 +427,20 @@ TOTAL FEATURES GENERATED: 10
           </button>
         </div>
 
+        {busy && (
+            <div className="px-6 py-3 border-b border-surfaceHighlight bg-background flex items-center gap-3 text-xs text-slate-300">
+                <Loader2 className="animate-spin text-primary-500" size={14} />
+                <span>Re-running: {progress ? progress.label : 'Starting'}</span>
+                {progress && <span className="font-mono text-slate-500">{progress.step}/{progress.totalSteps}</span>}
+                <div className="flex-1 h-1.5 bg-surfaceHighlight rounded-full overflow-hidden">
+                    <div
+                        className="h-full bg-primary-500 transition-all"
+                        style={{ width: `${progress ? ((progress.step - 1 + (progress.stepFraction ?? 0)) / progress.totalSteps) * 100 : 0}%` }}
+                    />
+                </div>
+            </div>
+        )}
+
         {/* Content */}
         <div className="flex-1 overflow-auto p-8 custom-scrollbar">
             
@@ -275,6 +483,34 @@ TOTAL FEATURES GENERATED: 10
                                 <p className="text-2xl font-mono text-red-400">{results.anomaliesFound}</p>
                             </div>
                         </div>
+
+                        {results.importReport && (
+                            <div className="bg-background/50 p-4 rounded-2xl border border-surfaceHighlight">
+                                <div className="flex items-center justify-between mb-2">
+                                    <p className="text-slate-400 text-sm flex items-center gap-2"><FileInput size={14} /> Import</p>
+                                    <p className="text-xs font-mono text-slate-300">
+                                        {results.importReport.rowsRead.toLocaleString()} rows read · <span className={results.importReport.rowsSkipped > 0 ? 'text-amber-400' : ''}>{results.importReport.rowsSkipped.toLocaleString()} skipped</span>
+                                    </p>
+                                </div>
+                                {results.importReport.rowsSkipped > 0 && (
+                                    <div className="space-y-2 text-xs">
+                                        <div className="flex flex-wrap gap-2">
+                                            {Object.entries(results.importReport.skipReasons).map(([reason, count]) => (
+                                                <span key={reason} className="px-2 py-0.5 rounded bg-amber-500/10 text-amber-400 border border-amber-500/20">{reason}: {count.toLocaleString()}</span>
+                                            ))}
+                                        </div>
+                                        <div className="max-h-32 overflow-auto custom-scrollbar font-mono text-slate-500">
+                                            {results.importReport.skippedSamples.map(row => (
+                                                <p key={row.line}>line {row.line}: {row.reason}{row.detail ? ` (${row.detail})` : ''}</p>
+                                            ))}
+                                            {results.importReport.rowsSkipped > results.importReport.skippedSamples.length && (
+                                                <p>… and {(results.importReport.rowsSkipped - results.importReport.skippedSamples.length).toLocaleString()} more</p>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        )}
                     </div>
 
                     {/* Right Col: Report Preview */}
@@ -293,31 +529,318 @@ TOTAL FEATURES GENERATED: 10
                 </div>
             )}
 
-            {activeTab === 'stage3' && results.stage3 && (
+            {activeTab === 'quality' && results.dataQuality && (() => {
+                const dq = results.dataQuality;
+                const rowsRead = results.importReport?.rowsRead ?? dq.rowsIn;
+                const skipped = results.importReport?.rowsSkipped ?? 0;
+                const provided = dq.columns.filter(c => c.present > 0 || c.unparseable > 0);
+                const absent = dq.columns.filter(c => c.present === 0 && c.unparseable === 0).map(c => c.field);
+                const visibleQuarantine = dq.quarantinedSamples;
+                const percent = (count: number, total: number) => total > 0 ? `${(count / total * 100).toFixed(1)}%` : '-';
+                return (
+                    <div className="space-y-8 animate-in fade-in duration-500">
+                        <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
+                            <div className="p-6 rounded-2xl border bg-background border-surfaceHighlight">
+                                <h4 className="text-slate-400 text-sm font-medium">Rows Scored</h4>
+                                <p className="text-xl font-bold text-white mt-1">{dq.rowsOut.toLocaleString()} / {rowsRead.toLocaleString()}</p>
+                                <p className={`text-xs mt-2 ${skipped > 0 ? 'text-amber-400' : 'text-slate-400'}`}>{skipped.toLocaleString()} skipped at import</p>
+                            </div>
+                            <div className="p-6 rounded-2xl border bg-background border-surfaceHighlight">
+                                <h4 className="text-slate-400 text-sm font-medium">Fixed</h4>
+                                <p className="text-xl font-bold text-white mt-1">{dq.fixed.toLocaleString()}</p>
+                                <p className="text-xs mt-2 text-slate-400">repaired and scored</p>
+                            </div>
+                            <div className="p-6 rounded-2xl border bg-background border-surfaceHighlight">
+                                <h4 className="text-slate-400 text-sm font-medium">Quarantined</h4>
+                                <p className={`text-xl font-bold mt-1 ${dq.quarantined > 0 ? 'text-amber-400' : 'text-white'}`}>{dq.quarantined.toLocaleString()}</p>
+                                <p className="text-xs mt-2 text-slate-400">held back for review</p>
+                            </div>
+                            <div className="p-6 rounded-2xl border bg-background border-surfaceHighlight">
+                                <h4 className="text-slate-400 text-sm font-medium">Rejected</h4>
+                                <p className={`text-xl font-bold mt-1 ${dq.rejected > 0 ? 'text-red-400' : 'text-white'}`}>{dq.rejected.toLocaleString()}</p>
+                                <p className="text-xs mt-2 text-slate-400">dropped by the policy</p>
+                            </div>
+                            <div className="p-6 rounded-2xl border bg-background border-surfaceHighlight">
+                                <h4 className="text-slate-400 text-sm font-medium">Label Prevalence</h4>
+                                <p className="text-xl font-bold text-white mt-1">{dq.labels.prevalence !== null ? `${(dq.labels.prevalence * 100).toFixed(2)}%` : 'n/a'}</p>
+                                <p className={`text-xs mt-2 ${dq.labels.labelled > 0 && (dq.labels.fraud === 0 || dq.labels.fraud === dq.labels.labelled) ? 'text-amber-400' : 'text-slate-400'}`}>
+                                    {dq.labels.labelled > 0 ? `${dq.labels.fraud.toLocaleString()} fraud of ${dq.labels.labelled.toLocaleString()} labelled` : 'No isFraud labels'}
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                            <div className="bg-background rounded-2xl border border-surfaceHighlight overflow-hidden">
+                                <div className="p-4 border-b border-surfaceHighlight">
+                                    <h3 className="font-semibold text-white">Row Checks</h3>
+                                </div>
+                                <table className="w-full text-left text-xs text-slate-400">
+                                    <thead className="bg-surface">
+                                        <tr>
+                                            <th className="p-3 font-medium text-slate-300">Check</th>
+                                            <th className="p-3 font-medium text-slate-300 text-right">Rows</th>
+                                            <th className="p-3 font-medium text-slate-300">Action</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-surfaceHighlight">
+                                        {DATA_QUALITY_CHECKS.map(({ check, label, description, fix }) => (
+                                            <tr key={check}>
+                                                <td className="p-3">
+                                                    <span className="text-white">{label}</span>
+                                                    <span className="block text-[10px] text-slate-500">{description}</span>
+                                                </td>
+                                                <td className={`p-3 font-mono text-right ${dq.checks[check].count > 0 ? 'text-amber-400' : ''}`}>{dq.checks[check].count.toLocaleString()}</td>
+                                                <td className="p-3" title={dq.checks[check].action === 'fix' && fix ? fix : undefined}>{DATA_QUALITY_ACTION_LABELS[dq.checks[check].action]}</td>
+                                            </tr>
+                                        ))}
+                                        {Object.entries(results.importReport?.skipReasons ?? {}).map(([reason, count]) => (
+                                            <tr key={reason}>
+                                                <td className="p-3">
+                                                    <span className="text-white">{reason}</span>
+                                                    <span className="block text-[10px] text-slate-500">Unreadable at import (see Stage 1 & 2).</span>
+                                                </td>
+                                                <td className="p-3 font-mono text-right text-amber-400">{count.toLocaleString()}</td>
+                                                <td className="p-3">Skipped</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                <p className="p-3 text-[10px] text-slate-500 border-t border-surfaceHighlight">
+                                    {dq.outlierBounds
+                                        ? `Amounts outside ${formatAmount(dq.outlierBounds.lower, baseCurrency)} – ${formatAmount(dq.outlierBounds.upper, baseCurrency)} are outliers (robust z > ${dq.policy.outlierThreshold} on the log amount).`
+                                        : 'Amounts vary too little to call any an outlier.'}
+                                    {' '}Change the policy in Settings; it applies from the next upload.
+                                </p>
+                            </div>
+
+                            <div className="bg-background rounded-2xl border border-surfaceHighlight overflow-hidden">
+                                <div className="p-4 border-b border-surfaceHighlight">
+                                    <h3 className="font-semibold text-white">Columns</h3>
+                                </div>
+                                <table className="w-full text-left text-xs text-slate-400">
+                                    <thead className="bg-surface">
+                                        <tr>
+                                            <th className="p-3 font-medium text-slate-300">Field</th>
+                                            <th className="p-3 font-medium text-slate-300 text-right">Missing</th>
+                                            <th className="p-3 font-medium text-slate-300 text-right">Unparseable</th>
+                                            <th className="p-3 font-medium text-slate-300 text-right">Missing %</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-surfaceHighlight">
+                                        {provided.map(c => (
+                                            <tr key={c.field}>
+                                                <td className="p-3 font-mono text-white">{c.field}</td>
+                                                <td className={`p-3 font-mono text-right ${c.missing > 0 ? 'text-amber-400' : ''}`}>{c.missing.toLocaleString()}</td>
+                                                <td className={`p-3 font-mono text-right ${c.unparseable > 0 ? 'text-red-400' : ''}`}>{c.unparseable.toLocaleString()}</td>
+                                                <td className="p-3 font-mono text-right">{percent(c.missing, rowsRead)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                {absent.length > 0 && (
+                                    <p className="p-3 text-[10px] text-slate-500 border-t border-surfaceHighlight">Not in this file: {absent.join(', ')}</p>
+                                )}
+                            </div>
+                        </div>
+
+                        <div className="bg-background rounded-2xl border border-surfaceHighlight overflow-hidden">
+                            <div className="p-4 border-b border-surfaceHighlight flex justify-between items-center">
+                                <h3 className="font-semibold text-white">Quarantined Rows</h3>
+                                <span className="text-xs text-slate-500">
+                                    {Object.entries(dq.quarantinedIssues).map(([check, count]) => `${count.toLocaleString()} ${CHECK_LABELS[check as DataQualityCheck].toLowerCase()}`).join(' · ') || 'not scored; download them to correct and re-upload'}
+                                </span>
+                            </div>
+                            <div className="max-h-96 overflow-auto custom-scrollbar">
+                                <table className="w-full text-left text-xs text-slate-400">
+                                    <thead className="bg-surface sticky top-0">
+                                        <tr>
+                                            <th className="p-3 font-medium text-slate-300">Row</th>
+                                            <th className="p-3 font-medium text-slate-300">Transaction</th>
+                                            <th className="p-3 font-medium text-slate-300">Client</th>
+                                            <th className="p-3 font-medium text-slate-300">Amount</th>
+                                            <th className="p-3 font-medium text-slate-300">Time</th>
+                                            <th className="p-3 font-medium text-slate-300">Issues</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-surfaceHighlight">
+                                        {visibleQuarantine.map(r => (
+                                            <tr key={r.row}>
+                                                <td className="p-3 font-mono">{r.row}</td>
+                                                <td className="p-3 font-mono text-white">{r.transaction.id}</td>
+                                                <td className="p-3 font-mono">{r.transaction.clientId || '-'}</td>
+                                                <td className="p-3 font-mono text-white">{formatAmount(r.transaction.amount, r.transaction.currency)}</td>
+                                                <td className="p-3 font-mono">{r.transaction.step ?? r.transaction.timestamp}</td>
+                                                <td className="p-3">
+                                                    <div className="flex flex-wrap gap-1">
+                                                        {r.issues.map(issue => (
+                                                            <span key={issue} className="px-2 py-0.5 rounded bg-amber-500/10 text-amber-400 border border-amber-500/20">{CHECK_LABELS[issue]}</span>
+                                                        ))}
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                        {visibleQuarantine.length === 0 && (
+                                            <tr><td colSpan={6} className="p-8 text-center text-slate-500">No rows were quarantined.</td></tr>
+                                        )}
+                                    </tbody>
+                                </table>
+                            </div>
+                            {dq.quarantined > visibleQuarantine.length && (
+                                <p className="p-3 text-xs text-slate-500 border-t border-surfaceHighlight">Showing the first {visibleQuarantine.length.toLocaleString()} of {dq.quarantined.toLocaleString()} quarantined rows; the NDJSON download holds the same sample. Fix the source and upload again to score the rest.</p>
+                            )}
+                        </div>
+                    </div>
+                );
+            })()}
+
+            {activeTab === 'stage3' && stage3 && (
                 <div className="space-y-8 animate-in fade-in duration-500">
+                    {(results.stage3PointInTime ?? results.stage3)?.models && (
+                        <div className="flex flex-wrap items-center justify-between gap-4 bg-background rounded-2xl p-4 border border-surfaceHighlight">
+                            <p className="text-xs text-slate-400">
+                                {results.registeredVersion
+                                    ? `Registered as ${results.registeredVersion} in the model registry.`
+                                    : 'These models are not in the model registry. Register them with the current rules to promote, export or roll back to them later (the first version goes to production).'}
+                            </p>
+                            <button
+                                onClick={onRegisterModels}
+                                disabled={busy || !!results.registeredVersion}
+                                className="px-3 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-xl text-xs font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+                            >
+                                <Boxes size={14} /> {results.registeredVersion ? 'Registered' : 'Register Version'}
+                            </button>
+                        </div>
+                    )}
+                    {results.stage3PointInTime && results.stage3 && (
+                        <div className="flex flex-wrap items-center justify-between gap-4 bg-background rounded-2xl p-4 border border-surfaceHighlight">
+                            <div className="flex bg-surface rounded-xl p-1 border border-surfaceHighlight">
+                                <button
+                                    onClick={() => setFeatureMode('full')}
+                                    className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${featureMode === 'full' ? 'bg-surfaceHighlight text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    Full-History Features (leaky)
+                                </button>
+                                <button
+                                    onClick={() => setFeatureMode('pointInTime')}
+                                    className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${featureMode === 'pointInTime' ? 'bg-primary-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    Point-in-Time Features
+                                </button>
+                            </div>
+                            <div className="flex gap-6 text-xs font-mono">
+                                {([
+                                    ['Rules', results.stage3.ruleBased.rocAuc, results.stage3PointInTime.ruleBased.rocAuc],
+                                    ['IsoForest', results.stage3.isolationForest.rocAuc, results.stage3PointInTime.isolationForest.rocAuc],
+                                    ['LogReg', results.stage3.logisticRegression.rocAuc, results.stage3PointInTime.logisticRegression.rocAuc],
+                                ] as [string, number, number][]).map(([name, leaky, pit]) => (
+                                    <span key={name} className="text-slate-400">
+                                        {name} AUC <span className="text-white">{leaky}</span> → <span className="text-white">{pit}</span>
+                                        <span className={pit < leaky ? 'text-red-400' : 'text-green-400'}> ({formatDelta(pit - leaky)})</span>
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    <div className="bg-background rounded-2xl p-6 border border-surfaceHighlight">
+                        <div className="flex flex-wrap items-end gap-4">
+                            <div>
+                                <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Evaluation</label>
+                                <div className="flex bg-surface rounded-xl p-1 border border-surfaceHighlight">
+                                    {EVALUATION_MODES.map(m => (
+                                        <button
+                                            key={m.key}
+                                            onClick={() => setEvaluationDraft(prev => ({ ...prev, mode: m.key }))}
+                                            className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${evaluationDraft.mode === m.key ? 'bg-primary-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                                        >
+                                            {m.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            {evaluationDraft.mode === 'out-of-time' && (
+                                <div className="w-40">
+                                    <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Test set (% latest)</label>
+                                    <input type="number" min={5} max={90} step={5} value={Math.round(evaluationDraft.testFraction * 100)}
+                                        onChange={(e) => setEvaluationDraft(prev => ({ ...prev, testFraction: Math.min(Math.max((parseFloat(e.target.value) || 0) / 100, 0.05), 0.9) }))}
+                                        className={inputClass} />
+                                </div>
+                            )}
+                            {evaluationDraft.mode === 'k-fold' && (
+                                <div className="w-28">
+                                    <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Folds</label>
+                                    <input type="number" min={2} max={20} step={1} value={evaluationDraft.folds}
+                                        onChange={(e) => setEvaluationDraft(prev => ({ ...prev, folds: Math.min(Math.max(parseInt(e.target.value) || 2, 2), 20) }))}
+                                        className={inputClass} />
+                                </div>
+                            )}
+                            <div className="w-32">
+                                <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Bootstrap samples</label>
+                                <input type="number" min={50} max={2000} step={50} value={evaluationDraft.bootstrapSamples}
+                                    onChange={(e) => setEvaluationDraft(prev => ({ ...prev, bootstrapSamples: Math.min(Math.max(parseInt(e.target.value) || 50, 50), 2000) }))}
+                                    className={inputClass} />
+                            </div>
+                            <button
+                                onClick={() => onChangeEvaluation(evaluationDraft)}
+                                disabled={busy}
+                                className="px-4 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-xl text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Re-run Models
+                            </button>
+                        </div>
+                        {stage3.evaluation && (
+                            <div className="mt-4 text-xs text-slate-400 space-y-1">
+                                <p>
+                                    {stage3.evaluation.mode === 'out-of-time' && <>Trained on steps ≤ {stage3.evaluation.splitStep} ({stage3.evaluation.trainSize.toLocaleString()} rows), tested on the {stage3.evaluation.testSize.toLocaleString()} later rows.</>}
+                                    {stage3.evaluation.mode === 'k-fold' && <>{stage3.evaluation.folds}-fold cross-validation: every row is scored by models trained on the other folds (~{stage3.evaluation.trainSize.toLocaleString()} rows each).</>}
+                                    {stage3.evaluation.mode === 'in-sample' && <>In-sample: models are trained and evaluated on the same {stage3.evaluation.testSize.toLocaleString()} rows, so metrics are optimistic.</>}
+                                    {' '}Intervals are {Math.round(stage3.evaluation.confidenceLevel * 100)}% bootstrap intervals over {stage3.evaluation.bootstrapSamples} resamples.
+                                </p>
+                                {stage3.evaluation.sample && (
+                                    <p>Fitted and evaluated on a random sample of {stage3.evaluation.sample.rows.toLocaleString()} of the batch's {stage3.evaluation.sample.batchSize.toLocaleString()} rows; every row is still scored.</p>
+                                )}
+                                {stage3.evaluation.note && <p className="text-yellow-500">Fell back to in-sample: {stage3.evaluation.note}</p>}
+                                <p>
+                                    {stage3.bestModel === 'Inconclusive'
+                                        ? <span className="text-yellow-500">No clear winner: {stage3.evaluation.leadingModel} has the highest AUC, but the lead is within noise.</span>
+                                        : <span className="text-green-400">{stage3.bestModel} is significantly better on AUC.</span>}
+                                    {stage3.evaluation.comparisons.map(c => (
+                                        <span key={c.model} className="ml-3 font-mono">
+                                            vs {c.model} {formatDelta(c.difference)} [{c.interval.lower}, {c.interval.upper}]
+                                        </span>
+                                    ))}
+                                </p>
+                            </div>
+                        )}
+                    </div>
+
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                         <div className={`p-6 rounded-2xl border transition-all ${results.stage3.bestModel === 'Rule-Based' ? 'bg-primary-900/10 border-primary-500' : 'bg-background border-surfaceHighlight'}`}>
+                         <div className={`p-6 rounded-2xl border transition-all ${stage3.bestModel === 'Rule-Based' ? 'bg-primary-900/10 border-primary-500' : 'bg-background border-surfaceHighlight'}`}>
                              <h4 className="text-slate-400 text-sm font-medium">Model 1</h4>
                              <p className="text-xl font-bold text-white mt-1">Rule-Based</p>
                              <div className="mt-4 space-y-2 text-sm">
-                                <div className="flex justify-between"><span className="text-slate-500">AUC</span> <span className="text-white">{results.stage3.ruleBased.rocAuc}</span></div>
-                                <div className="flex justify-between"><span className="text-slate-500">F1</span> <span className="text-white">{results.stage3.ruleBased.f1Score}</span></div>
+                                <div className="flex justify-between"><span className="text-slate-500">AUC</span> <span className="text-white">{stage3.ruleBased.rocAuc}<span className="text-slate-500 font-mono text-xs">{formatInterval(stage3.ruleBased, 'rocAuc')}</span></span></div>
+                                <div className="flex justify-between"><span className="text-slate-500">F1</span> <span className="text-white">{stage3.ruleBased.f1Score}<span className="text-slate-500 font-mono text-xs">{formatInterval(stage3.ruleBased, 'f1Score')}</span></span></div>
                              </div>
                          </div>
-                         <div className={`p-6 rounded-2xl border transition-all ${results.stage3.bestModel === 'IsolationForest' ? 'bg-primary-900/10 border-primary-500' : 'bg-background border-surfaceHighlight'}`}>
+                         <div className={`p-6 rounded-2xl border transition-all ${stage3.bestModel === 'IsolationForest' ? 'bg-primary-900/10 border-primary-500' : 'bg-background border-surfaceHighlight'}`}>
                              <h4 className="text-slate-400 text-sm font-medium">Model 2</h4>
                              <p className="text-xl font-bold text-white mt-1">Isolation Forest</p>
                              <div className="mt-4 space-y-2 text-sm">
-                                <div className="flex justify-between"><span className="text-slate-500">AUC</span> <span className="text-white">{results.stage3.isolationForest.rocAuc}</span></div>
-                                <div className="flex justify-between"><span className="text-slate-500">F1</span> <span className="text-white">{results.stage3.isolationForest.f1Score}</span></div>
+                                <div className="flex justify-between"><span className="text-slate-500">AUC</span> <span className="text-white">{stage3.isolationForest.rocAuc}<span className="text-slate-500 font-mono text-xs">{formatInterval(stage3.isolationForest, 'rocAuc')}</span></span></div>
+                                <div className="flex justify-between"><span className="text-slate-500">F1</span> <span className="text-white">{stage3.isolationForest.f1Score}<span className="text-slate-500 font-mono text-xs">{formatInterval(stage3.isolationForest, 'f1Score')}</span></span></div>
                              </div>
+                             {stage3.isolationForestParams && (
+                                <p className="mt-4 text-[11px] text-slate-500 font-mono">
+                                    {stage3.isolationForestParams.numTrees} trees · ψ={stage3.isolationForestParams.sampleSize} · contamination {(stage3.isolationForestParams.contamination * 100).toFixed(1)}% · cut-off {stage3.isolationForestParams.threshold}
+                                </p>
+                             )}
                          </div>
-                         <div className={`p-6 rounded-2xl border transition-all ${results.stage3.bestModel === 'LogisticRegression' ? 'bg-primary-900/10 border-primary-500' : 'bg-background border-surfaceHighlight'}`}>
+                         <div className={`p-6 rounded-2xl border transition-all ${stage3.bestModel === 'LogisticRegression' ? 'bg-primary-900/10 border-primary-500' : 'bg-background border-surfaceHighlight'}`}>
                              <h4 className="text-slate-400 text-sm font-medium">Model 3</h4>
                              <p className="text-xl font-bold text-white mt-1">Logistic Regression</p>
                              <div className="mt-4 space-y-2 text-sm">
-                                <div className="flex justify-between"><span className="text-slate-500">AUC</span> <span className="text-white">{results.stage3.logisticRegression.rocAuc}</span></div>
-                                <div className="flex justify-between"><span className="text-slate-500">F1</span> <span className="text-white">{results.stage3.logisticRegression.f1Score}</span></div>
+                                <div className="flex justify-between"><span className="text-slate-500">AUC</span> <span className="text-white">{stage3.logisticRegression.rocAuc}<span className="text-slate-500 font-mono text-xs">{formatInterval(stage3.logisticRegression, 'rocAuc')}</span></span></div>
+                                <div className="flex justify-between"><span className="text-slate-500">F1</span> <span className="text-white">{stage3.logisticRegression.f1Score}<span className="text-slate-500 font-mono text-xs">{formatInterval(stage3.logisticRegression, 'f1Score')}</span></span></div>
                              </div>
                          </div>
                     </div>
@@ -344,33 +867,494 @@ TOTAL FEATURES GENERATED: 10
                          <div className="bg-background rounded-2xl p-6 border border-surfaceHighlight" ref={activeTab === 'stage3' ? chartRef : undefined}>
                              <h3 className="font-semibold text-white mb-6">ROC Curves</h3>
                              <div className="h-64">
+                                {stage3.curves && (
                                 <ResponsiveContainer width="100%" height="100%">
-                                    <LineChart data={rocData}>
+                                    <LineChart>
                                         <CartesianGrid strokeDasharray="3 3" stroke="#1e2433" />
-                                        <XAxis dataKey="x" type="number" domain={[0, 1]} label={{ value: 'FPR', position: 'insideBottom', offset: -5, fill: '#64748b' }} stroke="#64748b" />
-                                        <YAxis dataKey="RuleBased" domain={[0, 1]} label={{ value: 'TPR', angle: -90, position: 'insideLeft', fill: '#64748b' }} stroke="#64748b" />
+                                        <XAxis dataKey="fpr" type="number" domain={[0, 1]} label={{ value: 'FPR', position: 'insideBottom', offset: -5, fill: '#64748b' }} stroke="#64748b" />
+                                        <YAxis dataKey="tpr" type="number" domain={[0, 1]} label={{ value: 'TPR', angle: -90, position: 'insideLeft', fill: '#64748b' }} stroke="#64748b" />
                                         <Tooltip contentStyle={{ backgroundColor: '#151a25', borderColor: '#334155', borderRadius: '8px' }} />
                                         <Legend />
-                                        <Line type="monotone" dataKey="RuleBased" stroke="#3b82f6" dot={false} strokeWidth={2} />
-                                        <Line type="monotone" dataKey="IsoForest" stroke="#10b981" dot={false} strokeWidth={2} />
-                                        <Line type="monotone" dataKey="LogReg" stroke="#f59e0b" dot={false} strokeWidth={2} />
-                                        <Line type="monotone" dataKey="Random" stroke="#475569" strokeDasharray="5 5" dot={false} strokeWidth={1} />
+                                        {CURVE_SERIES.map(c => (
+                                            <Line key={c.key} data={stage3.curves![c.key].roc} name={c.name} type="linear" dataKey="tpr" stroke={c.color} dot={false} strokeWidth={2} />
+                                        ))}
+                                        <Line data={[{ fpr: 0, tpr: 0 }, { fpr: 1, tpr: 1 }]} name="Random" type="linear" dataKey="tpr" stroke="#475569" strokeDasharray="5 5" dot={false} strokeWidth={1} />
                                     </LineChart>
                                 </ResponsiveContainer>
+                                )}
                              </div>
                          </div>
                     </div>
+
+                    {stage3.curves && (
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                         <div className="bg-background rounded-2xl p-6 border border-surfaceHighlight">
+                             <h3 className="font-semibold text-white mb-6">Precision-Recall Curves</h3>
+                             <div className="h-64">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart>
+                                        <CartesianGrid strokeDasharray="3 3" stroke="#1e2433" />
+                                        <XAxis dataKey="recall" type="number" domain={[0, 1]} label={{ value: 'Recall', position: 'insideBottom', offset: -5, fill: '#64748b' }} stroke="#64748b" />
+                                        <YAxis dataKey="precision" type="number" domain={[0, 1]} label={{ value: 'Precision', angle: -90, position: 'insideLeft', fill: '#64748b' }} stroke="#64748b" />
+                                        <Tooltip contentStyle={{ backgroundColor: '#151a25', borderColor: '#334155', borderRadius: '8px' }} />
+                                        <Legend />
+                                        {CURVE_SERIES.map(c => (
+                                            <Line key={c.key} data={stage3.curves![c.key].pr} name={c.name} type="stepAfter" dataKey="precision" stroke={c.color} dot={false} strokeWidth={2} />
+                                        ))}
+                                    </LineChart>
+                                </ResponsiveContainer>
+                             </div>
+                         </div>
+
+                         <div className="bg-background rounded-2xl p-6 border border-surfaceHighlight">
+                             <h3 className="font-semibold text-white mb-6">Ranking Quality</h3>
+                             <table className="w-full text-left text-xs">
+                                 <thead className="text-slate-500 uppercase tracking-wider">
+                                     <tr>
+                                         <th className="p-2">Model</th>
+                                         <th className="p-2">Avg Precision</th>
+                                         {stage3.curves.ruleBased.precisionAtK.map(p => <th key={p.k} className="p-2">P@{p.k}</th>)}
+                                     </tr>
+                                 </thead>
+                                 <tbody className="divide-y divide-surfaceHighlight text-slate-300 font-mono">
+                                     {CURVE_SERIES.map(c => (
+                                         <tr key={c.key}>
+                                             <td className="p-2 font-sans font-medium" style={{ color: c.color }}>{c.name}</td>
+                                             <td className="p-2 text-white">{stage3.curves![c.key].averagePrecision}</td>
+                                             {stage3.curves![c.key].precisionAtK.map(p => <td key={p.k} className="p-2">{p.precision}</td>)}
+                                         </tr>
+                                     ))}
+                                 </tbody>
+                             </table>
+                             <p className="text-[10px] text-slate-500 mt-4">
+                                 Precision@k is the share of fraud among the k highest-scored transactions; a random ranking scores the batch fraud rate on both metrics.
+                             </p>
+                         </div>
+                    </div>
+                    )}
+
+                    <div className="bg-background rounded-2xl p-6 border border-surfaceHighlight">
+                        <div className="flex justify-between items-center mb-6">
+                            <h3 className="font-semibold text-white">Logistic Regression Coefficients</h3>
+                            <span className="text-xs text-slate-500">
+                                {stage3.labelSource === 'isFraud'
+                                    ? 'Trained on isFraud labels · standardised features'
+                                    : 'No isFraud column: trained on rule-based proxy labels'}
+                            </span>
+                        </div>
+                        <div className="h-64">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <BarChart data={stage3.featureImportance} layout="vertical" margin={{ left: 40 }}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="#1e2433" horizontal={false} />
+                                    <XAxis type="number" stroke="#94a3b8" />
+                                    <YAxis dataKey="feature" type="category" stroke="#94a3b8" width={160} fontSize={12} />
+                                    <Tooltip cursor={{fill: '#1e293b'}} contentStyle={{ backgroundColor: '#151a25', borderColor: '#334155', borderRadius: '8px' }} />
+                                    <Bar dataKey="coefficient" radius={[0, 4, 4, 0]}>
+                                        {stage3.featureImportance.map((entry, index) => (
+                                            <Cell key={`coef-${index}`} fill={entry.coefficient >= 0 ? '#f59e0b' : '#3b82f6'} />
+                                        ))}
+                                    </Bar>
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </div>
+                    </div>
+
+                    {stage3.calibration && (() => {
+                        const cal = stage3.calibration;
+                        const selected = cal[calibrationModel];
+                        // Is this batch's rule calibration the one live scoring uses?
+                        const liveMethod = calibration && (['platt', 'isotonic'] as const).find(m => JSON.stringify(cal.ruleBased[m]) === JSON.stringify(calibration));
+                        return (
+                            <div className="bg-background rounded-2xl p-6 border border-surfaceHighlight">
+                                <div className="flex justify-between items-center mb-6">
+                                    <h3 className="font-semibold text-white">Probability Calibration</h3>
+                                    <span className="text-xs text-slate-500">
+                                        Live rule score: {calibration ? `${calibration.method === 'platt' ? 'Platt' : 'isotonic'}-calibrated probability${liveMethod ? '' : ' (fitted on an earlier batch)'}` : 'raw rule score'}
+                                    </span>
+                                </div>
+
+                                <div className="overflow-auto mb-6">
+                                    <table className="w-full text-left text-xs">
+                                        <thead className="text-slate-500 uppercase tracking-wider">
+                                            <tr>
+                                                <th className="p-2">Model</th>
+                                                <th className="p-2">Brier (raw)</th>
+                                                <th className="p-2">Brier (Platt)</th>
+                                                <th className="p-2">Brier (isotonic)</th>
+                                                <th className="p-2">Best</th>
+                                                <th className="p-2"></th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-surfaceHighlight text-slate-300">
+                                            {THRESHOLD_MODELS.map(m => {
+                                                const c = cal[m.key];
+                                                return (
+                                                    <tr key={m.key} onClick={() => setCalibrationModel(m.key)} className={`cursor-pointer ${calibrationModel === m.key ? 'bg-surfaceHighlight/50' : 'hover:bg-surfaceHighlight/30'}`}>
+                                                        <td className="p-2 text-white font-medium">{m.label}</td>
+                                                        <td className="p-2 font-mono">{c.brier.raw}</td>
+                                                        <td className={`p-2 font-mono ${c.recommended === 'platt' ? 'text-white' : ''}`}>{c.brier.platt}</td>
+                                                        <td className={`p-2 font-mono ${c.recommended === 'isotonic' ? 'text-white' : ''}`}>{c.brier.isotonic}</td>
+                                                        <td className="p-2">{c.recommended === 'platt' ? 'Platt' : 'Isotonic'}</td>
+                                                        <td className="p-2 text-right space-x-2 whitespace-nowrap">
+                                                            {m.key === 'ruleBased' && (['platt', 'isotonic'] as const).map(method => (
+                                                                <button
+                                                                    key={method}
+                                                                    onClick={(e) => { e.stopPropagation(); onApplyCalibration(c[method]); }}
+                                                                    disabled={liveMethod === method || busy}
+                                                                    title="Live fraudScore and risk levels use the calibrated probability; the alert threshold applies to it"
+                                                                    className={`px-3 py-1 rounded-lg bg-primary-600 hover:bg-primary-500 text-white transition-colors ${liveMethod === method ? 'disabled:bg-green-600/30 disabled:text-green-400 disabled:cursor-default' : 'disabled:opacity-50 disabled:cursor-not-allowed'}`}
+                                                                >
+                                                                    {liveMethod === method ? 'Live' : `Use ${method === 'platt' ? 'Platt' : 'isotonic'}`}
+                                                                </button>
+                                                            ))}
+                                                            {m.key === 'ruleBased' && calibration && (
+                                                                <button
+                                                                    onClick={(e) => { e.stopPropagation(); onApplyCalibration(null); }}
+                                                                    disabled={busy}
+                                                                    className="px-3 py-1 rounded-lg bg-surfaceHighlight hover:bg-slate-700 text-slate-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                                                >
+                                                                    Raw scores
+                                                                </button>
+                                                            )}
+                                                            {m.key !== 'ruleBased' && (
+                                                                <span className="text-slate-500" title="Its fraudScore and risk levels are the calibrated probability; the flag still uses its raw-score cut-off">
+                                                                    {c.recommended === 'platt' ? 'Platt' : 'Isotonic'} when it decides
+                                                                </span>
+                                                            )}
+                                                        </td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+
+                                <div className="h-64">
+                                    <ResponsiveContainer width="100%" height="100%">
+                                        <LineChart>
+                                            <CartesianGrid strokeDasharray="3 3" stroke="#1e2433" />
+                                            <XAxis dataKey="meanPredicted" type="number" domain={[0, 1]} stroke="#64748b" label={{ value: 'Mean predicted probability', position: 'insideBottom', offset: -5, fill: '#64748b' }} />
+                                            <YAxis dataKey="observedRate" type="number" domain={[0, 1]} stroke="#64748b" label={{ value: 'Observed fraud rate', angle: -90, position: 'insideLeft', fill: '#64748b' }} />
+                                            <Tooltip contentStyle={{ backgroundColor: '#151a25', borderColor: '#334155', borderRadius: '8px' }} />
+                                            <Legend />
+                                            {CALIBRATION_SERIES.map(c => (
+                                                <Line key={c.key} data={selected.reliability[c.key]} name={c.name} type="linear" dataKey="observedRate" stroke={c.color} strokeWidth={2} />
+                                            ))}
+                                            <Line data={[{ meanPredicted: 0, observedRate: 0 }, { meanPredicted: 1, observedRate: 1 }]} name="Perfect" type="linear" dataKey="observedRate" stroke="#475569" strokeDasharray="5 5" dot={false} strokeWidth={1} />
+                                        </LineChart>
+                                    </ResponsiveContainer>
+                                </div>
+                                <p className="text-[10px] text-slate-500 mt-2">
+                                    {THRESHOLD_MODELS.find(m => m.key === calibrationModel)!.label} · reliability diagram over 10 probability bins. Calibrated curves and Brier scores are cross-fitted (2 folds), so they are not measured on the rows each map was fitted to.
+                                    {calibration && ' With calibration live, the alert threshold and risk bands are probabilities: recompute the cost-sensitive thresholds below.'}
+                                </p>
+                            </div>
+                        );
+                    })()}
+
+                    {stage3.ensemble && (() => {
+                        const ens = stage3.ensemble;
+                        const stackedUnavailable = decisionDraft.ensemble.method === 'stacked' && !stage3.models?.stacker;
+                        const decisionModels = Object.keys(DECISION_MODEL_LABELS) as DecisionModel[];
+                        return (
+                            <div className="bg-background rounded-2xl p-6 border border-surfaceHighlight">
+                                <div className="flex justify-between items-center mb-6">
+                                    <h3 className="font-semibold text-white">Ensemble &amp; Champion / Challenger</h3>
+                                    <span className="text-xs text-slate-500">
+                                        Live decisions: {DECISION_MODEL_LABELS[decisionPolicy.champion]}{decisionPolicy.challenger ? ` · challenger ${DECISION_MODEL_LABELS[decisionPolicy.challenger]}` : ''}
+                                    </span>
+                                </div>
+
+                                <div className="overflow-auto mb-6">
+                                    <table className="w-full text-left text-xs">
+                                        <thead className="text-slate-500 uppercase tracking-wider">
+                                            <tr>
+                                                <th className="p-2">Ensemble</th>
+                                                <th className="p-2">AUC</th>
+                                                <th className="p-2">Precision</th>
+                                                <th className="p-2">Recall</th>
+                                                <th className="p-2">F1</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-surfaceHighlight text-slate-300 font-mono">
+                                            {([
+                                                [`Weighted (${BASE_MODELS.map(m => ens.config.weights[m]).join(' / ')})`, ens.weighted],
+                                                ['Stacked (cross-fitted)', ens.stacked]
+                                            ] as [string, ModelMetrics | undefined][]).map(([name, m]) => (
+                                                <tr key={name}>
+                                                    <td className="p-2 font-sans text-white font-medium">{name}</td>
+                                                    {m
+                                                        ? <><td className="p-2">{m.rocAuc}</td><td className="p-2">{m.precision}</td><td className="p-2">{m.recall}</td><td className="p-2">{m.f1Score}</td></>
+                                                        : <td colSpan={4} className="p-2 font-sans text-slate-500">Needs isFraud labels</td>}
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                    {ens.stackerCoefficients && (
+                                        <p className="text-[10px] text-slate-500 mt-2 font-mono">
+                                            Meta-learner: {ens.stackerCoefficients.map(c => `${DECISION_MODEL_LABELS[c.feature as DecisionModel] ?? c.feature} ${c.coefficient}`).join(' · ')}
+                                        </p>
+                                    )}
+                                </div>
+
+                                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4 items-end">
+                                    <div>
+                                        <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Champion (decides)</label>
+                                        <select value={decisionDraft.champion} onChange={(e) => setDecisionDraft(prev => ({ ...prev, champion: e.target.value as DecisionModel }))} className={inputClass}>
+                                            {decisionModels.map(m => <option key={m} value={m}>{DECISION_MODEL_LABELS[m]}</option>)}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Challenger (shadow)</label>
+                                        <select value={decisionDraft.challenger ?? ''} onChange={(e) => setDecisionDraft(prev => ({ ...prev, challenger: (e.target.value || null) as DecisionModel | null }))} className={inputClass}>
+                                            <option value="">None</option>
+                                            {decisionModels.filter(m => m !== decisionDraft.champion).map(m => <option key={m} value={m}>{DECISION_MODEL_LABELS[m]}</option>)}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Ensemble method</label>
+                                        <select value={decisionDraft.ensemble.method} onChange={(e) => setDecisionDraft(prev => ({ ...prev, ensemble: { ...prev.ensemble, method: e.target.value as 'weighted' | 'stacked' } }))} className={inputClass}>
+                                            <option value="weighted">Weighted average</option>
+                                            <option value="stacked">Stacked meta-learner</option>
+                                        </select>
+                                    </div>
+                                    <button
+                                        onClick={() => onApplyDecisionPolicy(decisionDraft)}
+                                        disabled={busy}
+                                        className="px-4 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-xl text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        Apply to live scoring
+                                    </button>
+                                </div>
+                                {decisionDraft.ensemble.method === 'weighted' && (
+                                    <div className="grid grid-cols-3 gap-4 mb-4">
+                                        {BASE_MODELS.map(m => (
+                                            <div key={m}>
+                                                <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">{DECISION_MODEL_LABELS[m]} weight</label>
+                                                <input type="number" min={0} step={0.1} value={decisionDraft.ensemble.weights[m]}
+                                                    onChange={(e) => setDecisionDraft(prev => ({ ...prev, ensemble: { ...prev.ensemble, weights: { ...prev.ensemble.weights, [m]: Math.max(parseFloat(e.target.value) || 0, 0) } } }))}
+                                                    className={inputClass} />
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                                <p className="text-[10px] text-slate-500">
+                                    The champion's score becomes fraudScore and is compared with the alert threshold; the challenger is scored alongside and never raises alerts.
+                                    Models come from the latest Stage 3 run (point-in-time features when available); until then, or without a trained meta-learner, the rules decide.
+                                    {stackedUnavailable && <span className="text-yellow-500"> No meta-learner was trained on this batch (it needs isFraud labels).</span>}
+                                </p>
+                            </div>
+                        );
+                    })()}
+
+                    {stage3.thresholds && (() => {
+                        const thresholds = stage3.thresholds;
+                        const selected = thresholds[thresholdModel];
+                        const selectedColor = THRESHOLD_MODELS.find(m => m.key === thresholdModel)!.color;
+                        return (
+                            <div className="bg-background rounded-2xl p-6 border border-surfaceHighlight">
+                                <div className="flex justify-between items-center mb-6">
+                                    <h3 className="font-semibold text-white">Cost-Sensitive Thresholds</h3>
+                                    <span className="text-xs text-slate-500">
+                                        Expected loss in {baseCurrency} on this batch{stage3.labelSource === 'rule-proxy' ? ' · rule-proxy labels' : ''}
+                                    </span>
+                                </div>
+
+                                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6 items-end">
+                                    <div>
+                                        <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Missed fraud loss (% of amount)</label>
+                                        <input type="number" min={0} step={5} value={Math.round(costDraft.missedFraudCostRate * 100)}
+                                            onChange={(e) => setCostDraft(prev => ({ ...prev, missedFraudCostRate: (parseFloat(e.target.value) || 0) / 100 }))}
+                                            className={inputClass} />
+                                    </div>
+                                    <div>
+                                        <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">False positive review cost ({baseCurrency})</label>
+                                        <input type="number" min={0} step={5} value={costDraft.falsePositiveCost}
+                                            onChange={(e) => setCostDraft(prev => ({ ...prev, falsePositiveCost: parseFloat(e.target.value) || 0 }))}
+                                            className={inputClass} />
+                                    </div>
+                                    <div>
+                                        <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Analyst capacity (% of transactions)</label>
+                                        <input type="number" min={0} max={100} step={1} value={Math.round(costDraft.maxAlertRate * 1000) / 10}
+                                            onChange={(e) => setCostDraft(prev => ({ ...prev, maxAlertRate: Math.min(Math.max((parseFloat(e.target.value) || 0) / 100, 0), 1) }))}
+                                            className={inputClass} />
+                                    </div>
+                                    <button
+                                        onClick={() => onRecomputeThresholds(costDraft)}
+                                        disabled={busy}
+                                        className="px-4 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-xl text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        Recompute
+                                    </button>
+                                </div>
+
+                                <div className="overflow-auto mb-6">
+                                    <table className="w-full text-left text-xs">
+                                        <thead className="text-slate-500 uppercase tracking-wider">
+                                            <tr>
+                                                <th className="p-2">Model</th>
+                                                <th className="p-2">Current cut-off</th>
+                                                <th className="p-2">Expected cost</th>
+                                                <th className="p-2">Optimal cut-off</th>
+                                                <th className="p-2">Expected cost</th>
+                                                <th className="p-2">Alerts</th>
+                                                <th className="p-2">Saving</th>
+                                                <th className="p-2"></th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-surfaceHighlight text-slate-300">
+                                            {THRESHOLD_MODELS.map(m => {
+                                                const t = thresholds[m.key];
+                                                const liveThreshold = m.key === 'ruleBased' ? alertPolicy.threshold : decisionPolicy.thresholds[m.key] ?? t.currentThreshold;
+                                                const isLive = Math.abs(liveThreshold - t.optimalThreshold) < 1e-4;
+                                                return (
+                                                    <tr key={m.key} onClick={() => setThresholdModel(m.key)} className={`cursor-pointer ${thresholdModel === m.key ? 'bg-surfaceHighlight/50' : 'hover:bg-surfaceHighlight/30'}`}>
+                                                        <td className="p-2 text-white font-medium">{m.label}</td>
+                                                        <td className="p-2 font-mono">{t.currentThreshold}</td>
+                                                        <td className="p-2 font-mono">{formatAmount(t.currentCost, baseCurrency)}</td>
+                                                        <td className="p-2 font-mono text-white">{t.optimalThreshold}</td>
+                                                        <td className="p-2 font-mono text-white">{formatAmount(t.optimalCost, baseCurrency)}</td>
+                                                        <td className="p-2 font-mono">{t.optimalAlerts}</td>
+                                                        <td className="p-2 font-mono text-green-400">{formatAmount(t.currentCost - t.optimalCost, baseCurrency)}</td>
+                                                        <td className="p-2 text-right">
+                                                            <button
+                                                                onClick={(e) => { e.stopPropagation(); onApplyThreshold(m.key, t.optimalThreshold); }}
+                                                                disabled={isLive || busy}
+                                                                title={`${m.label} flags at this cut-off, with risk bands that follow it, whenever it is the champion or challenger`}
+                                                                className={`px-3 py-1 rounded-lg bg-primary-600 hover:bg-primary-500 text-white transition-colors ${isLive ? 'disabled:bg-green-600/30 disabled:text-green-400 disabled:cursor-default' : 'disabled:opacity-50 disabled:cursor-not-allowed'}`}
+                                                            >
+                                                                {isLive ? 'Live' : 'Apply to live scoring'}
+                                                            </button>
+                                                        </td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+
+                                <div className="h-64">
+                                    <ResponsiveContainer width="100%" height="100%">
+                                        <LineChart data={selected.curve}>
+                                            <CartesianGrid strokeDasharray="3 3" stroke="#1e2433" />
+                                            <XAxis dataKey="threshold" type="number" domain={['dataMin', 'dataMax']} stroke="#64748b" label={{ value: 'Threshold', position: 'insideBottom', offset: -5, fill: '#64748b' }} />
+                                            <YAxis stroke="#64748b" tickFormatter={(v) => formatAmount(v, baseCurrency, true)} width={70} />
+                                            <Tooltip
+                                                contentStyle={{ backgroundColor: '#151a25', borderColor: '#334155', borderRadius: '8px' }}
+                                                formatter={(v: number) => formatAmount(v, baseCurrency)}
+                                                labelFormatter={(v) => `Threshold ${v}`}
+                                            />
+                                            <ReferenceLine x={selected.currentThreshold} stroke="#94a3b8" strokeDasharray="4 4" label={{ value: 'current', fill: '#94a3b8', fontSize: 10 }} />
+                                            <ReferenceLine x={selected.optimalThreshold} stroke="#22c55e" label={{ value: 'optimal', fill: '#22c55e', fontSize: 10 }} />
+                                            <Line type="stepAfter" dataKey="expectedCost" name="Expected loss" stroke={selectedColor} dot={false} strokeWidth={2} />
+                                        </LineChart>
+                                    </ResponsiveContainer>
+                                </div>
+                                <p className="text-[10px] text-slate-500 mt-2">
+                                    {THRESHOLD_MODELS.find(m => m.key === thresholdModel)!.label} · cut-offs flagging more than {(costMatrix.maxAlertRate * 100).toFixed(1)}% of transactions exceed analyst capacity and are never chosen.
+                                </p>
+                            </div>
+                        );
+                    })()}
                 </div>
             )}
+
+            {activeTab === 'backtest' && results.backtest && (() => {
+                const bt = results.backtest;
+                const changedRows = bt.rows.filter(r => r.change !== 'UNCHANGED');
+                const visibleRows = (showAllBacktestRows ? bt.rows : changedRows).slice(0, 500);
+                const precisionDelta = bt.current.metrics && bt.candidate.metrics ? bt.candidate.metrics.precision - bt.current.metrics.precision : null;
+                const recallDelta = bt.current.metrics && bt.candidate.metrics ? bt.candidate.metrics.recall - bt.current.metrics.recall : null;
+                const volumeDelta = bt.candidate.blockedVolume - bt.current.blockedVolume;
+                return (
+                    <div className="space-y-8 animate-in fade-in duration-500">
+                        {!bt.labelled && (
+                            <div className="p-4 rounded-2xl border border-orange-500/30 bg-orange-500/10 text-sm text-orange-300 flex items-start gap-3">
+                                <AlertTriangle size={18} className="mt-0.5 shrink-0" />
+                                <span>This batch has no isFraud labels, so precision and recall cannot be compared. Only the alert changes below are meaningful.</span>
+                            </div>
+                        )}
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                            <div className="p-6 rounded-2xl border bg-background border-surfaceHighlight">
+                                <h4 className="text-slate-400 text-sm font-medium">Alerts</h4>
+                                <p className="text-xl font-bold text-white mt-1">{bt.current.alerts} → {bt.candidate.alerts}</p>
+                                <p className="text-xs mt-2"><span className="text-orange-400">+{bt.alertsGained} gained</span> · <span className="text-green-400">-{bt.alertsLost} lost</span></p>
+                            </div>
+                            <div className="p-6 rounded-2xl border bg-background border-surfaceHighlight">
+                                <h4 className="text-slate-400 text-sm font-medium">Precision</h4>
+                                <p className="text-xl font-bold text-white mt-1">{bt.current.metrics?.precision ?? 'n/a'} → {bt.candidate.metrics?.precision ?? 'n/a'}</p>
+                                <p className={`text-xs mt-2 ${precisionDelta !== null && precisionDelta < 0 ? 'text-red-400' : 'text-green-400'}`}>{precisionDelta !== null ? formatDelta(precisionDelta) : 'No isFraud labels'}</p>
+                            </div>
+                            <div className="p-6 rounded-2xl border bg-background border-surfaceHighlight">
+                                <h4 className="text-slate-400 text-sm font-medium">Recall</h4>
+                                <p className="text-xl font-bold text-white mt-1">{bt.current.metrics?.recall ?? 'n/a'} → {bt.candidate.metrics?.recall ?? 'n/a'}</p>
+                                <p className={`text-xs mt-2 ${recallDelta !== null && recallDelta < 0 ? 'text-red-400' : 'text-green-400'}`}>{recallDelta !== null ? formatDelta(recallDelta) : 'No isFraud labels'}</p>
+                            </div>
+                            <div className="p-6 rounded-2xl border bg-background border-surfaceHighlight">
+                                <h4 className="text-slate-400 text-sm font-medium">Blocked Volume</h4>
+                                <p className="text-xl font-bold text-white mt-1">{formatAmount(bt.candidate.blockedVolume, baseCurrency, true)}</p>
+                                <p className="text-xs mt-2 text-slate-400">{volumeDelta >= 0 ? '+' : '-'}{formatAmount(Math.round(Math.abs(volumeDelta)), baseCurrency)} vs current</p>
+                            </div>
+                        </div>
+
+                        <div className="bg-background rounded-2xl border border-surfaceHighlight overflow-hidden">
+                            <div className="p-4 border-b border-surfaceHighlight flex justify-between items-center">
+                                <h3 className="font-semibold text-white">Per-Transaction Diff</h3>
+                                <label className="text-xs text-slate-400 flex items-center gap-2 cursor-pointer">
+                                    <input type="checkbox" checked={showAllBacktestRows} onChange={(e) => setShowAllBacktestRows(e.target.checked)} className="accent-violet-500" />
+                                    Include unchanged ({bt.rows.length - changedRows.length})
+                                </label>
+                            </div>
+                            <div className="max-h-96 overflow-auto custom-scrollbar">
+                                <table className="w-full text-left text-xs text-slate-400">
+                                    <thead className="bg-surface sticky top-0">
+                                        <tr>
+                                            <th className="p-3 font-medium text-slate-300">Change</th>
+                                            <th className="p-3 font-medium text-slate-300">Transaction</th>
+                                            <th className="p-3 font-medium text-slate-300">Label</th>
+                                            <th className="p-3 font-medium text-slate-300">Amount</th>
+                                            <th className="p-3 font-medium text-slate-300">Score</th>
+                                            <th className="p-3 font-medium text-slate-300">Candidate Triggers</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-surfaceHighlight">
+                                        {visibleRows.map(r => (
+                                            <tr key={r.transactionId}>
+                                                <td className="p-3">
+                                                    <span className={`px-2 py-0.5 rounded font-bold ${r.change === 'GAINED' ? 'bg-orange-500/20 text-orange-400' : r.change === 'LOST' ? 'bg-green-500/20 text-green-400' : 'bg-surfaceHighlight text-slate-400'}`}>{r.change}</span>
+                                                </td>
+                                                <td className="p-3 font-mono text-white">{r.transactionId}</td>
+                                                <td className="p-3">{r.trueLabel === undefined ? '-' : r.trueLabel === 1 ? <span className="text-red-400">Fraud</span> : 'Legit'}</td>
+                                                <td className="p-3 font-mono text-white">
+                                                    {formatAmount(r.amount, r.currency)}
+                                                    {r.currency !== baseCurrency && <span className="block text-[10px] text-slate-500">≈ {formatAmount(r.baseAmount, baseCurrency)}</span>}
+                                                </td>
+                                                <td className="p-3 font-mono">{r.currentScore} → {r.candidateScore}</td>
+                                                <td className="p-3 max-w-xs truncate" title={r.candidateTriggers}>{r.candidateTriggers}</td>
+                                            </tr>
+                                        ))}
+                                        {visibleRows.length === 0 && (
+                                            <tr><td colSpan={6} className="p-8 text-center text-slate-500">The candidate rule set raises exactly the same alerts.</td></tr>
+                                        )}
+                                    </tbody>
+                                </table>
+                            </div>
+                            {(showAllBacktestRows ? bt.rows.length : changedRows.length) > visibleRows.length && (
+                                <p className="p-3 text-xs text-slate-500 border-t border-surfaceHighlight">Showing the first {visibleRows.length} rows. Download the CSV for the full diff.</p>
+                            )}
+                        </div>
+                    </div>
+                );
+            })()}
         </div>
 
         {/* Footer: Downloads */}
         <div className="p-6 border-t border-surfaceHighlight bg-surface">
             <h4 className="text-sm font-medium text-slate-400 mb-4 uppercase tracking-wider">
-                {activeTab === 'stage1' ? 'Stage 1 & 2 Output Assets' : 'Stage 3 Baseline Output Assets'}
+                {activeTab === 'stage1' ? 'Stage 1 & 2 Output Assets' : activeTab === 'quality' ? 'Data Quality Output Assets' : activeTab === 'stage3' ? 'Stage 3 Baseline Output Assets' : 'Rule Backtest Output Assets'}
             </h4>
             
-            {activeTab === 'stage1' ? (
+            {activeTab === 'stage1' && (
                 <div className="flex flex-wrap gap-4">
                     <button onClick={handleDownloadPNG} disabled={!!downloading} className="flex-1 flex items-center justify-center gap-3 bg-surfaceHighlight hover:bg-slate-700 border border-slate-700 text-white p-4 rounded-xl transition-all group">
                         <div className="p-2 bg-blue-500/10 rounded-lg group-hover:bg-blue-500/20 text-blue-500"><ImageIcon size={24} /></div>
@@ -382,6 +1366,11 @@ TOTAL FEATURES GENERATED: 10
                         <div className="text-left"><div className="font-semibold">Data + Features</div><div className="text-xs text-slate-400">fraud_data_with_features.csv</div></div>
                         {downloading === 'fraud_data_with_features.csv' ? <div className="ml-auto animate-spin h-5 w-5 border-2 border-slate-500 border-t-white rounded-full"/> : <Download className="ml-auto text-slate-500 group-hover:text-white" size={20} />}
                     </button>
+                    <button onClick={handleDownloadRecords} disabled={!!downloading} className="flex-1 flex items-center justify-center gap-3 bg-surfaceHighlight hover:bg-slate-700 border border-slate-700 text-white p-4 rounded-xl transition-all group">
+                        <div className="p-2 bg-cyan-500/10 rounded-lg group-hover:bg-cyan-500/20 text-cyan-500"><FileJson size={24} /></div>
+                        <div className="text-left"><div className="font-semibold">Full Records</div><div className="text-xs text-slate-400">fraud_transactions.ndjson</div></div>
+                        {downloading === 'ndjson' ? <div className="ml-auto animate-spin h-5 w-5 border-2 border-slate-500 border-t-white rounded-full"/> : <Download className="ml-auto text-slate-500 group-hover:text-white" size={20} />}
+                    </button>
                     <button onClick={handleDownloadReport} disabled={!!downloading} className="flex-1 flex items-center justify-center gap-3 bg-surfaceHighlight hover:bg-slate-700 border border-slate-700 text-white p-4 rounded-xl transition-all group">
                         <div className="p-2 bg-purple-500/10 rounded-lg group-hover:bg-purple-500/20 text-purple-500"><FileText size={24} /></div>
                         <div className="text-left"><div className="font-semibold">AI Report</div><div className="text-xs text-slate-400">fraud_stage1_report.txt</div></div>
@@ -392,14 +1381,39 @@ TOTAL FEATURES GENERATED: 10
                         <div className="text-left"><div className="font-semibold">Features</div><div className="text-xs text-slate-400">fraud_features_list.txt</div></div>
                         {downloading === 'features' ? <div className="ml-auto animate-spin h-5 w-5 border-2 border-slate-500 border-t-white rounded-full"/> : <Download className="ml-auto text-slate-500 group-hover:text-white" size={20} />}
                     </button>
+                    {results.summary && results.summary.rows > transactions.length && (
+                        <p className="w-full text-xs text-slate-500">The row downloads hold the {transactions.length.toLocaleString()} rows sent to the page (every flagged row up to {MAX_FLAGGED_ROWS.toLocaleString()} and the latest {VIEW_WINDOW.toLocaleString()}) of the {results.summary.rows.toLocaleString()} scored.</p>
+                    )}
                 </div>
-            ) : (
+            )}
+
+            {activeTab === 'quality' && (
+                <div className="flex flex-wrap gap-4">
+                    <button onClick={downloadDataQualityReport} disabled={!!downloading} className="flex-1 flex items-center justify-center gap-3 bg-surfaceHighlight hover:bg-slate-700 border border-slate-700 text-white p-4 rounded-xl transition-all group">
+                        <div className="p-2 bg-teal-500/10 rounded-lg group-hover:bg-teal-500/20 text-teal-500"><ShieldCheck size={24} /></div>
+                        <div className="text-left"><div className="font-semibold">Quality Report</div><div className="text-xs text-slate-400">data_quality_report.csv</div></div>
+                        {downloading === 'data_quality_report.csv' ? <div className="ml-auto animate-spin h-5 w-5 border-2 border-slate-500 border-t-white rounded-full"/> : <Download className="ml-auto text-slate-500 group-hover:text-white" size={20} />}
+                    </button>
+                    <button onClick={handleDownloadQuarantined} disabled={!!downloading || !results.dataQuality?.quarantined} className="flex-1 flex items-center justify-center gap-3 bg-surfaceHighlight hover:bg-slate-700 border border-slate-700 text-white p-4 rounded-xl transition-all group disabled:opacity-50">
+                        <div className="p-2 bg-amber-500/10 rounded-lg group-hover:bg-amber-500/20 text-amber-500"><FileJson size={24} /></div>
+                        <div className="text-left"><div className="font-semibold">Quarantined Rows</div><div className="text-xs text-slate-400">quarantined_rows_sample.ndjson</div></div>
+                        {downloading === 'quarantine' ? <div className="ml-auto animate-spin h-5 w-5 border-2 border-slate-500 border-t-white rounded-full"/> : <Download className="ml-auto text-slate-500 group-hover:text-white" size={20} />}
+                    </button>
+                </div>
+            )}
+
+            {activeTab === 'stage3' && (
                 <div className="flex flex-wrap gap-4">
                     <button onClick={downloadBaselineResults} disabled={!!downloading} className="flex-1 flex items-center justify-center gap-3 bg-surfaceHighlight hover:bg-slate-700 border border-slate-700 text-white p-4 rounded-xl transition-all group">
                         <div className="p-2 bg-teal-500/10 rounded-lg group-hover:bg-teal-500/20 text-teal-500"><BarChartIcon size={24} /></div>
                         <div className="text-left"><div className="font-semibold">Results Table</div><div className="text-xs text-slate-400">baseline_models_results.csv</div></div>
                         {downloading === 'baseline_models_results.csv' ? <div className="ml-auto animate-spin h-5 w-5 border-2 border-slate-500 border-t-white rounded-full"/> : <Download className="ml-auto text-slate-500 group-hover:text-white" size={20} />}
                     </button>
+                    <button onClick={downloadModelCurves} disabled={!!downloading || !stage3?.curves} className="flex-1 flex items-center justify-center gap-3 bg-surfaceHighlight hover:bg-slate-700 border border-slate-700 text-white p-4 rounded-xl transition-all group">
+                        <div className="p-2 bg-amber-500/10 rounded-lg group-hover:bg-amber-500/20 text-amber-500"><BarChartIcon size={24} /></div>
+                        <div className="text-left"><div className="font-semibold">ROC / PR Curves</div><div className="text-xs text-slate-400">model_curves.csv</div></div>
+                        {downloading === 'model_curves.csv' ? <div className="ml-auto animate-spin h-5 w-5 border-2 border-slate-500 border-t-white rounded-full"/> : <Download className="ml-auto text-slate-500 group-hover:text-white" size={20} />}
+                    </button>
                     <button onClick={downloadBaselinePredictions} disabled={!!downloading} className="flex-1 flex items-center justify-center gap-3 bg-surfaceHighlight hover:bg-slate-700 border border-slate-700 text-white p-4 rounded-xl transition-all group">
                         <div className="p-2 bg-indigo-500/10 rounded-lg group-hover:bg-indigo-500/20 text-indigo-500"><GitBranch size={24} /></div>
                         <div className="text-left"><div className="font-semibold">Predictions</div><div className="text-xs text-slate-400">baseline_predictions.csv</div></div>
@@ -417,6 +1431,21 @@ TOTAL FEATURES GENERATED: 10
                     </button>
                 </div>
             )}
+
+            {activeTab === 'backtest' && (
+                <div className="flex flex-wrap gap-4">
+                    <button onClick={downloadBacktestDiff} disabled={!!downloading} className="flex-1 flex items-center justify-center gap-3 bg-surfaceHighlight hover:bg-slate-700 border border-slate-700 text-white p-4 rounded-xl transition-all group">
+                        <div className="p-2 bg-indigo-500/10 rounded-lg group-hover:bg-indigo-500/20 text-indigo-500"><GitCompare size={24} /></div>
+                        <div className="text-left"><div className="font-semibold">Per-Transaction Diff</div><div className="text-xs text-slate-400">rule_backtest_diff.csv</div></div>
+                        {downloading === 'rule_backtest_diff.csv' ? <div className="ml-auto animate-spin h-5 w-5 border-2 border-slate-500 border-t-white rounded-full"/> : <Download className="ml-auto text-slate-500 group-hover:text-white" size={20} />}
+                    </button>
+                    <button onClick={downloadBacktestSummary} disabled={!!downloading} className="flex-1 flex items-center justify-center gap-3 bg-surfaceHighlight hover:bg-slate-700 border border-slate-700 text-white p-4 rounded-xl transition-all group">
+                        <div className="p-2 bg-teal-500/10 rounded-lg group-hover:bg-teal-500/20 text-teal-500"><BarChartIcon size={24} /></div>
+                        <div className="text-left"><div className="font-semibold">Summary</div><div className="text-xs text-slate-400">rule_backtest_summary.csv</div></div>
+                        {downloading === 'rule_backtest_summary.csv' ? <div className="ml-auto animate-spin h-5 w-5 border-2 border-slate-500 border-t-white rounded-full"/> : <Download className="ml-auto text-slate-500 group-hover:text-white" size={20} />}
+                    </button>
+                </div>
+            )}
         </div>
 
       </div>
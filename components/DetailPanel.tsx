@@ -1,15 +1,79 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { EnrichedTransaction } from '../types';
-import { X, Bot, MapPin, Clock, CreditCard, Activity, FileText, ShieldAlert, CheckCircle, TrendingUp } from 'lucide-react';
+import { Attribution, EnrichedTransaction, ScoreAttributions, ScoringModels } from '../types';
+import { X, Bot, MapPin, Clock, CreditCard, Activity, FileText, ShieldAlert, CheckCircle, TrendingUp, Share2 } from 'lucide-react';
 import { getFraudExplanation } from '../services/geminiService';
+import { baseAmountOf, formatAmount, formatBaseAmount } from '../services/fx';
+import { DECISION_MODEL_LABELS } from '../services/decision';
+import { explainTransaction } from '../services/attribution';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, BarChart, Bar, XAxis, YAxis, ComposedChart, Line, ReferenceLine, CartesianGrid } from 'recharts';
 
 interface DetailPanelProps {
   transaction: EnrichedTransaction | null;
   allTransactions: EnrichedTransaction[];
   onClose: () => void;
+  baseCurrency: string;
+  models: ScoringModels | null; // fitted Stage 3 models; without them only the rules are explained
 }
 
+type AttributionView = keyof ScoreAttributions;
+
+const ATTRIBUTION_VIEWS: { key: AttributionView; label: string }[] = [
+  { key: 'rules', label: 'Rules' },
+  { key: 'logisticRegression', label: 'Log. Regression' },
+  { key: 'isolationForest', label: 'Isolation Forest' }
+];
+
+const WATERFALL_STEPS = 8;
+
+interface WaterfallRow {
+  name: string;
+  range: [number, number];
+  value: number;
+  isTotal: boolean;
+  fill: string;
+}
+
+// Floating bars from a starting total through each contribution to the final total.
+// `riskSign` is -1 when a falling total means more risk (isolation path length).
+const buildWaterfall = (
+  start: { name: string; value: number } | null,
+  steps: Attribution[],
+  end: string,
+  riskSign: 1 | -1
+): WaterfallRow[] => {
+  const shown = steps.slice(0, WATERFALL_STEPS);
+  const rest = steps.slice(WATERFALL_STEPS).reduce((acc, c) => acc + c.contribution, 0);
+  if (steps.length > WATERFALL_STEPS) shown.push({ name: 'Other features', contribution: rest });
+
+  const rows: WaterfallRow[] = [];
+  let total = start ? start.value : 0;
+  if (start) rows.push({ name: start.name, range: [0, total], value: total, isTotal: true, fill: '#64748b' });
+  shown.forEach(c => {
+    const delta = riskSign * c.contribution;
+    rows.push({
+      name: c.name,
+      range: [Math.min(total, total + delta), Math.max(total, total + delta)],
+      value: c.contribution,
+      isTotal: false,
+      fill: c.contribution >= 0 ? '#ef4444' : '#22c55e'
+    });
+    total += delta;
+  });
+  rows.push({ name: end, range: [0, total], value: total, isTotal: true, fill: '#3b82f6' });
+  return rows;
+};
+
+const WaterfallTooltip = ({ active, payload }: any) => {
+  if (!active || !payload || !payload.length) return null;
+  const row: WaterfallRow = payload[0].payload;
+  return (
+    <div className="bg-surface border border-slate-700 px-3 py-2 rounded-lg shadow-xl text-xs">
+      <span className="text-slate-400">{row.name}: </span>
+      <span className="font-mono text-white">{!row.isTotal && row.value > 0 ? '+' : ''}{row.value.toFixed(3)}</span>
+    </div>
+  );
+};
+
 const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload;
@@ -18,11 +82,11 @@ const CustomTooltip = ({ active, payload, label }: any) => {
           <p className="text-slate-400 mb-2 border-b border-slate-700 pb-1">{data.fullTime}</p>
           <div className="flex justify-between gap-4 mb-1">
             <span className="text-slate-500">Amount:</span>
-            <span className="font-mono font-bold text-white">${data.amount.toLocaleString()}</span>
+            <span className="font-mono font-bold text-white">{formatAmount(data.amount, data.currency)}</span>
           </div>
           <div className="flex justify-between gap-4 mb-2">
             <span className="text-slate-500">Trend (Avg):</span>
-            <span className="font-mono text-primary-400">${Math.round(data.movingAvg).toLocaleString()}</span>
+            <span className="font-mono text-primary-400">{formatAmount(Math.round(data.movingAvg), data.currency)}</span>
           </div>
           <div className={`flex items-center gap-1.5 font-medium ${data.isSuspicious ? 'text-red-400' : 'text-green-400'}`}>
              {data.isSuspicious ? <ShieldAlert size={14}/> : <CheckCircle size={14}/>}
@@ -39,9 +103,15 @@ const CustomTooltip = ({ active, payload, label }: any) => {
     return null;
 };
 
-export const DetailPanel: React.FC<DetailPanelProps> = ({ transaction, allTransactions, onClose }) => {
+export const DetailPanel: React.FC<DetailPanelProps> = ({ transaction, allTransactions, onClose, baseCurrency, models }) => {
   const [explanation, setExplanation] = useState<string>('');
   const [loading, setLoading] = useState(false);
+  const [attributionView, setAttributionView] = useState<AttributionView>('rules');
+
+  const attributions = useMemo(
+    () => (transaction ? explainTransaction(transaction, models) : null),
+    [transaction, models]
+  );
 
   useEffect(() => {
     if (transaction) {
@@ -49,7 +119,7 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ transaction, allTransa
         setExplanation(transaction.aiExplanation);
       } else if (transaction.isSuspicious) {
         setLoading(true);
-        getFraudExplanation(transaction).then((res) => {
+        getFraudExplanation(transaction, baseCurrency, attributions || undefined).then((res) => {
             setExplanation(res);
             setLoading(false);
             transaction.aiExplanation = res; 
@@ -60,7 +130,7 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ transaction, allTransa
     } else {
         setExplanation('');
     }
-  }, [transaction]);
+  }, [transaction, attributions]);
 
   const clientHistory = useMemo(() => {
     if (!transaction) return [];
@@ -72,29 +142,73 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ transaction, allTransa
     return clientTxns.slice(-30).map((t, index, arr) => {
         const windowStart = Math.max(0, index - 4);
         const windowSlice = arr.slice(windowStart, index + 1);
-        const avg = windowSlice.reduce((sum, item) => sum + item.amount, 0) / windowSlice.length;
+        // Charted in the base currency so foreign-currency payments are comparable
+        const avg = windowSlice.reduce((sum, item) => sum + baseAmountOf(item), 0) / windowSlice.length;
 
         return {
             id: t.id,
             time: new Date(t.timestamp).toLocaleDateString(undefined, {month: 'short', day: 'numeric'}),
             fullTime: new Date(t.timestamp).toLocaleString(),
-            amount: t.amount,
+            amount: baseAmountOf(t),
+            currency: baseCurrency,
             isSuspicious: t.isSuspicious,
             isCurrent: t.id === transaction.id,
             movingAvg: avg,
             riskColor: t.isSuspicious ? '#ef4444' : '#22c55e'
         };
     });
+  }, [transaction, allTransactions, baseCurrency]);
+
+  // Usual categories for this client, from everything currently loaded
+  const categoryBreakdown = useMemo(() => {
+    if (!transaction) return [];
+    const counts: Record<string, number> = {};
+    let total = 0;
+    allTransactions.forEach(t => {
+        if (t.clientId !== transaction.clientId) return;
+        counts[t.category] = (counts[t.category] || 0) + 1;
+        total++;
+    });
+    return Object.entries(counts)
+        .map(([category, count]) => ({ category, count, share: count / (total || 1) }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5);
   }, [transaction, allTransactions]);
 
   if (!transaction) return null;
 
+  // The calibrated-probability label only applies when the rule score decided
+  const rulesDecided = (transaction.decisionModel ?? 'rules') === 'rules';
   const data = [
     { name: 'Fraud Score', value: transaction.fraudScore * 100 },
     { name: 'Trust Score', value: 100 - (transaction.fraudScore * 100) },
   ];
   const COLORS = [transaction.isSuspicious ? '#ef4444' : '#22c55e', '#1e2433'];
 
+  // Waterfall for the selected model; views need Stage 3 models except the rules
+  const view = attributions?.[attributionView] ? attributionView : 'rules';
+  const waterfall = (() => {
+    if (!attributions) return null;
+    if (view === 'logisticRegression' && attributions.logisticRegression) {
+      const lr = attributions.logisticRegression;
+      return {
+        rows: buildWaterfall({ name: 'Bias', value: lr.bias }, lr.contributions, 'Log-odds', 1),
+        note: `Contributions in log-odds (weight × standardised value) · probability ${lr.score.toFixed(3)}`
+      };
+    }
+    if (view === 'isolationForest' && attributions.isolationForest) {
+      const iso = attributions.isolationForest;
+      return {
+        rows: buildWaterfall({ name: 'Average path c(ψ)', value: iso.expectedPath }, iso.contributions, 'Path length', -1),
+        note: `Splits saved against the average path (red shortened it) · anomaly score ${iso.score.toFixed(3)}`
+      };
+    }
+    return {
+      rows: buildWaterfall(null, attributions.rules.contributions, 'Rule score', 1),
+      note: attributions.rules.contributions.length === 0 ? 'No rules fired for this transaction.' : 'Weight added by each rule that fired (the score is capped at 1)'
+    };
+  })();
+
   return (
     <div className="fixed inset-y-0 right-0 w-full md:w-[450px] bg-background border-l border-surfaceHighlight shadow-2xl p-6 transform transition-transform duration-300 z-50 overflow-y-auto custom-scrollbar">
       <div className="flex justify-between items-center mb-8">
@@ -132,10 +246,37 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ transaction, allTransa
         </ResponsiveContainer>
         <div className="absolute inset-0 flex items-center justify-center flex-col pointer-events-none">
             <span className="text-3xl font-bold text-white">{Math.round(transaction.fraudScore * 100)}</span>
-            <span className="text-xs text-slate-400 uppercase tracking-widest">Risk Score</span>
+            <span className="text-xs text-slate-400 uppercase tracking-widest">{transaction.decisionCalibrated ? 'Fraud Prob. %' : 'Risk Score'}</span>
+            {rulesDecided && transaction.calibrationMethod && transaction.ruleScore !== undefined && (
+                <span className="text-[10px] text-slate-500 font-mono">rule score {transaction.ruleScore}</span>
+            )}
         </div>
       </div>
 
+      {transaction.decisionModel && (transaction.decisionModel !== 'rules' || transaction.challengerModel || transaction.modelVersion) && (
+        <div className="mb-6 text-xs bg-surface rounded-xl p-3 border border-surfaceHighlight space-y-1">
+            <div className="flex justify-between">
+                <span className="text-slate-500">Decided by</span>
+                <span className="text-white font-medium">{DECISION_MODEL_LABELS[transaction.decisionModel]} <span className="font-mono text-slate-400">{transaction.fraudScore}</span></span>
+            </div>
+            {transaction.modelVersion && (
+                <div className="flex justify-between">
+                    <span className="text-slate-500">Model version</span>
+                    <span className="font-mono text-slate-300" title={transaction.modelVersion.endsWith('*') ? 'Rules edited since this version was registered' : undefined}>{transaction.modelVersion}</span>
+                </div>
+            )}
+            {transaction.challengerModel && (
+                <div className="flex justify-between">
+                    <span className="text-slate-500">Challenger</span>
+                    <span className="text-slate-300">
+                        {DECISION_MODEL_LABELS[transaction.challengerModel]} <span className="font-mono text-slate-400">{transaction.modelScores?.[transaction.challengerModel]}</span>
+                        <span className={transaction.challengerSuspicious === transaction.isSuspicious ? 'text-slate-500' : 'text-yellow-400'}> · {transaction.challengerSuspicious ? 'would alert' : 'would not alert'}</span>
+                    </span>
+                </div>
+            )}
+        </div>
+      )}
+
       <div className="space-y-6">
         {/* AI Explanation Box */}
         <div className="bg-surface rounded-2xl p-5 border border-surfaceHighlight relative overflow-hidden">
@@ -158,6 +299,45 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ transaction, allTransa
             </div>
         </div>
 
+        {/* Score Attribution */}
+        {waterfall && (
+            <div className="bg-surface rounded-2xl p-5 border border-surfaceHighlight">
+                <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-semibold text-slate-300">Score Drivers</h3>
+                    <div className="flex gap-1">
+                        {ATTRIBUTION_VIEWS.map(v => (
+                            <button
+                                key={v.key}
+                                onClick={() => setAttributionView(v.key)}
+                                disabled={!attributions?.[v.key]}
+                                title={attributions?.[v.key] ? undefined : 'Run Stage 3 to fit this model'}
+                                className={`px-2 py-1 rounded-lg text-[10px] font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${view === v.key ? 'bg-primary-600 text-white' : 'bg-surfaceHighlight text-slate-400 hover:text-white'}`}
+                            >
+                                {v.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div style={{ height: 28 * waterfall.rows.length + 30 }}>
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={waterfall.rows} layout="vertical" margin={{ top: 0, right: 10, bottom: 0, left: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#1e2433" horizontal={false} />
+                            <XAxis type="number" stroke="#64748b" fontSize={10} domain={['auto', 'auto']} tickFormatter={(v) => Number(v).toFixed(1)} />
+                            <YAxis type="category" dataKey="name" stroke="#64748b" fontSize={10} width={130} interval={0} />
+                            <Tooltip content={<WaterfallTooltip />} cursor={{ fill: 'rgba(148, 163, 184, 0.08)' }} />
+                            <ReferenceLine x={0} stroke="#475569" />
+                            <Bar dataKey="range" barSize={14} radius={[2, 2, 2, 2]}>
+                                {waterfall.rows.map((row, index) => (
+                                    <Cell key={`wf-${index}`} fill={row.fill} />
+                                ))}
+                            </Bar>
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+                <p className="text-[10px] text-slate-500 mt-2">{waterfall.note}</p>
+            </div>
+        )}
+
         {/* Financial Chart */}
         <div className="bg-surface rounded-2xl p-5 border border-surfaceHighlight">
             <div className="flex items-center justify-between mb-4">
@@ -173,7 +353,7 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ transaction, allTransa
                     <ComposedChart data={clientHistory} margin={{top: 5, right: 5, bottom: 5, left: -20}}>
                         <CartesianGrid strokeDasharray="3 3" stroke="#1e2433" vertical={false} />
                         <XAxis dataKey="time" hide />
-                        <YAxis stroke="#64748b" fontSize={10} tickFormatter={(val) => `$${val}`} />
+                        <YAxis stroke="#64748b" fontSize={10} tickFormatter={(val) => formatAmount(val, baseCurrency, true)} />
                         <Tooltip content={<CustomTooltip />} cursor={{fill: 'transparent', stroke: '#cbd5e1', strokeWidth: 1, strokeDasharray: '5 5'}} />
                         
                         <Bar dataKey="amount" barSize={8} radius={[2, 2, 0, 0]}>
@@ -204,22 +384,92 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ transaction, allTransa
             </div>
         </div>
 
+        {/* Category Profile */}
+        <div className="bg-surface rounded-2xl p-5 border border-surfaceHighlight">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-semibold text-slate-300">Usual Categories for this Client</h3>
+                {transaction.is_new_category && (
+                    <span className="px-1.5 py-0.5 rounded bg-orange-500/20 text-orange-400 text-[10px]">NEW CATEGORY</span>
+                )}
+            </div>
+            <div className="space-y-2">
+                {categoryBreakdown.map(c => (
+                    <div key={c.category} className="text-xs">
+                        <div className="flex justify-between mb-1">
+                            <span className={c.category === transaction.category ? 'text-white font-medium' : 'text-slate-400'}>
+                                {c.category}{c.category === transaction.category && ' (this transaction)'}
+                            </span>
+                            <span className="font-mono text-slate-400">{(c.share * 100).toFixed(0)}% · {c.count}</span>
+                        </div>
+                        <div className="h-1.5 bg-surfaceHighlight rounded-full overflow-hidden">
+                            <div
+                                className={`h-full rounded-full ${c.category === transaction.category ? 'bg-primary-500' : 'bg-slate-600'}`}
+                                style={{ width: `${c.share * 100}%` }}
+                            />
+                        </div>
+                    </div>
+                ))}
+                {!categoryBreakdown.some(c => c.category === transaction.category) && (
+                    <p className="text-xs text-orange-400">{transaction.category} is outside this client's top categories.</p>
+                )}
+            </div>
+            <p className="text-[10px] text-slate-500 mt-3">
+                Category share {((transaction.category_freq || 0) * 100).toFixed(0)}% · entropy {(transaction.category_entropy || 0).toFixed(2)} bits
+            </p>
+        </div>
+
         {/* Details Grid */}
         <div className="grid grid-cols-1 gap-3">
             <div className="flex items-center gap-3 p-4 rounded-xl bg-surface border border-surfaceHighlight">
                 <div className="p-2 bg-surfaceHighlight rounded-full text-slate-400"><CreditCard size={18} /></div>
                 <div>
                     <p className="text-xs text-slate-500">Amount</p>
-                    <p className="font-mono text-white font-medium">${transaction.amount.toLocaleString()} {transaction.currency}</p>
+                    <p className="font-mono text-white font-medium">{formatAmount(transaction.amount, transaction.currency)} {transaction.currency}</p>
+                    {formatBaseAmount(transaction, baseCurrency) && (
+                        <p className="text-xs mt-0.5 text-slate-500">
+                            {formatBaseAmount(transaction, baseCurrency)} {baseCurrency}{transaction.fxRateDate && ` · FX rates of ${transaction.fxRateDate}`}
+                        </p>
+                    )}
+                    {transaction.oldBalanceOrig !== undefined && transaction.newBalanceOrig !== undefined && (
+                        <p className={`text-xs mt-0.5 ${transaction.orig_balance_error ? 'text-orange-400' : 'text-slate-500'}`}>
+                            Balance {formatAmount(transaction.oldBalanceOrig, transaction.currency)} → {formatAmount(transaction.newBalanceOrig, transaction.currency)}
+                            {transaction.is_account_emptied && ' · account emptied'}
+                            {!!transaction.orig_balance_error && ` · off by ${formatAmount(transaction.orig_balance_error, transaction.currency)}`}
+                        </p>
+                    )}
                 </div>
             </div>
             <div className="flex items-center gap-3 p-4 rounded-xl bg-surface border border-surfaceHighlight">
                 <div className="p-2 bg-surfaceHighlight rounded-full text-slate-400"><MapPin size={18} /></div>
                 <div>
                     <p className="text-xs text-slate-500">Location</p>
-                    <p className="text-white font-medium">{transaction.location}</p>
+                    <p className="text-white font-medium">
+                        {transaction.location}
+                        {transaction.is_new_location && <span className="ml-2 px-1.5 py-0.5 rounded bg-orange-500/20 text-orange-400 text-[10px] align-middle">NEW FOR CLIENT</span>}
+                    </p>
+                    {!!transaction.distance_from_prev_km && (
+                        <p className={`text-xs mt-0.5 ${(transaction.travel_speed_kmh || 0) > 900 ? 'text-red-400' : 'text-slate-500'}`}>
+                            {Math.round(transaction.distance_from_prev_km).toLocaleString()} km from previous · {Math.round(transaction.travel_speed_kmh || 0).toLocaleString()} km/h implied
+                        </p>
+                    )}
                 </div>
             </div>
+            {transaction.counterpartyId && (
+                <div className="flex items-center gap-3 p-4 rounded-xl bg-surface border border-surfaceHighlight">
+                    <div className="p-2 bg-surfaceHighlight rounded-full text-slate-400"><Share2 size={18} /></div>
+                    <div>
+                        <p className="text-xs text-slate-500">Counterparty</p>
+                        <p className="text-white font-medium font-mono">
+                            {transaction.counterpartyId}
+                            {transaction.dest_is_mule_suspect && <span className="ml-2 px-1.5 py-0.5 rounded bg-red-500/20 text-red-400 text-[10px] align-middle font-sans">MULE SUSPECT</span>}
+                            {transaction.in_short_cycle && <span className="ml-2 px-1.5 py-0.5 rounded bg-orange-500/20 text-orange-400 text-[10px] align-middle font-sans">CIRCULAR</span>}
+                        </p>
+                        <p className="text-xs mt-0.5 text-slate-500">
+                            Paid by {transaction.dest_fan_in || 0} account(s) · client has paid {transaction.orig_fan_out || 0} counterparties
+                        </p>
+                    </div>
+                </div>
+            )}
             <div className="flex items-center gap-3 p-4 rounded-xl bg-surface border border-surfaceHighlight">
                 <div className="p-2 bg-surfaceHighlight rounded-full text-slate-400"><Clock size={18} /></div>
                 <div>
@@ -0,0 +1,202 @@
+import React, { useMemo, useState } from 'react';
+import { BatchProfile, DriftSettings } from '../types';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine, Cell } from 'recharts';
+import { Waves, BarChart2, AlertTriangle, Trash2 } from 'lucide-react';
+import { compareProfiles, referenceFor, SCORE_LABELS } from '../services/drift';
+
+interface DriftViewProps {
+  profiles: BatchProfile[]; // oldest first
+  settings: DriftSettings;
+  onChangeSettings: (settings: DriftSettings) => void;
+  onClearHistory: () => void;
+}
+
+const tooltipStyle = { backgroundColor: '#151a25', borderColor: '#334155', color: '#f8fafc', borderRadius: '8px' };
+const selectClass = 'bg-background border border-surfaceHighlight rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-primary-500';
+
+const describe = (profile: BatchProfile) => `${profile.label} · ${new Date(profile.createdAt).toLocaleString()} · ${profile.size.toLocaleString()} rows`;
+
+export const DriftView: React.FC<DriftViewProps> = ({ profiles, settings, onChangeSettings, onClearHistory }) => {
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [scoreName, setScoreName] = useState('fraudScore');
+
+  const current = profiles.find(p => p.id === currentId) || profiles[profiles.length - 1] || null;
+  const reference = current ? referenceFor(profiles, current, settings) : null;
+
+  const report = useMemo(
+    () => (current && reference ? compareProfiles(reference, current, settings.psiThreshold) : null),
+    [current, reference, settings.psiThreshold]
+  );
+
+  // Score histograms of both batches as shares, so different batch sizes compare
+  const histogram = useMemo(() => {
+    const ref = reference?.scores[scoreName]?.histogram;
+    const cur = current?.scores[scoreName]?.histogram;
+    if (!ref || !cur) return [];
+    const refTotal = ref.reduce((a, c) => a + c, 0) || 1;
+    const curTotal = cur.reduce((a, c) => a + c, 0) || 1;
+    return cur.map((c, i) => ({
+      bin: `${(i / cur.length).toFixed(1)}-${((i + 1) / cur.length).toFixed(1)}`,
+      reference: parseFloat(((ref[i] / refTotal) * 100).toFixed(2)),
+      current: parseFloat(((c / curTotal) * 100).toFixed(2))
+    }));
+  }, [reference, current, scoreName]);
+
+  const sharedScores = current && reference ? Object.keys(current.scores).filter(s => reference.scores[s]) : [];
+
+  return (
+    <div className="p-8 space-y-8 animate-in fade-in duration-500 overflow-y-auto h-full custom-scrollbar">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-white">Drift Monitoring</h2>
+        {profiles.length > 0 && (
+          <button
+            onClick={onClearHistory}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-slate-400 hover:text-white bg-surfaceHighlight rounded-xl transition-colors"
+          >
+            <Trash2 size={14} /> Clear history
+          </button>
+        )}
+      </div>
+
+      {/* Batch selection */}
+      <div className="bg-surface border border-surfaceHighlight rounded-2xl p-6 shadow-xl grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Current batch</label>
+          <select className={`${selectClass} w-full`} value={current?.id || ''} onChange={e => setCurrentId(e.target.value)} disabled={profiles.length === 0}>
+            {[...profiles].reverse().map(p => <option key={p.id} value={p.id}>{describe(p)}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Reference batch</label>
+          <select
+            className={`${selectClass} w-full`}
+            value={settings.referenceId && profiles.some(p => p.id === settings.referenceId) ? settings.referenceId : ''}
+            onChange={e => onChangeSettings({ ...settings, referenceId: e.target.value || null })}
+            disabled={profiles.length === 0}
+          >
+            <option value="">Previous batch</option>
+            {[...profiles].reverse().map(p => <option key={p.id} value={p.id}>{describe(p)}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">PSI alert threshold</label>
+          <input
+            type="number"
+            min={0.01}
+            step={0.05}
+            className={`${selectClass} w-full`}
+            value={settings.psiThreshold}
+            onChange={e => {
+              const value = parseFloat(e.target.value);
+              if (Number.isFinite(value) && value > 0) onChangeSettings({ ...settings, psiThreshold: value });
+            }}
+          />
+          <p className="text-[10px] text-slate-500 mt-1">Below 0.1 stable · 0.1–0.25 moderate · above 0.25 significant</p>
+        </div>
+      </div>
+
+      {!report ? (
+        <div className="bg-surface border border-surfaceHighlight rounded-2xl p-10 text-center text-slate-400 text-sm">
+          {profiles.length === 0
+            ? 'Upload a batch to start the history. Every upload stores its feature distributions and score histograms.'
+            : 'Drift needs two batches: upload another file, or pick a different reference batch.'}
+        </div>
+      ) : (
+        <>
+          <div className={`rounded-2xl p-4 border flex items-center gap-3 text-sm ${report.driftedCount > 0 ? 'bg-red-500/10 border-red-500/30 text-red-300' : 'bg-green-500/10 border-green-500/30 text-green-300'}`}>
+            <AlertTriangle size={18} />
+            {report.driftedCount > 0
+              ? `${report.driftedCount} of ${report.metrics.length} columns drifted above PSI ${settings.psiThreshold} against ${reference!.label}.`
+              : `No column exceeds PSI ${settings.psiThreshold} against ${reference!.label}.`}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* PSI per column */}
+            <div className="bg-surface border border-surfaceHighlight rounded-2xl p-6 shadow-xl">
+              <h3 className="font-semibold text-white mb-6 flex items-center gap-2">
+                <Waves size={18} className="text-primary-500" />
+                Population Stability Index
+              </h3>
+              <div style={{ height: Math.max(240, report.metrics.length * 18) }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={report.metrics} layout="vertical" margin={{ left: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#1e2433" horizontal={false} />
+                    <XAxis type="number" stroke="#94a3b8" fontSize={11} />
+                    <YAxis dataKey="name" type="category" stroke="#94a3b8" fontSize={10} width={150} interval={0} tickFormatter={(name) => SCORE_LABELS[name] || name} />
+                    <Tooltip cursor={{ fill: '#1e2433' }} contentStyle={tooltipStyle} />
+                    <ReferenceLine x={settings.psiThreshold} stroke="#ef4444" strokeDasharray="4 4" />
+                    <Bar dataKey="psi" name="PSI" radius={[0, 4, 4, 0]}>
+                      {report.metrics.map(m => (
+                        <Cell key={m.name} fill={m.drifted ? '#ef4444' : m.kind === 'score' ? '#8b5cf6' : '#3b82f6'} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Score histograms */}
+            <div className="bg-surface border border-surfaceHighlight rounded-2xl p-6 shadow-xl">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="font-semibold text-white flex items-center gap-2">
+                  <BarChart2 size={18} className="text-primary-500" />
+                  Score Distribution
+                </h3>
+                <select className={selectClass} value={scoreName} onChange={e => setScoreName(e.target.value)}>
+                  {sharedScores.map(s => <option key={s} value={s}>{SCORE_LABELS[s] || s}</option>)}
+                </select>
+              </div>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={histogram}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#1e2433" vertical={false} />
+                    <XAxis dataKey="bin" stroke="#94a3b8" fontSize={10} />
+                    <YAxis stroke="#94a3b8" fontSize={11} unit="%" />
+                    <Tooltip cursor={{ fill: '#1e2433' }} contentStyle={tooltipStyle} />
+                    <Legend />
+                    <Bar dataKey="reference" name="Reference" fill="#64748b" />
+                    <Bar dataKey="current" name="Current" fill="#8b5cf6" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+
+          {/* Metric table */}
+          <div className="bg-surface border border-surfaceHighlight rounded-2xl p-6 shadow-xl overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[10px] text-slate-500 uppercase tracking-wider border-b border-surfaceHighlight">
+                  <th className="py-2 pr-4">Column</th>
+                  <th className="py-2 pr-4">Kind</th>
+                  <th className="py-2 pr-4 text-right">PSI</th>
+                  <th className="py-2 pr-4 text-right">KS</th>
+                  <th className="py-2 pr-4 text-right">Reference mean</th>
+                  <th className="py-2 pr-4 text-right">Current mean</th>
+                  <th className="py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.metrics.map(m => (
+                  <tr key={m.name} className="border-b border-surfaceHighlight/50">
+                    <td className="py-2 pr-4 font-mono text-xs text-white">{SCORE_LABELS[m.name] || m.name}</td>
+                    <td className="py-2 pr-4 text-slate-400 text-xs">{m.kind}</td>
+                    <td className={`py-2 pr-4 text-right font-mono ${m.drifted ? 'text-red-400' : 'text-slate-300'}`}>{m.psi.toFixed(3)}</td>
+                    <td className="py-2 pr-4 text-right font-mono text-slate-300">{m.ks.toFixed(3)}</td>
+                    <td className="py-2 pr-4 text-right font-mono text-slate-400">{m.referenceMean.toLocaleString(undefined, { maximumFractionDigits: 3 })}</td>
+                    <td className="py-2 pr-4 text-right font-mono text-slate-400">{m.currentMean.toLocaleString(undefined, { maximumFractionDigits: 3 })}</td>
+                    <td className="py-2">
+                      {m.drifted
+                        ? <span className="px-1.5 py-0.5 rounded bg-red-500/20 text-red-400 text-[10px]">DRIFTED</span>
+                        : <span className="px-1.5 py-0.5 rounded bg-green-500/20 text-green-400 text-[10px]">STABLE</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,325 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, FileSpreadsheet, Save, Trash2, AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+import { ColumnMapping, IngestionProfile, MappedField, TimeFormat, Transaction } from '../types';
+import {
+  CsvPreview, DELIMITERS, MAPPED_FIELDS, TIME_FORMAT_LABELS,
+  columnValues, detectColumnType, detectTimeFormat, matchingProfile, missingColumns, readCsvPreview, splitPreview, suggestMapping
+} from '../services/columnMapping';
+import { createTransactionCsvReader } from '../services/csvImport';
+
+interface ImportWizardProps {
+  file: File | null; // the wizard is open while a file is waiting to be imported
+  profiles: IngestionProfile[];
+  baseCurrency: string;
+  onCancel: () => void;
+  onImport: (mapping: ColumnMapping) => void;
+  onSaveProfile: (name: string, mapping: ColumnMapping) => void;
+  onDeleteProfile: (id: string) => void;
+}
+
+const selectClass = 'w-full bg-background border border-surfaceHighlight rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-primary-500';
+const labelClass = 'block text-[10px] text-slate-500 uppercase tracking-wider mb-1';
+
+const PREVIEW_TABLE_ROWS = 8;
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ file, profiles, baseCurrency, onCancel, onImport, onSaveProfile, onDeleteProfile }) => {
+  const [preview, setPreview] = useState<CsvPreview | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [readError, setReadError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (!file) return;
+    setPreview(null);
+    setMapping(null);
+    setReadError(null);
+    readCsvPreview(file).then(detected => {
+      // A saved profile that fits this file's header wins over the detected mapping
+      const profile = matchingProfile(profiles, detected);
+      if (profile) {
+        setPreview(splitPreview(detected.text, profile.mapping.delimiter, detected.complete));
+        setMapping(profile.mapping);
+        setProfileName(profile.name);
+      } else {
+        setPreview(detected);
+        setMapping(suggestMapping(detected, detected.delimiter));
+        setProfileName('');
+      }
+    }).catch(e => setReadError((e as Error).message));
+  }, [file]);
+
+  const selectedProfile = profiles.find(p => p.name === profileName.trim());
+
+  // Runs the real reader over the sampled rows, so the user sees what the mapping produces
+  const sample = useMemo(() => {
+    if (!preview || !mapping) return null;
+    try {
+      const reader = createTransactionCsvReader(baseCurrency, mapping);
+      const transactions: Transaction[] = [...reader.push(preview.text), ...(preview.complete ? reader.end() : [])];
+      return { transactions, report: reader.report(), error: null };
+    } catch (e) {
+      return { transactions: [], report: null, error: (e as Error).message };
+    }
+  }, [preview, mapping, baseCurrency]);
+
+  if (!file) return null;
+
+  const columnTypes = preview && mapping
+    ? preview.headers.map(h => detectColumnType(columnValues(preview, h), mapping.decimalSeparator))
+    : [];
+  const fieldFor = (header: string) => MAPPED_FIELDS.find(f => mapping?.columns[f.field] === header);
+  const missing = preview && mapping ? missingColumns(mapping, preview.headers) : [];
+
+  const handleSelectProfile = (id: string) => {
+    if (!preview) return;
+    const profile = profiles.find(p => p.id === id);
+    if (profile) {
+      setPreview(splitPreview(preview.text, profile.mapping.delimiter, preview.complete));
+      setMapping(profile.mapping);
+      setProfileName(profile.name);
+    } else {
+      const delimiter = mapping?.delimiter ?? ',';
+      setMapping(suggestMapping(preview, delimiter));
+      setProfileName('');
+    }
+  };
+
+  const handleDelimiter = (delimiter: string) => {
+    if (!preview) return;
+    const split = splitPreview(preview.text, delimiter, preview.complete);
+    setPreview(split);
+    setMapping(suggestMapping(split, delimiter));
+  };
+
+  const handleColumn = (field: MappedField, header: string) => {
+    if (!mapping || !preview) return;
+    const columns = { ...mapping.columns };
+    if (header) columns[field] = header;
+    else delete columns[field];
+    setMapping({
+      ...mapping,
+      columns,
+      timeFormat: field === 'time' && header ? detectTimeFormat(columnValues(preview, header)) : mapping.timeFormat
+    });
+  };
+
+  const handleSaveProfile = () => {
+    if (!mapping || !profileName.trim()) return;
+    onSaveProfile(profileName.trim(), mapping);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const canImport = !!mapping?.columns.amount && missing.length === 0 && !sample?.error;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-background/80 backdrop-blur-md">
+      <div className="bg-surface border border-surfaceHighlight w-full max-w-6xl rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-surfaceHighlight flex justify-between items-center bg-surface">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                <FileSpreadsheet size={20} className="text-primary-500" /> Import {file.name}
+            </h2>
+            <p className="text-slate-400 text-xs mt-1">Map the file's columns onto transaction fields. Save the mapping as a profile to reuse it for files from the same system.</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-white p-2 hover:bg-surfaceHighlight rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {!preview || !mapping ? (
+          <div className="p-10 text-center text-slate-400 text-sm flex items-center justify-center gap-2">
+            {readError
+              ? <><AlertTriangle size={16} className="text-red-400" /> Could not read the file: {readError}</>
+              : <><Loader2 size={16} className="animate-spin" /> Reading preview...</>}
+          </div>
+        ) : (
+          <div className="flex-1 overflow-auto p-6 custom-scrollbar grid grid-cols-1 lg:grid-cols-[18rem_1fr] gap-6">
+            {/* Mapping */}
+            <div className="space-y-4">
+                <div>
+                    <label className={labelClass}>Profile</label>
+                    <div className="flex gap-2">
+                        <select className={selectClass} value={selectedProfile?.id ?? ''} onChange={e => handleSelectProfile(e.target.value)}>
+                            <option value="">Detected from headers</option>
+                            {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        {selectedProfile && (
+                            <button
+                                onClick={() => { onDeleteProfile(selectedProfile.id); setProfileName(''); }}
+                                className="px-2 bg-surfaceHighlight hover:bg-slate-700 text-slate-300 rounded-lg border border-slate-700 transition-colors"
+                                title="Delete this profile"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        )}
+                    </div>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className={labelClass}>Delimiter</label>
+                        <select className={selectClass} value={mapping.delimiter} onChange={e => handleDelimiter(e.target.value)}>
+                            {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Decimal mark</label>
+                        <select className={selectClass} value={mapping.decimalSeparator} onChange={e => setMapping({ ...mapping, decimalSeparator: e.target.value as ColumnMapping['decimalSeparator'] })}>
+                            <option value=".">Point (1,234.56)</option>
+                            <option value=",">Comma (1.234,56)</option>
+                        </select>
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    {MAPPED_FIELDS.map(({ field, label, required }) => (
+                        <div key={field} className="grid grid-cols-[7.5rem_1fr] items-center gap-2">
+                            <span className="text-xs text-slate-400">{label}{required && <span className="text-red-400"> *</span>}</span>
+                            <select className={selectClass} value={mapping.columns[field] ?? ''} onChange={e => handleColumn(field, e.target.value)}>
+                                <option value="">—</option>
+                                {preview.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                                {mapping.columns[field] && !preview.headers.includes(mapping.columns[field]!) && (
+                                    <option value={mapping.columns[field]}>{mapping.columns[field]} (missing)</option>
+                                )}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="space-y-3 pt-2 border-t border-surfaceHighlight">
+                    <div>
+                        <label className={labelClass}>Time column format</label>
+                        <select className={selectClass} value={mapping.timeFormat} onChange={e => setMapping({ ...mapping, timeFormat: e.target.value as TimeFormat })} disabled={!mapping.columns.time}>
+                            {(Object.keys(TIME_FORMAT_LABELS) as TimeFormat[]).map(f => <option key={f} value={f}>{TIME_FORMAT_LABELS[f]}</option>)}
+                        </select>
+                    </div>
+                    {(mapping.timeFormat === 'step-hours' || !mapping.columns.time) && (
+                        <div>
+                            <label className={labelClass}>{mapping.columns.time ? 'Step 0 is (UTC)' : 'Timestamp for every row (UTC)'}</label>
+                            <input
+                                type="datetime-local"
+                                className={selectClass}
+                                value={mapping.stepOrigin.slice(0, 16)}
+                                onChange={e => e.target.value && setMapping({ ...mapping, stepOrigin: `${e.target.value}:00.000Z` })}
+                            />
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Preview */}
+            <div className="space-y-6 min-w-0">
+                <div>
+                    <p className={labelClass}>File preview · first {Math.min(PREVIEW_TABLE_ROWS, preview.rows.length)} rows</p>
+                    <div className="overflow-x-auto custom-scrollbar rounded-xl border border-surfaceHighlight">
+                        <table className="text-xs whitespace-nowrap">
+                            <thead className="bg-background text-slate-400">
+                                <tr>
+                                    {preview.headers.map((h, i) => {
+                                        const mapped = fieldFor(h);
+                                        return (
+                                            <th key={`${h}-${i}`} className="px-3 py-2 text-left font-medium align-top">
+                                                <div className="text-slate-200">{h}</div>
+                                                <div className="text-[10px] font-normal text-slate-500">{columnTypes[i]}</div>
+                                                <div className={`text-[10px] font-normal ${mapped ? 'text-primary-400' : 'text-slate-600'}`}>{mapped ? `→ ${mapped.label}` : 'not mapped'}</div>
+                                            </th>
+                                        );
+                                    })}
+                                </tr>
+                            </thead>
+                            <tbody className="font-mono text-slate-300">
+                                {preview.rows.slice(0, PREVIEW_TABLE_ROWS).map((row, r) => (
+                                    <tr key={r} className="border-t border-surfaceHighlight">
+                                        {preview.headers.map((_, i) => <td key={i} className="px-3 py-1.5 max-w-[12rem] truncate">{row[i]}</td>)}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+
+                <div>
+                    <p className={labelClass}>As transactions</p>
+                    {missing.length > 0 && (
+                        <p className="text-[11px] text-red-400 flex items-center gap-1 mb-2"><AlertTriangle size={12} /> Not in this file: {missing.join(', ')}</p>
+                    )}
+                    {!mapping.columns.amount && (
+                        <p className="text-[11px] text-red-400 flex items-center gap-1 mb-2"><AlertTriangle size={12} /> Map a column to the amount to import.</p>
+                    )}
+                    {sample?.error && missing.length === 0 && mapping.columns.amount && (
+                        <p className="text-[11px] text-red-400 flex items-center gap-1 mb-2"><AlertTriangle size={12} /> {sample.error}</p>
+                    )}
+                    {sample?.report && (
+                        <>
+                            <p className="text-xs text-slate-400 mb-2">
+                                Sample: {sample.report.rowsRead} rows read · <span className={sample.report.rowsSkipped > 0 ? 'text-amber-400' : ''}>{sample.report.rowsSkipped} skipped</span>
+                                {Object.entries(sample.report.skipReasons).map(([reason, count]) => <span key={reason} className="text-amber-400"> · {reason}: {count}</span>)}
+                            </p>
+                            <div className="overflow-x-auto custom-scrollbar rounded-xl border border-surfaceHighlight">
+                                <table className="text-xs whitespace-nowrap w-full">
+                                    <thead className="bg-background text-slate-400">
+                                        <tr>
+                                            {['Timestamp', 'Step', 'Amount', 'Client', 'Counterparty', 'Category', 'Type', 'Location', 'Label'].map(h => (
+                                                <th key={h} className="px-3 py-2 text-left font-medium">{h}</th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody className="font-mono text-slate-300">
+                                        {sample.transactions.slice(0, 5).map(t => (
+                                            <tr key={t.id} className="border-t border-surfaceHighlight">
+                                                <td className="px-3 py-1.5">{t.timestamp.replace('T', ' ').slice(0, 19)}</td>
+                                                <td className="px-3 py-1.5">{t.step ?? '—'}</td>
+                                                <td className="px-3 py-1.5">{t.amount.toLocaleString()} {t.currency}</td>
+                                                <td className="px-3 py-1.5">{t.clientId}</td>
+                                                <td className="px-3 py-1.5">{t.counterpartyId ?? '—'}</td>
+                                                <td className="px-3 py-1.5">{t.category}</td>
+                                                <td className="px-3 py-1.5">{t.type}</td>
+                                                <td className="px-3 py-1.5">{t.location}</td>
+                                                <td className="px-3 py-1.5">{t.trueLabel ?? '—'}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+          </div>
+        )}
+
+        <div className="p-6 border-t border-surfaceHighlight bg-surface flex justify-between gap-4">
+            <div className="flex gap-2 items-center">
+                <input
+                    value={profileName}
+                    onChange={e => setProfileName(e.target.value)}
+                    placeholder="Profile name, e.g. Core banking"
+                    className="bg-background border border-surfaceHighlight rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-primary-500 w-64"
+                />
+                <button
+                    onClick={handleSaveProfile}
+                    disabled={!mapping || !profileName.trim()}
+                    className="px-3 py-2 bg-surfaceHighlight hover:bg-slate-700 text-slate-200 rounded-xl text-xs transition-colors border border-slate-700 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {saved ? <CheckCircle size={14} className="text-emerald-400" /> : <Save size={14} />}
+                    {selectedProfile ? 'Update Profile' : 'Save Profile'}
+                </button>
+            </div>
+            <div className="flex gap-2">
+                <button onClick={onCancel} className="px-4 py-2 bg-surfaceHighlight hover:bg-slate-700 text-slate-200 rounded-xl text-sm transition-colors border border-slate-700">
+                    Cancel
+                </button>
+                <button
+                    onClick={() => mapping && onImport(mapping)}
+                    disabled={!canImport}
+                    className="px-4 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-xl text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Import
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useRef, useState } from 'react';
+import { X, Boxes, UploadCloud, Download, RotateCcw, Rocket, Trash2, AlertTriangle } from 'lucide-react';
+import { ModelRegistry, ModelVersion } from '../types';
+import { parseModelFile, rollbackTarget, serializeModelVersion, versionLabel } from '../services/modelRegistry';
+
+interface ModelRegistryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  registry: ModelRegistry;
+  onPromote: (id: string) => void;
+  onRollback: () => void;
+  onDelete: (id: string) => void;
+  onImport: (version: ModelVersion) => void;
+  busy: boolean; // a pipeline job is running; changes to production wait until it ends
+}
+
+const secondaryButton = 'px-3 py-2 bg-surfaceHighlight hover:bg-slate-700 text-slate-200 rounded-xl text-xs transition-colors border border-slate-700 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed';
+
+const formatMetric = (value: number) => value.toFixed(3);
+
+export const ModelRegistryModal: React.FC<ModelRegistryModalProps> = ({ isOpen, onClose, registry, onPromote, onRollback, onDelete, onImport, busy }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const rollbackTo = rollbackTarget(registry);
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        onImport(parseModelFile(e.target?.result as string));
+        setImportError(null);
+      } catch (err) {
+        setImportError((err as Error).message);
+      }
+      if (fileRef.current) fileRef.current.value = '';
+    };
+    reader.readAsText(file);
+  };
+
+  const handleExport = (version: ModelVersion) => {
+    const link = document.createElement('a');
+    link.href = 'data:application/json;charset=utf-8,' + encodeURIComponent(serializeModelVersion(version));
+    link.download = `frauddetect-model-${versionLabel(version)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-background/80 backdrop-blur-md">
+      <div className="bg-surface border border-surfaceHighlight w-full max-w-4xl rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-surfaceHighlight flex justify-between items-center bg-surface">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                <Boxes size={20} className="text-primary-500" /> Model Registry
+            </h2>
+            <p className="text-slate-400 text-xs mt-1">Every upload registers the rules and Stage 3 models it trained. The production version scores all transactions.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-2 hover:bg-surfaceHighlight rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-3 custom-scrollbar">
+          {registry.versions.length === 0 && (
+            <div className="p-10 text-center text-slate-400 text-sm bg-background rounded-2xl border border-surfaceHighlight">
+                No versions yet. Upload a batch to train and register models, or import a model file.
+            </div>
+          )}
+          {[...registry.versions].reverse().map(version => {
+            const isProduction = version.id === registry.productionId;
+            const { metadata } = version;
+            return (
+              <div key={version.id} className={`p-4 rounded-2xl border bg-background ${isProduction ? 'border-primary-500/60' : 'border-surfaceHighlight'}`}>
+                <div className="flex items-center gap-3 mb-3">
+                    <span className="font-mono font-bold text-white">{versionLabel(version)}</span>
+                    {isProduction && <span className="px-1.5 py-0.5 rounded bg-primary-500/20 text-primary-400 text-[10px]">PRODUCTION</span>}
+                    {metadata.importedFrom && <span className="px-1.5 py-0.5 rounded bg-surfaceHighlight text-slate-400 text-[10px]">IMPORTED ({metadata.importedFrom})</span>}
+                    <span className="text-xs text-slate-500">{new Date(version.registeredAt).toLocaleString()}</span>
+                    <div className="ml-auto flex gap-2">
+                        <button onClick={() => handleExport(version)} className={secondaryButton} title="Download as a model file">
+                            <Download size={14} /> Export
+                        </button>
+                        {!isProduction && (
+                            <>
+                                <button onClick={() => onDelete(version.id)} className={secondaryButton} title="Remove from the registry">
+                                    <Trash2 size={14} />
+                                </button>
+                                <button onClick={() => onPromote(version.id)} disabled={busy} className="px-3 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-xl text-xs font-medium transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed">
+                                    <Rocket size={14} /> Promote
+                                </button>
+                            </>
+                        )}
+                    </div>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+                    <div>
+                        <p className="text-[10px] text-slate-500 uppercase tracking-wider mb-1">Dataset</p>
+                        <p className="text-slate-300 truncate" title={metadata.dataset}>{metadata.dataset}</p>
+                        <p className="text-slate-500">{metadata.rowCount.toLocaleString()} rows · trained {new Date(metadata.trainedAt).toLocaleDateString()}</p>
+                    </div>
+                    <div>
+                        <p className="text-[10px] text-slate-500 uppercase tracking-wider mb-1">Setup</p>
+                        <p className="text-slate-300">{version.rules.filter(r => r.enabled).length} of {version.rules.length} rules enabled</p>
+                        <p className="text-slate-500">{metadata.features.length} features · labels: {metadata.labelSource}{metadata.evaluation ? ` · ${metadata.evaluation}` : ''}</p>
+                    </div>
+                    <div className="md:col-span-2">
+                        <p className="text-[10px] text-slate-500 uppercase tracking-wider mb-1">ROC AUC / F1</p>
+                        <div className="flex gap-4 font-mono text-slate-300">
+                            <span>Rules {formatMetric(metadata.metrics.ruleBased.rocAuc)} / {formatMetric(metadata.metrics.ruleBased.f1Score)}</span>
+                            <span>IF {formatMetric(metadata.metrics.isolationForest.rocAuc)} / {formatMetric(metadata.metrics.isolationForest.f1Score)}</span>
+                            <span>LR {formatMetric(metadata.metrics.logisticRegression.rocAuc)} / {formatMetric(metadata.metrics.logisticRegression.f1Score)}</span>
+                        </div>
+                    </div>
+                </div>
+              </div>
+            );
+          })}
+          {importError && (
+            <p className="text-[11px] text-red-400 flex items-center gap-1"><AlertTriangle size={12} /> {importError}</p>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-surfaceHighlight bg-surface flex justify-between">
+            <div className="flex gap-2">
+                <input type="file" ref={fileRef} onChange={handleImport} accept=".json" className="hidden" />
+                <button onClick={() => fileRef.current?.click()} disabled={busy} className={secondaryButton}>
+                    <UploadCloud size={14} /> Import Model File
+                </button>
+                <button
+                    onClick={onRollback}
+                    disabled={!rollbackTo || busy}
+                    title={rollbackTo ? `Put ${versionLabel(rollbackTo)} back into production` : 'No earlier production version'}
+                    className={secondaryButton}
+                >
+                    <RotateCcw size={14} /> Roll Back{rollbackTo ? ` to ${versionLabel(rollbackTo)}` : ''}
+                </button>
+            </div>
+            <button onClick={onClose} className="px-4 py-2 bg-surfaceHighlight hover:bg-slate-700 text-slate-200 rounded-xl text-sm transition-colors border border-slate-700">
+                Done
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
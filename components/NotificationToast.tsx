@@ -1,6 +1,7 @@
 import React, { useEffect } from 'react';
 import { ShieldAlert, X, ArrowRight, Bell } from 'lucide-react';
 import { EnrichedTransaction } from '../types';
+import { formatAmount } from '../services/fx';
 
 interface NotificationToastProps {
   transaction: EnrichedTransaction | null;
@@ -44,10 +45,10 @@ export const NotificationToast: React.FC<NotificationToastProps> = ({ transactio
         <div className="mt-3 bg-slate-800/50 p-2 rounded border border-slate-700/50">
             <div className="flex justify-between text-xs mb-1">
                 <span className="text-slate-500">Amount:</span>
-                <span className="text-white font-mono font-bold">${transaction.amount.toLocaleString()}</span>
+                <span className="text-white font-mono font-bold">{formatAmount(transaction.amount, transaction.currency)}</span>
             </div>
             <div className="flex justify-between text-xs">
-                <span className="text-slate-500">Risk Score:</span>
+                <span className="text-slate-500">{transaction.decisionCalibrated ? 'Fraud Probability:' : 'Risk Score:'}</span>
                 <span className="text-red-400 font-bold">{(transaction.fraudScore * 100).toFixed(0)}%</span>
             </div>
         </div>
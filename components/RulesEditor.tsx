@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Trash2, Save, RotateCcw, CheckCircle, SlidersHorizontal, AlertTriangle, GitCompare } from 'lucide-react';
+import { FraudRule } from '../types';
+import { DEFAULT_RULES } from '../constants';
+import { RULE_FIELDS, RULE_FUNCTIONS, validateRuleCondition } from '../services/ruleEngine';
+
+interface RulesEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rules: FraudRule[];
+  onSave: (rules: FraudRule[]) => void;
+  onBacktest: (candidate: FraudRule[]) => void;
+  alertThreshold: number;
+  busy: boolean; // a pipeline job is running; saving waits until it ends
+}
+
+export const RulesEditor: React.FC<RulesEditorProps> = ({ isOpen, onClose, rules, onSave, onBacktest, alertThreshold, busy }) => {
+  const [draft, setDraft] = useState<FraudRule[]>(rules);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setDraft(rules);
+  }, [rules, isOpen]);
+
+  if (!isOpen) return null;
+
+  const errors = draft.map(r => validateRuleCondition(r.condition));
+  const skipped = rules.filter(r => r.compileError);
+  const hasErrors = errors.some(e => e !== null) || draft.some(r => !r.reasonCode.trim());
+
+  const updateRule = (index: number, patch: Partial<FraudRule>) => {
+    setDraft(prev => prev.map((r, i) => i === index ? { ...r, ...patch } : r));
+  };
+
+  const addRule = () => {
+    setDraft(prev => [...prev, {
+      id: `rule-${Date.now()}`,
+      name: 'New Rule',
+      condition: 'amount > 10000',
+      weight: 0.1,
+      reasonCode: 'CUSTOM',
+      enabled: false
+    }]);
+  };
+
+  const handleSave = () => {
+    if (hasErrors) return;
+    onSave(draft);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-background/80 backdrop-blur-md">
+      <div className="bg-surface border border-surfaceHighlight w-full max-w-5xl rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-surfaceHighlight flex justify-between items-center bg-surface">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                <SlidersHorizontal size={20} className="text-primary-500" /> Detection Rules
+            </h2>
+            <p className="text-slate-400 text-xs mt-1">Rule weights add up to the rule score (capped at 1.0). Scores ≥ {alertThreshold} are flagged.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-2 hover:bg-surfaceHighlight rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-3 custom-scrollbar">
+          {skipped.length > 0 && (
+            <div className="p-3 rounded-xl border border-red-500/40 bg-red-500/10 text-xs text-red-300 flex items-start gap-2">
+              <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+              <span>
+                Scoring is skipping {skipped.length === 1 ? 'this rule' : 'these rules'} because the condition does not compile: {skipped.map(r => r.name).join(', ')}. Fix or delete {skipped.length === 1 ? 'it' : 'them'} and save.
+              </span>
+            </div>
+          )}
+          {draft.map((rule, index) => (
+            <div key={rule.id} className={`p-4 rounded-2xl border bg-background ${errors[index] ? 'border-red-500/50' : 'border-surfaceHighlight'} ${rule.enabled ? '' : 'opacity-60'}`}>
+                <div className="flex items-center gap-3 mb-3">
+                    <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+                        className="w-4 h-4 accent-violet-500"
+                        title="Enabled"
+                    />
+                    <input
+                        type="text"
+                        value={rule.name}
+                        onChange={(e) => updateRule(index, { name: e.target.value })}
+                        className="flex-1 bg-transparent text-white font-semibold text-sm focus:outline-none border-b border-transparent focus:border-primary-500"
+                    />
+                    <label className="text-xs text-slate-500">Weight</label>
+                    <input
+                        type="number"
+                        step="0.05"
+                        value={rule.weight}
+                        onChange={(e) => updateRule(index, { weight: parseFloat(e.target.value) || 0 })}
+                        className="w-20 bg-surface border border-surfaceHighlight text-white rounded-lg px-2 py-1 text-sm focus:border-primary-500 focus:outline-none"
+                    />
+                    <input
+                        type="text"
+                        value={rule.reasonCode}
+                        onChange={(e) => updateRule(index, { reasonCode: e.target.value.toUpperCase() })}
+                        placeholder="REASON_CODE"
+                        className="w-40 bg-surface border border-surfaceHighlight text-primary-400 font-mono rounded-lg px-2 py-1 text-xs focus:border-primary-500 focus:outline-none"
+                    />
+                    <button onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))} className="text-slate-500 hover:text-red-400 p-1 transition-colors" title="Delete rule">
+                        <Trash2 size={16} />
+                    </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                        <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Condition</label>
+                        <input
+                            type="text"
+                            value={rule.condition}
+                            onChange={(e) => updateRule(index, { condition: e.target.value })}
+                            className="w-full bg-surface border border-surfaceHighlight text-white font-mono rounded-lg px-3 py-2 text-xs focus:border-primary-500 focus:outline-none"
+                        />
+                        {errors[index] && (
+                            <p className="text-[11px] text-red-400 mt-1 flex items-center gap-1"><AlertTriangle size={12} /> {errors[index]}</p>
+                        )}
+                    </div>
+                    <div>
+                        <label className="block text-[10px] text-slate-500 uppercase tracking-wider mb-1">Trigger Label (optional, supports {'{field}'})</label>
+                        <input
+                            type="text"
+                            value={rule.label || ''}
+                            onChange={(e) => updateRule(index, { label: e.target.value || undefined })}
+                            placeholder={rule.name}
+                            className="w-full bg-surface border border-surfaceHighlight text-slate-300 rounded-lg px-3 py-2 text-xs focus:border-primary-500 focus:outline-none placeholder:text-slate-600"
+                        />
+                    </div>
+                </div>
+            </div>
+          ))}
+
+          <button onClick={addRule} className="w-full py-3 rounded-2xl border border-dashed border-slate-700 text-slate-400 hover:text-white hover:border-primary-500 text-sm flex items-center justify-center gap-2 transition-colors">
+            <Plus size={16} /> Add Rule
+          </button>
+
+          <div className="bg-background p-4 rounded-2xl border border-surfaceHighlight text-xs text-slate-400">
+            <p className="mb-2 text-slate-300 font-medium">Available fields</p>
+            <div className="flex flex-wrap gap-1.5 mb-3">
+                {RULE_FIELDS.map(f => <code key={f} className="px-1.5 py-0.5 bg-surfaceHighlight rounded text-primary-400">{f}</code>)}
+            </div>
+            <p>
+                Functions: {RULE_FUNCTIONS.join(', ')} · Operators: + - * / % == != &lt; &lt;= &gt; &gt;= and or not · Strings in quotes, e.g. <code className="text-primary-400">category == 'TRANSFER'</code>
+            </p>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-surfaceHighlight bg-surface flex justify-between">
+            <button onClick={() => setDraft(DEFAULT_RULES)} className="px-4 py-2 bg-surfaceHighlight hover:bg-slate-700 text-slate-200 rounded-xl text-sm transition-colors border border-slate-700 flex items-center gap-2">
+                <RotateCcw size={16} /> Reset to Defaults
+            </button>
+            <div className="flex gap-3">
+                <button
+                    onClick={() => onBacktest(draft)}
+                    disabled={hasErrors}
+                    title="Replay the current batch with this draft and compare against the saved rules"
+                    className="px-4 py-2 bg-surfaceHighlight hover:bg-slate-700 text-slate-200 rounded-xl text-sm transition-colors border border-slate-700 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <GitCompare size={16} /> Backtest Draft
+                </button>
+                <button
+                    onClick={handleSave}
+                    disabled={hasErrors || busy}
+                    className={`px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                        saved ? 'bg-green-600 text-white' : 'bg-primary-600 hover:bg-primary-500 text-white'
+                    }`}
+                >
+                    {saved ? <CheckCircle size={16} /> : <Save size={16} />}
+                    {saved ? 'Saved & Applied' : 'Save & Apply'}
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,33 +1,89 @@
-import React, { useState, useEffect } from 'react';
-import { X, Key, CheckCircle, Save } from 'lucide-react';
-import { User } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Key, CheckCircle, Save, Coins, UploadCloud, RotateCcw, AlertTriangle, ShieldCheck } from 'lucide-react';
+import { DataQualityAction, DataQualityPolicy, FxSettings, User } from '../types';
+import { fxCurrencies, parseFxRates } from '../services/fx';
+import { DEFAULT_FX_SETTINGS } from '../services/fxStore';
+import { DATA_QUALITY_ACTION_LABELS, DATA_QUALITY_CHECKS, DEFAULT_DATA_QUALITY_POLICY } from '../services/dataQuality';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   user: User | null;
+  fxSettings: FxSettings;
+  onSaveFx: (settings: FxSettings) => void;
+  dataQualityPolicy: DataQualityPolicy;
+  onSaveDataQualityPolicy: (policy: DataQualityPolicy) => void;
+  busy: boolean; // a pipeline job is running; FX changes wait until it ends
 }
 
-export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, user }) => {
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, user, fxSettings, onSaveFx, dataQualityPolicy, onSaveDataQualityPolicy, busy }) => {
   const [apiKey, setApiKey] = useState('');
   const [saved, setSaved] = useState(false);
+  const [fxDraft, setFxDraft] = useState<FxSettings>(fxSettings);
+  const [fxError, setFxError] = useState<string | null>(null);
+  const [fxSaved, setFxSaved] = useState(false);
+  const fxFileRef = useRef<HTMLInputElement>(null);
+  const [qualityDraft, setQualityDraft] = useState<DataQualityPolicy>(dataQualityPolicy);
+  const [qualitySaved, setQualitySaved] = useState(false);
 
   useEffect(() => {
     const storedKey = localStorage.getItem('GEMINI_API_KEY');
     if (storedKey) setApiKey(storedKey);
   }, [isOpen]);
 
+  useEffect(() => {
+    setFxDraft(fxSettings);
+    setFxError(null);
+  }, [fxSettings, isOpen]);
+
+  useEffect(() => {
+    setQualityDraft(dataQualityPolicy);
+  }, [dataQualityPolicy, isOpen]);
+
   const handleSave = () => {
     localStorage.setItem('GEMINI_API_KEY', apiKey);
     setSaved(true);
     setTimeout(() => setSaved(false), 2000);
   };
 
+  const handleImportRates = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const table = parseFxRates(e.target?.result as string, file.name);
+        const currencies = fxCurrencies(table);
+        setFxDraft(prev => ({
+          table,
+          baseCurrency: currencies.includes(prev.baseCurrency) ? prev.baseCurrency : table.quoteCurrency
+        }));
+        setFxError(null);
+      } catch (err) {
+        setFxError((err as Error).message);
+      }
+      if (fxFileRef.current) fxFileRef.current.value = '';
+    };
+    reader.readAsText(file);
+  };
+
+  const handleSaveFx = () => {
+    onSaveFx(fxDraft);
+    setFxSaved(true);
+    setTimeout(() => setFxSaved(false), 2000);
+  };
+
+  const handleSaveQuality = () => {
+    onSaveDataQualityPolicy(qualityDraft);
+    setQualitySaved(true);
+    setTimeout(() => setQualitySaved(false), 2000);
+  };
+
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-background/80 backdrop-blur-md">
-      <div className="bg-surface border border-surfaceHighlight w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden">
+      <div className="bg-surface border border-surfaceHighlight w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
         <div className="p-6 border-b border-surfaceHighlight flex justify-between items-center bg-surface">
           <h2 className="text-xl font-bold text-white">Platform Settings</h2>
           <button onClick={onClose} className="text-slate-400 hover:text-white p-2 hover:bg-surfaceHighlight rounded-full transition-colors">
@@ -35,7 +91,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, u
           </button>
         </div>
 
-        <div className="p-6 space-y-6">
+        <div className="p-6 space-y-6 overflow-auto custom-scrollbar">
           <div className="space-y-4">
              <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">User Profile</h3>
              <div className="flex items-center gap-4 p-4 bg-background rounded-2xl border border-surfaceHighlight">
@@ -77,6 +133,119 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, u
                 </p>
              </div>
           </div>
+
+          <div className="space-y-4">
+             <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider flex items-center gap-2">
+                <Coins size={16} /> Currency
+             </h3>
+             <div className="bg-background p-4 rounded-2xl border border-surfaceHighlight space-y-3">
+                <div>
+                    <label className="block text-xs text-slate-400 mb-2">Base Reporting Currency</label>
+                    <select
+                        value={fxDraft.baseCurrency}
+                        onChange={(e) => setFxDraft(prev => ({ ...prev, baseCurrency: e.target.value }))}
+                        className="w-full bg-surface border border-surfaceHighlight text-white rounded-xl px-3 py-2 text-sm focus:border-primary-500 focus:outline-none"
+                    >
+                        {fxCurrencies(fxDraft.table).map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <p className="text-xs text-slate-400 mb-2">
+                        FX Rate Table · quoted in {fxDraft.table.quoteCurrency} · {fxDraft.table.snapshots.length} version(s)
+                    </p>
+                    <div className="max-h-24 overflow-auto custom-scrollbar text-[11px] font-mono text-slate-400 space-y-0.5">
+                        {fxDraft.table.snapshots.map(s => (
+                            <p key={s.effectiveDate}>from {s.effectiveDate}: {Object.keys(s.rates).length} currencies</p>
+                        ))}
+                    </div>
+                </div>
+                {fxError && (
+                    <p className="text-[11px] text-red-400 flex items-center gap-1"><AlertTriangle size={12} /> {fxError}</p>
+                )}
+                <div className="flex gap-2">
+                    <input type="file" ref={fxFileRef} onChange={handleImportRates} accept=".csv,.json" className="hidden" />
+                    <button
+                        onClick={() => fxFileRef.current?.click()}
+                        className="px-3 py-2 bg-surfaceHighlight hover:bg-slate-700 text-slate-200 rounded-xl text-xs transition-colors border border-slate-700 flex items-center gap-2"
+                    >
+                        <UploadCloud size={14} /> Import Rates
+                    </button>
+                    <button
+                        onClick={() => setFxDraft(DEFAULT_FX_SETTINGS)}
+                        className="px-3 py-2 bg-surfaceHighlight hover:bg-slate-700 text-slate-200 rounded-xl text-xs transition-colors border border-slate-700 flex items-center gap-2"
+                    >
+                        <RotateCcw size={14} /> Defaults
+                    </button>
+                    <button
+                        onClick={handleSaveFx}
+                        disabled={busy}
+                        className={`ml-auto px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                            fxSaved ? 'bg-green-600 text-white' : 'bg-primary-600 hover:bg-primary-500 text-white'
+                        }`}
+                    >
+                        {fxSaved ? <CheckCircle size={16} /> : <Save size={16} />}
+                        {fxSaved ? 'Applied' : 'Apply'}
+                    </button>
+                </div>
+                <p className="text-[10px] text-slate-500">
+                    CSV (date,currency,rate[,quote]) or JSON. A rate is the value of one unit in the quote currency; each transaction uses the latest version on or before its date.
+                </p>
+             </div>
+          </div>
+
+          <div className="space-y-4">
+             <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider flex items-center gap-2">
+                <ShieldCheck size={16} /> Data Quality
+             </h3>
+             <div className="bg-background p-4 rounded-2xl border border-surfaceHighlight space-y-3">
+                {DATA_QUALITY_CHECKS.map(({ check, label, fix, actions }) => (
+                    <div key={check} className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                            <p className="text-xs text-slate-300">{label}</p>
+                            {fix && <p className="text-[10px] text-slate-500 truncate" title={fix}>Fix: {fix}</p>}
+                        </div>
+                        <select
+                            value={qualityDraft.actions[check]}
+                            onChange={(e) => setQualityDraft(prev => ({ ...prev, actions: { ...prev.actions, [check]: e.target.value as DataQualityAction } }))}
+                            className="w-32 shrink-0 bg-surface border border-surfaceHighlight text-white rounded-xl px-3 py-1.5 text-xs focus:border-primary-500 focus:outline-none"
+                        >
+                            {actions.map(a => <option key={a} value={a}>{DATA_QUALITY_ACTION_LABELS[a]}</option>)}
+                        </select>
+                    </div>
+                ))}
+                <div className="flex items-center justify-between gap-3">
+                    <label className="text-xs text-slate-300">Outlier threshold (robust z of log amount)</label>
+                    <input
+                        type="number"
+                        min={1}
+                        step={0.5}
+                        value={qualityDraft.outlierThreshold}
+                        onChange={(e) => setQualityDraft(prev => ({ ...prev, outlierThreshold: Math.max(1, Number(e.target.value) || 1) }))}
+                        className="w-32 shrink-0 bg-surface border border-surfaceHighlight text-white rounded-xl px-3 py-1.5 text-xs focus:border-primary-500 focus:outline-none"
+                    />
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => setQualityDraft(DEFAULT_DATA_QUALITY_POLICY)}
+                        className="px-3 py-2 bg-surfaceHighlight hover:bg-slate-700 text-slate-200 rounded-xl text-xs transition-colors border border-slate-700 flex items-center gap-2"
+                    >
+                        <RotateCcw size={14} /> Defaults
+                    </button>
+                    <button
+                        onClick={handleSaveQuality}
+                        className={`ml-auto px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 transition-all ${
+                            qualitySaved ? 'bg-green-600 text-white' : 'bg-primary-600 hover:bg-primary-500 text-white'
+                        }`}
+                    >
+                        {qualitySaved ? <CheckCircle size={16} /> : <Save size={16} />}
+                        {qualitySaved ? 'Applied' : 'Apply'}
+                    </button>
+                </div>
+                <p className="text-[10px] text-slate-500">
+                    Applies from the next upload. Quarantined rows are left out of scoring but listed in the analysis report's Data Quality tab and its exports; rejected rows are only counted.
+                </p>
+             </div>
+          </div>
         </div>
 
         <div className="p-6 border-t border-surfaceHighlight bg-surface flex justify-end">
@@ -2,11 +2,13 @@ import React, { useMemo, useRef, useState, useEffect } from 'react';
 import { EnrichedTransaction } from '../types';
 import { ShieldAlert, CheckCircle, TrendingUp, TrendingDown } from 'lucide-react';
 import { AreaChart, Area, ResponsiveContainer } from 'recharts';
+import { formatAmount, formatBaseAmount } from '../services/fx';
 
 interface TransactionListProps {
   transactions: EnrichedTransaction[];
   onSelect: (t: EnrichedTransaction) => void;
   externalSearch?: string;
+  baseCurrency: string;
 }
 
 // Mini Sparkline Component
@@ -35,7 +37,7 @@ const Sparkline = ({ data, color }: { data: number[], color: string }) => {
     );
 }
 
-export const TransactionList: React.FC<TransactionListProps> = ({ transactions, onSelect, externalSearch = '' }) => {
+export const TransactionList: React.FC<TransactionListProps> = ({ transactions, onSelect, externalSearch = '', baseCurrency }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [scrollTop, setScrollTop] = useState(0);
   const [containerHeight, setContainerHeight] = useState(800);
@@ -135,7 +137,8 @@ export const TransactionList: React.FC<TransactionListProps> = ({ transactions,
                   </div>
                 </td>
                 <td className="py-3 px-4 border-y border-transparent group-hover:border-slate-700/50 whitespace-nowrap">
-                    <p className="text-white font-medium">${txn.amount.toLocaleString()}</p>
+                    <p className="text-white font-medium">{formatAmount(txn.amount, txn.currency)}</p>
+                    {formatBaseAmount(txn, baseCurrency) && <p className="text-[10px] text-slate-500 font-mono">{formatBaseAmount(txn, baseCurrency)}</p>}
                     <p className="text-xs text-slate-500">{new Date(txn.timestamp).toLocaleTimeString()}</p>
                 </td>
                 <td className="py-3 px-4 border-y border-transparent group-hover:border-slate-700/50">
@@ -1,4 +1,4 @@
-import { Transaction, TransactionType } from './types';
+import { FraudRule, FxRateTable, Transaction, TransactionType } from './types';
 
 // Used for the "Demo Data" button
 export const MOCK_TRANSACTIONS: Transaction[] = [
@@ -56,3 +56,174 @@ export const MOCK_TRANSACTIONS: Transaction[] = [
 
 export const CATEGORIES = ['Groceries', 'Electronics', 'Travel', 'Utilities', 'Entertainment', 'Transfer', 'Withdrawal'];
 export const LOCATIONS = ['New York, US', 'London, UK', 'Paris, FR', 'Tokyo, JP', 'Lagos, NG', 'Moscow, RU', 'Berlin, DE'];
+
+// Baseline rule set (Stage 3.3 of the case study). Analysts edit a copy of this in the Rules editor.
+export const DEFAULT_RULES: FraudRule[] = [
+  {
+    id: 'rule-zscore',
+    name: 'High Z-Score',
+    condition: 'abs(amount_zscore) > 3',
+    weight: 0.3,
+    reasonCode: 'AMT_ZSCORE',
+    label: 'Z-Score Anomaly ({amount_zscore}σ)',
+    enabled: true
+  },
+  {
+    id: 'rule-client-max',
+    name: 'Max Amount for Client',
+    condition: 'baseAmount == client_amount_max and client_transaction_count > 1',
+    weight: 0.25,
+    reasonCode: 'AMT_CLIENT_MAX',
+    enabled: true
+  },
+  {
+    id: 'rule-rapid',
+    name: 'Rapid Sequence',
+    condition: 'is_rapid_transaction',
+    weight: 0.2,
+    reasonCode: 'VEL_RAPID',
+    label: 'Rapid Sequence (Same Step)',
+    enabled: true
+  },
+  {
+    id: 'rule-rolling-dev',
+    name: 'Rolling Deviation',
+    condition: 'abs(amount_rolling_dev) > 2',
+    weight: 0.2,
+    reasonCode: 'AMT_ROLLING_DEV',
+    label: 'Rolling Deviation ({amount_rolling_dev}σ)',
+    enabled: true
+  },
+  {
+    id: 'rule-impossible-travel',
+    name: 'Impossible Travel',
+    // Faster than a commercial flight over a distance that rules out a neighbouring city
+    condition: 'travel_speed_kmh > 900 and distance_from_prev_km > 500',
+    weight: 0.4,
+    reasonCode: 'GEO_IMPOSSIBLE_TRAVEL',
+    label: 'Impossible Travel ({distance_from_prev_km} km at {travel_speed_kmh} km/h)',
+    enabled: true
+  },
+  {
+    id: 'rule-new-category',
+    name: 'Category Mismatch',
+    // Only meaningful once the client has an established profile
+    condition: 'is_new_category and client_transaction_count >= 5',
+    weight: 0.15,
+    reasonCode: 'CAT_NEW_FOR_CLIENT',
+    label: 'New Category for Client ({category})',
+    enabled: true
+  },
+  {
+    id: 'rule-mule',
+    name: 'Mule Account',
+    // Counterparty collects from several unrelated senders and forwards most of it within a day
+    condition: 'dest_is_mule_suspect or orig_is_mule_suspect',
+    weight: 0.35,
+    reasonCode: 'GRAPH_MULE_SUSPECT',
+    label: 'Mule Account Suspected ({counterpartyId})',
+    enabled: true
+  },
+  {
+    id: 'rule-short-cycle',
+    name: 'Circular Flow',
+    condition: 'in_short_cycle',
+    weight: 0.2,
+    reasonCode: 'GRAPH_SHORT_CYCLE',
+    label: 'Funds Returning in a Loop',
+    enabled: true
+  },
+  {
+    id: 'rule-account-emptied',
+    name: 'Account Emptied',
+    // In PaySim, fraud is a TRANSFER that drains the account, usually followed by a CASH_OUT
+    condition: "is_account_emptied and (category == 'TRANSFER' or category == 'CASH_OUT')",
+    weight: 0.3,
+    reasonCode: 'BAL_ACCOUNT_EMPTIED',
+    label: 'Account Emptied by {category}',
+    enabled: true
+  },
+  {
+    id: 'rule-zero-balance-dest',
+    name: 'Zero-Balance Destination',
+    condition: "is_zero_balance_dest and (category == 'TRANSFER' or category == 'CASH_OUT')",
+    weight: 0.2,
+    reasonCode: 'BAL_ZERO_DEST',
+    label: 'Destination Balance Never Moves',
+    enabled: true
+  },
+  {
+    id: 'rule-round-amount',
+    name: 'Round Amount',
+    condition: 'baseAmount > 1000 and amount % 100 == 0',
+    weight: 0.1,
+    reasonCode: 'AMT_ROUND',
+    enabled: true
+  }
+];
+
+// Offline geocoding table (city centre coordinates) used for geo-velocity features.
+// Keys use the "City, CC" format of Transaction.location; covers every entry in LOCATIONS.
+export const CITY_COORDINATES: Record<string, { lat: number; lon: number }> = {
+  'New York, US': { lat: 40.7128, lon: -74.0060 },
+  'Los Angeles, US': { lat: 34.0522, lon: -118.2437 },
+  'Chicago, US': { lat: 41.8781, lon: -87.6298 },
+  'Miami, US': { lat: 25.7617, lon: -80.1918 },
+  'San Francisco, US': { lat: 37.7749, lon: -122.4194 },
+  'Toronto, CA': { lat: 43.6532, lon: -79.3832 },
+  'Mexico City, MX': { lat: 19.4326, lon: -99.1332 },
+  'Sao Paulo, BR': { lat: -23.5505, lon: -46.6333 },
+  'Buenos Aires, AR': { lat: -34.6037, lon: -58.3816 },
+  'London, UK': { lat: 51.5074, lon: -0.1278 },
+  'Dublin, IE': { lat: 53.3498, lon: -6.2603 },
+  'Paris, FR': { lat: 48.8566, lon: 2.3522 },
+  'Berlin, DE': { lat: 52.5200, lon: 13.4050 },
+  'Frankfurt, DE': { lat: 50.1109, lon: 8.6821 },
+  'Amsterdam, NL': { lat: 52.3676, lon: 4.9041 },
+  'Madrid, ES': { lat: 40.4168, lon: -3.7038 },
+  'Rome, IT': { lat: 41.9028, lon: 12.4964 },
+  'Zurich, CH': { lat: 47.3769, lon: 8.5417 },
+  'Warsaw, PL': { lat: 52.2297, lon: 21.0122 },
+  'Moscow, RU': { lat: 55.7558, lon: 37.6173 },
+  'Istanbul, TR': { lat: 41.0082, lon: 28.9784 },
+  'Dubai, AE': { lat: 25.2048, lon: 55.2708 },
+  'Lagos, NG': { lat: 6.5244, lon: 3.3792 },
+  'Nairobi, KE': { lat: -1.2921, lon: 36.8219 },
+  'Johannesburg, ZA': { lat: -26.2041, lon: 28.0473 },
+  'Cairo, EG': { lat: 30.0444, lon: 31.2357 },
+  'Mumbai, IN': { lat: 19.0760, lon: 72.8777 },
+  'Singapore, SG': { lat: 1.3521, lon: 103.8198 },
+  'Hong Kong, HK': { lat: 22.3193, lon: 114.1694 },
+  'Shanghai, CN': { lat: 31.2304, lon: 121.4737 },
+  'Seoul, KR': { lat: 37.5665, lon: 126.9780 },
+  'Tokyo, JP': { lat: 35.6762, lon: 139.6503 },
+  'Sydney, AU': { lat: -33.8688, lon: 151.2093 }
+};
+
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+// Built-in FX snapshots (approximate year-start rates), used until an analyst imports a table
+export const DEFAULT_FX_TABLE: FxRateTable = {
+  quoteCurrency: 'USD',
+  snapshots: [
+    {
+      effectiveDate: '2023-01-01',
+      rates: {
+        USD: 1, EUR: 1.07, GBP: 1.21, JPY: 0.0076, CHF: 1.08, CAD: 0.74, AUD: 0.68, NGN: 0.0022,
+        RUB: 0.0136, SGD: 0.75, HKD: 0.128, CNY: 0.145, KRW: 0.00079, INR: 0.0121, BRL: 0.19, MXN: 0.051
+      }
+    },
+    {
+      effectiveDate: '2024-01-01',
+      rates: {
+        USD: 1, EUR: 1.1, GBP: 1.27, JPY: 0.0071, CHF: 1.19, CAD: 0.75, AUD: 0.68, NGN: 0.0011,
+        RUB: 0.0112, SGD: 0.76, HKD: 0.128, CNY: 0.141, KRW: 0.00077, INR: 0.012, BRL: 0.206, MXN: 0.059
+      }
+    }
+  ]
+};
+
+// Local currency by the country code of a "City, CC" location (used by the live simulator)
+export const COUNTRY_CURRENCIES: Record<string, string> = {
+  US: 'USD', UK: 'GBP', FR: 'EUR', DE: 'EUR', JP: 'JPY', NG: 'NGN', RU: 'RUB'
+};
@@ -0,0 +1,47 @@
+import { Attribution, EnrichedTransaction, ScoreAttributions, ScoringModels } from '../types';
+import { explainIsolationForest, scoreIsolationForest } from './isolationForest';
+import { explainLogisticRegression, predictLogisticRegression } from './logisticRegression';
+import { toFeatureMatrix } from './modelFeatures';
+
+const round4 = (v: number) => parseFloat(v.toFixed(4));
+
+const byMagnitude = (a: Attribution, b: Attribution) => Math.abs(b.contribution) - Math.abs(a.contribution);
+
+/**
+ * Breaks one transaction's scores down into their drivers:
+ * - rules: the weight each fired rule added (the sum is capped at 1), as recorded at scoring
+ *   time; re-evaluating the stored, rounded features could fire different rules
+ * - logistic regression: each feature's log-odds contribution
+ * - isolation forest: how much each feature shortened the isolation path
+ * The learned models are only explained once Stage 3 has fitted them.
+ */
+export const explainTransaction = (txn: EnrichedTransaction, models: ScoringModels | null): ScoreAttributions => {
+  const hits = txn.ruleHits ?? [];
+  const ruleContributions = hits.map(c => ({ ...c, contribution: round4(c.contribution) }));
+  const ruleSum = hits.reduce((acc, c) => acc + c.contribution, 0);
+  if (ruleSum > 1) ruleContributions.push({ name: 'Score cap', contribution: round4(1 - ruleSum) });
+
+  const result: ScoreAttributions = { rules: { contributions: ruleContributions, score: round4(Math.min(Math.max(ruleSum, 0), 1)) } };
+  if (!models) return result;
+
+  const row = toFeatureMatrix([txn])[0];
+  result.logisticRegression = {
+    bias: round4(models.logisticRegression.bias),
+    contributions: explainLogisticRegression(models.logisticRegression, row)
+      .map(c => ({ ...c, contribution: round4(c.contribution) }))
+      .sort(byMagnitude),
+    score: round4(predictLogisticRegression(models.logisticRegression, row))
+  };
+
+  const isolation = explainIsolationForest(models.isolationForest, row);
+  result.isolationForest = {
+    expectedPath: round4(isolation.expectedPath),
+    pathLength: round4(isolation.pathLength),
+    contributions: isolation.contributions
+      .filter(c => c.contribution !== 0)
+      .map(c => ({ ...c, contribution: round4(c.contribution) }))
+      .sort((a, b) => b.contribution - a.contribution),
+    score: round4(scoreIsolationForest(models.isolationForest, row))
+  };
+  return result;
+};
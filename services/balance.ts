@@ -0,0 +1,29 @@
+import { EngineeredFeatures, Transaction } from '../types';
+
+// Differences below a cent are float noise from the CSV, not a real mismatch
+const BALANCE_TOLERANCE = 0.01;
+
+export type BalanceFeatures = Pick<EngineeredFeatures,
+  'orig_balance_error' | 'dest_balance_error' | 'is_account_emptied' | 'is_zero_balance_dest'>;
+
+/**
+ * Balance-consistency features from the PaySim balance columns. They only depend
+ * on the transaction itself, so batch, point-in-time and live scoring share them.
+ * Transactions without balances (mock data, live feed) get neutral values.
+ */
+export const computeBalanceFeatures = (txn: Transaction): BalanceFeatures => {
+  const hasOrig = txn.oldBalanceOrig !== undefined && txn.newBalanceOrig !== undefined;
+  const hasDest = txn.oldBalanceDest !== undefined && txn.newBalanceDest !== undefined;
+
+  // A consistent ledger gives 0: the origin loses exactly the amount and the destination gains it
+  const origError = hasOrig ? txn.newBalanceOrig! + txn.amount - txn.oldBalanceOrig! : 0;
+  const destError = hasDest ? txn.oldBalanceDest! + txn.amount - txn.newBalanceDest! : 0;
+
+  return {
+    orig_balance_error: Math.abs(origError) < BALANCE_TOLERANCE ? 0 : origError,
+    dest_balance_error: Math.abs(destError) < BALANCE_TOLERANCE ? 0 : destError,
+    is_account_emptied: hasOrig && txn.oldBalanceOrig! > 0 && txn.newBalanceOrig! < BALANCE_TOLERANCE,
+    // Money sent to an account whose balance never moves (it is forwarded or cashed out immediately)
+    is_zero_balance_dest: hasDest && txn.amount > 0 && txn.oldBalanceDest! < BALANCE_TOLERANCE && txn.newBalanceDest! < BALANCE_TOLERANCE
+  };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { applyCalibration, brierScore, calibrateModel, fitIsotonic, fitPlatt, reliabilityDiagram } from './calibration';
+import { createRng } from './random';
+
+// Fraud rate rising with the score, with some noise in the labels
+const noisyScores = (n: number) => Array.from({ length: n }, (_, i) => i / n);
+const noisyLabels = (scores: number[]) => scores.map((s, i) => (s + ((i * 7) % 10) / 20 > 0.8 ? 1 : 0));
+
+describe('fitIsotonic', () => {
+  it('pools adjacent violators into non-decreasing steps', () => {
+    const calibration = fitIsotonic([0.1, 0.2, 0.3, 0.4], [0, 1, 0, 1]);
+    expect(calibration).toEqual({ method: 'isotonic', x: [0.1, 0.2, 0.3, 0.4], y: [0, 0.5, 0.5, 1] });
+  });
+
+  it('gives equal scores one probability', () => {
+    expect(fitIsotonic([0.5, 0.5, 0.9], [0, 1, 1])).toEqual({ method: 'isotonic', x: [0.5, 0.9], y: [0.5, 1] });
+  });
+
+  it('interpolates between knots and clamps outside them', () => {
+    const calibration = fitIsotonic([0.1, 0.2, 0.3, 0.4], [0, 1, 0, 1]);
+    expect(applyCalibration(calibration, 0.05)).toBe(0);
+    expect(applyCalibration(calibration, 0.15)).toBeCloseTo(0.25);
+    expect(applyCalibration(calibration, 0.35)).toBeCloseTo(0.75);
+    expect(applyCalibration(calibration, 2)).toBe(1);
+  });
+});
+
+describe('fitPlatt', () => {
+  it('falls back to the smoothed base rate for uninformative scores', () => {
+    const calibration = fitPlatt([0, 0, 0, 0], [1, 0, 0, 0]);
+    // Smoothed targets: (1 + 1) / (1 + 2) for the positive, 1 / (3 + 2) for the negatives
+    expect(applyCalibration(calibration, 0)).toBeCloseTo((2 / 3 + 3 / 5) / 4, 3);
+  });
+
+  it('fits an increasing map when fraud rises with the score', () => {
+    const scores = noisyScores(200);
+    const calibration = fitPlatt(scores, noisyLabels(scores));
+    expect(calibration.method).toBe('platt');
+    expect(applyCalibration(calibration, 0.9)).toBeGreaterThan(applyCalibration(calibration, 0.1));
+  });
+});
+
+describe('brierScore and reliabilityDiagram', () => {
+  it('measures squared error and groups predictions into tenths', () => {
+    expect(brierScore([0.8, 0.2], [1, 0])).toBe(0.04);
+    expect(brierScore([], [])).toBe(0);
+    expect(reliabilityDiagram([0.05, 0.15, 0.95, 1], [0, 0, 1, 1])).toEqual([
+      { lower: 0, upper: 0.1, meanPredicted: 0.05, observedRate: 0, count: 1 },
+      { lower: 0.1, upper: 0.2, meanPredicted: 0.15, observedRate: 0, count: 1 },
+      { lower: 0.9, upper: 1, meanPredicted: 0.975, observedRate: 1, count: 2 }
+    ]);
+  });
+});
+
+describe('calibrateModel', () => {
+  it('needs both classes', () => {
+    expect(calibrateModel([0.1, 0.9], [1, 1], createRng(1))).toBeNull();
+  });
+
+  it('fits both maps on all rows and improves on the raw Brier score', () => {
+    const scores = noisyScores(400).map(s => s / 4); // under-confident raw scores
+    const truth = noisyLabels(noisyScores(400));
+    const result = calibrateModel(scores, truth, createRng(7))!;
+    expect(result.platt).toEqual(fitPlatt(scores, truth));
+    expect(result.isotonic).toEqual(fitIsotonic(scores, truth));
+    expect(result.recommended).toBe(result.brier.isotonic < result.brier.platt ? 'isotonic' : 'platt');
+    expect(Math.min(result.brier.platt, result.brier.isotonic)).toBeLessThan(result.brier.raw);
+  });
+});
@@ -0,0 +1,179 @@
+import { ModelCalibration, ReliabilityBin, ScoreCalibration } from '../types';
+import { Rng } from './random';
+import { sigmoid } from './logisticRegression';
+
+const RELIABILITY_BINS = 10;
+
+const round4 = (v: number) => parseFloat(v.toFixed(4));
+
+/**
+ * Platt scaling: a one-feature logistic regression p = sigmoid(a * score + b), fitted with
+ * Newton's method on smoothed targets (Platt, 1999) so it does not overfit tiny classes.
+ */
+export const fitPlatt = (scores: number[], labels: number[]): ScoreCalibration => {
+  const positives = labels.filter(y => y === 1).length;
+  const negatives = labels.length - positives;
+  const hi = (positives + 1) / (positives + 2);
+  const lo = 1 / (negatives + 2);
+  const targets = labels.map(y => (y === 1 ? hi : lo));
+
+  // Start from the (smoothed) base rate
+  let a = 0;
+  let b = Math.log((positives + 1) / (negatives + 1));
+  const loss = (a: number, b: number) => scores.reduce((acc, s, i) => {
+    const p = Math.min(Math.max(sigmoid(a * s + b), 1e-12), 1 - 1e-12);
+    return acc - (targets[i] * Math.log(p) + (1 - targets[i]) * Math.log(1 - p));
+  }, 0);
+
+  let current = loss(a, b);
+  for (let iter = 0; iter < 100; iter++) {
+    let ga = 0, gb = 0, haa = 1e-12, hab = 0, hbb = 1e-12;
+    scores.forEach((s, i) => {
+      const p = sigmoid(a * s + b);
+      const d = p - targets[i];
+      const w = p * (1 - p);
+      ga += d * s;
+      gb += d;
+      haa += w * s * s;
+      hab += w * s;
+      hbb += w;
+    });
+    const det = haa * hbb - hab * hab;
+    if (Math.abs(ga) < 1e-7 && Math.abs(gb) < 1e-7) break;
+    const da = det === 0 ? ga : (hbb * ga - hab * gb) / det;
+    const db = det === 0 ? gb : (haa * gb - hab * ga) / det;
+
+    // Backtracking line search keeps Newton steps from overshooting on separable data
+    let step = 1;
+    let next = loss(a - step * da, b - step * db);
+    while (next > current && step > 1e-6) {
+      step /= 2;
+      next = loss(a - step * da, b - step * db);
+    }
+    if (next > current) break;
+    a -= step * da;
+    b -= step * db;
+    if (current - next < 1e-10) { current = next; break; }
+    current = next;
+  }
+  return { method: 'platt', a: round4(a), b: round4(b) };
+};
+
+/**
+ * Isotonic regression (pool-adjacent-violators): the best non-decreasing step function
+ * from score to fraud rate. Stored as knots; predictions interpolate between them.
+ */
+export const fitIsotonic = (scores: number[], labels: number[]): ScoreCalibration => {
+  // Equal scores must get the same probability, so they start as one block
+  const byScore = new Map<number, { sum: number; weight: number }>();
+  scores.forEach((s, i) => {
+    const entry = byScore.get(s) || { sum: 0, weight: 0 };
+    entry.sum += labels[i];
+    entry.weight++;
+    byScore.set(s, entry);
+  });
+  const points = Array.from(byScore.entries()).sort(([a], [b]) => a - b);
+
+  const blocks: { min: number; max: number; sum: number; weight: number }[] = [];
+  points.forEach(([score, { sum, weight }]) => {
+    blocks.push({ min: score, max: score, sum, weight });
+    // Merge backwards while the fitted rates decrease
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const prev = blocks[blocks.length - 2];
+      if (prev.sum / prev.weight <= last.sum / last.weight) break;
+      blocks.splice(blocks.length - 2, 2, { min: prev.min, max: last.max, sum: prev.sum + last.sum, weight: prev.weight + last.weight });
+    }
+  });
+
+  const x: number[] = [];
+  const y: number[] = [];
+  blocks.forEach(block => {
+    const rate = round4(block.sum / block.weight);
+    x.push(block.min);
+    y.push(rate);
+    if (block.max !== block.min) {
+      x.push(block.max);
+      y.push(rate);
+    }
+  });
+  return { method: 'isotonic', x, y };
+};
+
+/** Maps a raw score to a calibrated probability. */
+export const applyCalibration = (calibration: ScoreCalibration, score: number): number => {
+  if (calibration.method === 'platt') return sigmoid(calibration.a * score + calibration.b);
+  const { x, y } = calibration;
+  if (x.length === 0) return score;
+  if (score <= x[0]) return y[0];
+  if (score >= x[x.length - 1]) return y[y.length - 1];
+  let lo = 0, hi = x.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (x[mid] <= score) lo = mid;
+    else hi = mid;
+  }
+  return y[lo] + ((score - x[lo]) / (x[hi] - x[lo])) * (y[hi] - y[lo]);
+};
+
+/** Mean squared error between predicted probabilities and 0/1 outcomes (lower is better). */
+export const brierScore = (probabilities: number[], truth: number[]): number =>
+  truth.length === 0 ? 0 : round4(probabilities.reduce((acc, p, i) => acc + Math.pow(p - truth[i], 2), 0) / truth.length);
+
+/** Ten equal-width bins of predicted probability; empty bins are left out. */
+export const reliabilityDiagram = (probabilities: number[], truth: number[]): ReliabilityBin[] => {
+  const bins = Array.from({ length: RELIABILITY_BINS }, (_, b) => ({ predicted: 0, observed: 0, count: 0, b }));
+  probabilities.forEach((p, i) => {
+    const bin = bins[Math.min(RELIABILITY_BINS - 1, Math.max(0, Math.floor(p * RELIABILITY_BINS)))];
+    bin.predicted += p;
+    bin.observed += truth[i];
+    bin.count++;
+  });
+  return bins.filter(bin => bin.count > 0).map(bin => ({
+    lower: bin.b / RELIABILITY_BINS,
+    upper: (bin.b + 1) / RELIABILITY_BINS,
+    meanPredicted: round4(bin.predicted / bin.count),
+    observedRate: round4(bin.observed / bin.count),
+    count: bin.count
+  }));
+};
+
+// Out-of-fold calibrated probabilities (2 folds), so Brier scores are not measured on the rows the map was fitted to
+const crossFitted = (scores: number[], truth: number[], fit: (s: number[], t: number[]) => ScoreCalibration, rng: Rng): number[] => {
+  const fold = scores.map(() => (rng() < 0.5 ? 0 : 1));
+  const result = new Array(scores.length).fill(0);
+  [0, 1].forEach(k => {
+    const train = scores.map((_, i) => i).filter(i => fold[i] !== k);
+    const trainTruth = train.map(i => truth[i]);
+    // A fold without both classes cannot be fitted; fall back to the full-data fit
+    const calibration = trainTruth.includes(0) && trainTruth.includes(1)
+      ? fit(train.map(i => scores[i]), trainTruth)
+      : fit(scores, truth);
+    scores.forEach((s, i) => { if (fold[i] === k) result[i] = applyCalibration(calibration, s); });
+  });
+  return result;
+};
+
+/**
+ * Fits Platt and isotonic maps for one model and compares them with the raw scores.
+ * `rawScores` are what gets calibrated (the rule-weight sum for the rule model).
+ * Returns null unless the labels contain both classes.
+ */
+export const calibrateModel = (rawScores: number[], truth: number[], rng: Rng): ModelCalibration | null => {
+  if (!truth.includes(0) || !truth.includes(1)) return null;
+  const raw = rawScores.map(s => Math.min(Math.max(s, 0), 1));
+  const platt = crossFitted(rawScores, truth, fitPlatt, rng);
+  const isotonic = crossFitted(rawScores, truth, fitIsotonic, rng);
+  const brier = { raw: brierScore(raw, truth), platt: brierScore(platt, truth), isotonic: brierScore(isotonic, truth) };
+  return {
+    recommended: brier.isotonic < brier.platt ? 'isotonic' : 'platt',
+    platt: fitPlatt(rawScores, truth),
+    isotonic: fitIsotonic(rawScores, truth),
+    brier,
+    reliability: {
+      raw: reliabilityDiagram(raw, truth),
+      platt: reliabilityDiagram(platt, truth),
+      isotonic: reliabilityDiagram(isotonic, truth)
+    }
+  };
+};
@@ -0,0 +1,32 @@
+/**
+ * Per-client category profile: how often each category is used and how spread
+ * out the client's spending is across categories.
+ */
+export interface CategoryProfile {
+  counts: Map<string, number>; // a Map, so categories like "constructor" from the file are plain keys
+  total: number;
+}
+
+export const createCategoryProfile = (): CategoryProfile => ({ counts: new Map(), total: 0 });
+
+export const addToProfile = (profile: CategoryProfile, category: string) => {
+  profile.counts.set(category, (profile.counts.get(category) ?? 0) + 1);
+  profile.total++;
+};
+
+export const hasCategory = (profile: CategoryProfile, category: string): boolean => profile.counts.has(category);
+
+/** Share of the client's transactions in this category (0 when the profile is empty). */
+export const categoryFrequency = (profile: CategoryProfile, category: string): number =>
+  profile.total === 0 ? 0 : (profile.counts.get(category) ?? 0) / profile.total;
+
+/** Shannon entropy in bits: 0 for a single-category client, log2(k) for k evenly used categories. */
+export const categoryEntropy = (profile: CategoryProfile): number => {
+  if (profile.total === 0) return 0;
+  let entropy = 0;
+  profile.counts.forEach(count => {
+    const p = count / profile.total;
+    entropy -= p * Math.log2(p);
+  });
+  return entropy;
+};
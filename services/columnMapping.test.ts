@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { TransactionType } from '../types';
+import {
+  detectDelimiter, detectTimeFormat, matchingProfile, missingColumns, parseDateTime, parseLabel, parseNumber,
+  parseTransactionType, splitPreview, suggestMapping
+} from './columnMapping';
+
+describe('parseNumber', () => {
+  it('reads point and comma decimals with thousands separators', () => {
+    expect(parseNumber('1,234.50', '.')).toBe(1234.5);
+    expect(parseNumber('1.234,50', ',')).toBe(1234.5);
+    expect(parseNumber("1'234 567", '.')).toBe(1234567);
+    expect(parseNumber('-2e3', '.')).toBe(-2000);
+  });
+
+  it('is NaN for anything else', () => {
+    expect(parseNumber('12abc', '.')).toBeNaN();
+    expect(parseNumber('', '.')).toBeNaN();
+    expect(parseNumber('1.2.3', '.')).toBeNaN();
+  });
+});
+
+describe('parseDateTime', () => {
+  it('takes zoneless ISO datetimes as UTC', () => {
+    expect(parseDateTime('2023-01-31 14:05', 'iso')).toBe(Date.UTC(2023, 0, 31, 14, 5));
+    expect(parseDateTime('2023-01-31T14:05:00+02:00', 'iso')).toBe(Date.UTC(2023, 0, 31, 12, 5));
+  });
+
+  it('reads day-first and month-first dates', () => {
+    expect(parseDateTime('31/01/2023', 'dmy')).toBe(Date.UTC(2023, 0, 31));
+    expect(parseDateTime('01/31/2023 09:30:15', 'mdy')).toBe(Date.UTC(2023, 0, 31, 9, 30, 15));
+    expect(parseDateTime('31/01/2023', 'mdy')).toBeNaN();
+  });
+
+  it('reads epoch seconds and milliseconds', () => {
+    expect(parseDateTime('1675173900', 'epoch-seconds')).toBe(1675173900000);
+    expect(parseDateTime('1675173900000', 'epoch-millis')).toBe(1675173900000);
+    expect(parseDateTime('soon', 'epoch-seconds')).toBeNaN();
+  });
+});
+
+describe('cell parsers', () => {
+  it('maps direction codes onto transaction types', () => {
+    expect(parseTransactionType('transfer')).toBe(TransactionType.TRANSFER);
+    expect(parseTransactionType('CASH_OUT')).toBe(TransactionType.WITHDRAWAL);
+    expect(parseTransactionType('CRDT')).toBe(TransactionType.DEPOSIT);
+    expect(parseTransactionType('anything')).toBe(TransactionType.PAYMENT);
+  });
+
+  it('reads fraud labels', () => {
+    expect(['1', 'true', 'YES', 'y', 'Fraud'].map(parseLabel)).toEqual([1, 1, 1, 1, 1]);
+    expect(['0', 'no', '', 'maybe'].map(parseLabel)).toEqual([0, 0, 0, 0]);
+  });
+});
+
+describe('detection', () => {
+  it('picks the delimiter that splits rows consistently', () => {
+    expect(detectDelimiter('a;b;c\n1;2,5;3\n')).toBe(';');
+    expect(detectDelimiter('a\tb\n1\t2\n')).toBe('\t');
+    expect(detectDelimiter('a,b\n1,2\n')).toBe(',');
+  });
+
+  it('guesses time formats from sampled cells', () => {
+    expect(detectTimeFormat(['1', '2', '743'])).toBe('step-hours');
+    expect(detectTimeFormat(['1675173900'])).toBe('epoch-seconds');
+    expect(detectTimeFormat(['1675173900000'])).toBe('epoch-millis');
+    expect(detectTimeFormat(['05/01/2023', '31/01/2023'])).toBe('dmy');
+    expect(detectTimeFormat(['01/31/2023'])).toBe('mdy');
+    expect(detectTimeFormat(['2023-01-31T14:05:00Z'])).toBe('iso');
+  });
+});
+
+describe('suggestMapping', () => {
+  it('maps the PaySim header', () => {
+    const preview = splitPreview('step,type,amount,nameOrig,oldbalanceOrg,newbalanceOrig,nameDest,oldbalanceDest,newbalanceDest,isFraud\n1,PAYMENT,9.5,C1,10,0.5,M1,0,0,0\n', ',', true);
+    const mapping = suggestMapping(preview, ',');
+    expect(mapping.columns).toEqual({
+      time: 'step', category: 'type', amount: 'amount', clientId: 'nameOrig', counterpartyId: 'nameDest',
+      oldBalanceOrig: 'oldbalanceOrg', newBalanceOrig: 'newbalanceOrig', oldBalanceDest: 'oldbalanceDest', newBalanceDest: 'newbalanceDest',
+      trueLabel: 'isFraud'
+    });
+    expect(mapping.timeFormat).toBe('step-hours');
+    expect(missingColumns(mapping, preview.headers)).toEqual([]);
+  });
+
+  it('detects decimal commas in semicolon files', () => {
+    const preview = splitPreview('Date;Amount;Customer\n31.01.2023;1.234,50;A\n', ';', true);
+    expect(suggestMapping(preview, ';')).toMatchObject({ decimalSeparator: ',', timeFormat: 'dmy', columns: { time: 'Date', amount: 'Amount', clientId: 'Customer' } });
+  });
+
+  it('matches the most specific saved profile whose columns are all present', () => {
+    const preview = splitPreview('step,amount,nameOrig\n1,2,C1\n', ',', true);
+    const base = suggestMapping(preview, ',');
+    const profiles = [
+      { id: 'a', name: 'Amounts', mapping: { ...base, columns: { amount: 'amount' } }, updatedAt: '' },
+      { id: 'b', name: 'PaySim', mapping: base, updatedAt: '' },
+      { id: 'c', name: 'Other', mapping: { ...base, columns: { amount: 'value' } }, updatedAt: '' }
+    ];
+    expect(matchingProfile(profiles, preview)?.id).toBe('b');
+  });
+});
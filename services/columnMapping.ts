@@ -0,0 +1,236 @@
+import { ColumnMapping, ColumnType, IngestionProfile, MappedField, TimeFormat, TransactionType } from '../types';
+import { createCsvTokenizer } from './csvTokenizer';
+
+/**
+ * COLUMN MAPPING
+ * How an uploaded file's columns become Transaction fields: delimiter and type detection
+ * for the upload wizard's preview, suggested mappings from header names, and the value
+ * parsers (numbers, timestamps, transaction types, labels) the CSV reader applies.
+ */
+
+export const MAPPED_FIELDS: { field: MappedField; label: string; required?: boolean }[] = [
+  { field: 'amount', label: 'Amount', required: true },
+  { field: 'time', label: 'Step / timestamp' },
+  { field: 'clientId', label: 'Client ID' },
+  { field: 'counterpartyId', label: 'Counterparty ID' },
+  { field: 'id', label: 'Transaction ID' },
+  { field: 'currency', label: 'Currency' },
+  { field: 'category', label: 'Category' },
+  { field: 'type', label: 'Transaction type' },
+  { field: 'location', label: 'Location' },
+  { field: 'merchant', label: 'Merchant' },
+  { field: 'oldBalanceOrig', label: 'Client balance before' },
+  { field: 'newBalanceOrig', label: 'Client balance after' },
+  { field: 'oldBalanceDest', label: 'Counterparty balance before' },
+  { field: 'newBalanceDest', label: 'Counterparty balance after' },
+  { field: 'trueLabel', label: 'Fraud label' }
+];
+
+export const TIME_FORMAT_LABELS: Record<TimeFormat, string> = {
+  'step-hours': 'Step (hours since origin)',
+  'iso': 'ISO 8601 (2023-01-31T14:05:00)',
+  'epoch-seconds': 'Unix seconds',
+  'epoch-millis': 'Unix milliseconds',
+  'dmy': 'DD/MM/YYYY [HH:MM[:SS]]',
+  'mdy': 'MM/DD/YYYY [HH:MM[:SS]]'
+};
+
+export const DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' }
+];
+
+// PaySim counts steps in hours; they are placed from the start of 2023
+export const DEFAULT_STEP_ORIGIN = '2023-01-01T00:00:00.000Z';
+
+// Header names (lower-case, letters and digits only) each field is suggested for
+const FIELD_ALIASES: Record<MappedField, string[]> = {
+  id: ['id', 'transactionid', 'txnid', 'txid', 'reference', 'endtoendid'],
+  time: ['step', 'timestamp', 'datetime', 'date', 'time', 'bookingdate', 'transactiondate', 'valuedate', 'createdat'],
+  amount: ['amount', 'amt', 'value', 'transactionamount'],
+  currency: ['currency', 'ccy', 'currencycode'],
+  clientId: ['nameorig', 'clientid', 'customerid', 'client', 'customer', 'accountid', 'account', 'debtor', 'sender', 'originator'],
+  counterpartyId: ['namedest', 'counterpartyid', 'counterparty', 'beneficiary', 'creditor', 'payee', 'recipient', 'receiver'],
+  oldBalanceOrig: ['oldbalanceorg', 'oldbalanceorig'],
+  newBalanceOrig: ['newbalanceorig'],
+  oldBalanceDest: ['oldbalancedest'],
+  newBalanceDest: ['newbalancedest'],
+  category: ['type', 'category', 'transactiontype'],
+  type: ['direction', 'creditdebit', 'kind'],
+  location: ['location', 'country', 'city', 'region'],
+  merchant: ['merchant', 'merchantname'],
+  trueLabel: ['isfraud', 'fraud', 'label', 'isfraudulent', 'target']
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Parses a number written with the given decimal separator; thousands separators and spaces are ignored. */
+export const parseNumber = (value: string, decimalSeparator: '.' | ','): number => {
+  const compact = value.replace(/[\s']/g, '');
+  const normalized = decimalSeparator === ','
+    ? compact.replace(/\./g, '').replace(',', '.')
+    : compact.replace(/,/g, '');
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(normalized)) return NaN;
+  return parseFloat(normalized);
+};
+
+const NAIVE_ISO = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+const DAY_FIRST = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * Reads a datetime cell into epoch milliseconds (NaN when it does not parse). Datetimes
+ * without a zone are taken as UTC, so a file means the same thing in every browser.
+ */
+export const parseDateTime = (value: string, format: Exclude<TimeFormat, 'step-hours'>): number => {
+  const text = value.trim();
+  if (text === '') return NaN;
+  switch (format) {
+    case 'epoch-seconds':
+    case 'epoch-millis': {
+      if (!/^[-+]?\d+(\.\d+)?$/.test(text)) return NaN;
+      return parseFloat(text) * (format === 'epoch-seconds' ? 1000 : 1);
+    }
+    case 'dmy':
+    case 'mdy': {
+      const match = DAY_FIRST.exec(text);
+      if (!match) return NaN;
+      const [first, second, year, hours, minutes, seconds] = match.slice(1).map(v => v === undefined ? 0 : parseInt(v));
+      const [day, month] = format === 'dmy' ? [first, second] : [second, first];
+      if (month < 1 || month > 12 || day < 1 || day > 31) return NaN;
+      return Date.UTC(year, month - 1, day, hours, minutes, seconds);
+    }
+    default:
+      return Date.parse(NAIVE_ISO.test(text) ? `${text.replace(' ', 'T')}Z` : text);
+  }
+};
+
+/** Reads a category or direction cell as a TransactionType; anything unrecognised is a payment. */
+export const parseTransactionType = (value: string): TransactionType => {
+  const upper = value.trim().toUpperCase();
+  if ((Object.values(TransactionType) as string[]).includes(upper)) return upper as TransactionType;
+  if (['CASH_OUT', 'DEBIT', 'DBIT', 'ATM'].includes(upper)) return TransactionType.WITHDRAWAL;
+  if (['CASH_IN', 'CREDIT', 'CRDT'].includes(upper)) return TransactionType.DEPOSIT;
+  return TransactionType.PAYMENT;
+};
+
+/** 1 for '1', 'true', 'yes', 'y' and 'fraud' (any case), otherwise 0. */
+export const parseLabel = (value: string): number =>
+  /^(1|true|yes|y|fraud)$/i.test(value.trim()) ? 1 : 0;
+
+const DETECTED_DATETIMES: Exclude<TimeFormat, 'step-hours'>[] = ['iso', 'dmy', 'mdy'];
+
+export const detectDecimalSeparator = (values: string[]): '.' | ',' =>
+  values.some(v => /^[-+]?\d{1,3}(\.\d{3})*,\d+$/.test(v.trim()) || /^[-+]?\d+,\d+$/.test(v.trim())) ? ',' : '.';
+
+/** What a column's sampled cells look like, for the preview and for suggesting a time format. */
+export const detectColumnType = (values: string[], decimalSeparator: '.' | ','): ColumnType => {
+  const cells = values.map(v => v.trim()).filter(v => v !== '');
+  if (cells.length === 0) return 'empty';
+  const numbers = cells.map(v => parseNumber(v, decimalSeparator));
+  if (numbers.every(Number.isFinite)) return numbers.every(Number.isInteger) ? 'integer' : 'decimal';
+  if (DETECTED_DATETIMES.some(format => cells.every(v => Number.isFinite(parseDateTime(v, format))))) return 'datetime';
+  return 'text';
+};
+
+/** Guesses how a time column is written from sampled cells; steps are the PaySim default. */
+export const detectTimeFormat = (values: string[]): TimeFormat => {
+  const cells = values.map(v => v.trim()).filter(v => v !== '');
+  if (cells.length === 0) return 'step-hours';
+  if (cells.every(v => /^\d+$/.test(v))) {
+    const smallest = Math.min(...cells.map(Number));
+    if (smallest >= 1e11) return 'epoch-millis';
+    if (smallest >= 1e8) return 'epoch-seconds';
+    return 'step-hours';
+  }
+  // Day-first unless a cell can only be month-first
+  if (cells.every(v => Number.isFinite(parseDateTime(v, 'dmy')))) return 'dmy';
+  if (cells.every(v => Number.isFinite(parseDateTime(v, 'mdy')))) return 'mdy';
+  return 'iso';
+};
+
+/** Picks the delimiter that splits the sample into the most columns, consistently across rows. */
+export const detectDelimiter = (sample: string): string => {
+  let best = { delimiter: ',', score: 0 };
+  for (const { value } of DELIMITERS) {
+    const tokenizer = createCsvTokenizer(value);
+    const records = tokenizer.push(sample).slice(0, 50);
+    if (records.length === 0) continue;
+    const width = records[0].fields.length;
+    const consistent = records.filter(r => r.fields.length === width).length / records.length;
+    const score = width > 1 ? width * consistent : 0;
+    if (score > best.score) best = { delimiter: value, score };
+  }
+  return best.delimiter;
+};
+
+export interface CsvPreview {
+  text: string; // the sampled start of the file, for re-splitting with another delimiter
+  headers: string[];
+  rows: string[][];
+  complete: boolean; // the sample is the whole file
+}
+
+const PREVIEW_BYTES = 64 * 1024;
+const PREVIEW_ROWS = 20;
+
+/** Splits a preview sample; a record cut off by the end of the sample is dropped. */
+export const splitPreview = (text: string, delimiter: string, complete: boolean): CsvPreview => {
+  const tokenizer = createCsvTokenizer(delimiter);
+  const records = tokenizer.push(text);
+  if (complete) records.push(...tokenizer.end().filter(r => !r.unterminated));
+  const [header, ...rows] = records.slice(0, PREVIEW_ROWS + 1).map(r => r.fields);
+  return { text, headers: (header || []).map(h => h.trim()), rows: rows.map(r => r.map(v => v.trim())), complete };
+};
+
+/** Reads the start of a file for the upload wizard. */
+export const readCsvPreview = async (file: Blob): Promise<CsvPreview & { delimiter: string }> => {
+  const complete = file.size <= PREVIEW_BYTES;
+  const text = await file.slice(0, PREVIEW_BYTES).text();
+  const delimiter = detectDelimiter(text);
+  return { ...splitPreview(text, delimiter, complete), delimiter };
+};
+
+export const columnValues = (preview: CsvPreview, column: string): string[] => {
+  const index = preview.headers.indexOf(column);
+  return index === -1 ? [] : preview.rows.map(r => r[index] ?? '');
+};
+
+/** A mapping suggested from header names, with the time format and decimal separator detected from the sample. */
+export const suggestMapping = (preview: CsvPreview, delimiter: string): ColumnMapping => {
+  const columns: ColumnMapping['columns'] = {};
+  const claimed = new Set<string>();
+  (Object.keys(FIELD_ALIASES) as MappedField[]).forEach(field => {
+    for (const alias of FIELD_ALIASES[field]) {
+      const header = preview.headers.find(h => !claimed.has(h) && normalizeHeader(h) === alias);
+      if (header) {
+        columns[field] = header;
+        claimed.add(header);
+        return;
+      }
+    }
+  });
+  const numericCells = preview.headers
+    .filter(h => h !== columns.time)
+    .flatMap(h => columnValues(preview, h));
+  return {
+    delimiter,
+    decimalSeparator: delimiter === ',' ? '.' : detectDecimalSeparator(numericCells),
+    columns,
+    timeFormat: columns.time ? detectTimeFormat(columnValues(preview, columns.time)) : 'step-hours',
+    stepOrigin: DEFAULT_STEP_ORIGIN
+  };
+};
+
+/** Mapped columns missing from the header, as "Field (column)" descriptions. */
+export const missingColumns = (mapping: ColumnMapping, headers: string[]): string[] =>
+  MAPPED_FIELDS
+    .filter(({ field }) => mapping.columns[field] && !headers.includes(mapping.columns[field]!))
+    .map(({ field, label }) => `${label} ("${mapping.columns[field]}")`);
+
+/** The saved profile whose mapped columns all appear in the file, preferring the most specific. */
+export const matchingProfile = (profiles: IngestionProfile[], preview: CsvPreview): IngestionProfile | undefined =>
+  profiles
+    .filter(p => missingColumns(p.mapping, splitPreview(preview.text, p.mapping.delimiter, preview.complete).headers).length === 0)
+    .sort((a, b) => Object.keys(b.mapping.columns).length - Object.keys(a.mapping.columns).length)[0];
@@ -0,0 +1,154 @@
+import { Transaction } from '../types';
+import { baseAmountOf } from './fx';
+
+// Mule heuristics: money arrives from several unrelated senders and leaves again soon after
+const MULE_MIN_UNRELATED_SENDERS = 3;
+const MULE_CASHOUT_WINDOW_HOURS = 24;
+const MULE_CASHOUT_RATIO = 0.8; // share of inflow that has been sent onwards
+
+interface AccountNode {
+  senders: Set<string>; // accounts that paid into this one
+  receivers: Set<string>; // accounts this one paid
+  inflow: number;
+  outflow: number;
+  lastInflowTime: number | null; // ms
+  quickCashOut: boolean; // sent money within the cash-out window after receiving
+}
+
+export interface CounterpartyFeatures {
+  dest_fan_in: number;
+  orig_fan_out: number;
+  dest_is_mule_suspect: boolean;
+  orig_is_mule_suspect: boolean;
+  in_short_cycle: boolean;
+}
+
+const EMPTY_FEATURES: CounterpartyFeatures = {
+  dest_fan_in: 0,
+  orig_fan_out: 0,
+  dest_is_mule_suspect: false,
+  orig_is_mule_suspect: false,
+  in_short_cycle: false
+};
+
+/**
+ * COUNTERPARTY GRAPH
+ * Directed graph of clientId -> counterpartyId payments. Edges are added in time
+ * order; addEdgeAndScore returns the features as of that transaction (leak-free), while
+ * featuresFor reads the graph as it stands (full-batch view).
+ */
+export const createCounterpartyGraph = () => {
+  const nodes = new Map<string, AccountNode>();
+  // Mule verdicts are cached until an edge that can change them is added
+  const muleCache = new Map<string, boolean>();
+
+  const getNode = (id: string): AccountNode => {
+    let node = nodes.get(id);
+    if (!node) {
+      node = { senders: new Set(), receivers: new Set(), inflow: 0, outflow: 0, lastInflowTime: null, quickCashOut: false };
+      nodes.set(id, node);
+    }
+    return node;
+  };
+
+  // A sender counts as unrelated when it has no direct payment link with any other sender of the account
+  const unrelatedSenderCount = (node: AccountNode): number => {
+    let count = 0;
+    node.senders.forEach(senderId => {
+      const sender = nodes.get(senderId);
+      if (!sender) return;
+      let related = false;
+      for (const neighbour of sender.receivers) {
+        if (neighbour !== senderId && node.senders.has(neighbour)) { related = true; break; }
+      }
+      if (!related) {
+        for (const neighbour of sender.senders) {
+          if (neighbour !== senderId && node.senders.has(neighbour)) { related = true; break; }
+        }
+      }
+      if (!related) count++;
+    });
+    return count;
+  };
+
+  const isMuleSuspect = (id: string): boolean => {
+    const node = nodes.get(id);
+    if (!node || !node.quickCashOut || node.inflow === 0) return false;
+    if (node.senders.size < MULE_MIN_UNRELATED_SENDERS) return false;
+    if (node.outflow < MULE_CASHOUT_RATIO * node.inflow) return false;
+    if (!muleCache.has(id)) muleCache.set(id, unrelatedSenderCount(node) >= MULE_MIN_UNRELATED_SENDERS);
+    return muleCache.get(id)!;
+  };
+
+  // Is there a path dest -> ... -> orig of at most two hops (so orig -> dest closes a 2- or 3-cycle)?
+  const closesShortCycle = (origId: string, destId: string): boolean => {
+    const dest = nodes.get(destId);
+    if (!dest) return false;
+    if (dest.receivers.has(origId)) return true;
+    for (const middle of dest.receivers) {
+      if (middle !== origId && nodes.get(middle)?.receivers.has(origId)) return true;
+    }
+    return false;
+  };
+
+  const featuresFor = (txn: Transaction): CounterpartyFeatures => {
+    if (!txn.counterpartyId) return EMPTY_FEATURES;
+    return {
+      dest_fan_in: nodes.get(txn.counterpartyId)?.senders.size || 0,
+      orig_fan_out: nodes.get(txn.clientId)?.receivers.size || 0,
+      dest_is_mule_suspect: isMuleSuspect(txn.counterpartyId),
+      orig_is_mule_suspect: isMuleSuspect(txn.clientId),
+      in_short_cycle: closesShortCycle(txn.clientId, txn.counterpartyId)
+    };
+  };
+
+  /** Adds the payment to the graph. */
+  const addEdge = (txn: Transaction) => {
+    if (!txn.counterpartyId || txn.counterpartyId === txn.clientId) return;
+    const time = new Date(txn.timestamp).getTime();
+    const orig = getNode(txn.clientId);
+    const dest = getNode(txn.counterpartyId);
+
+    if (orig.lastInflowTime !== null && (time - orig.lastInflowTime) / (1000 * 60 * 60) <= MULE_CASHOUT_WINDOW_HOURS) {
+      orig.quickCashOut = true;
+    }
+    orig.receivers.add(txn.counterpartyId);
+    orig.outflow += baseAmountOf(txn);
+    dest.senders.add(txn.clientId);
+    dest.inflow += baseAmountOf(txn);
+    dest.lastInflowTime = time;
+
+    // The verdicts this edge can change: the two accounts', and those of accounts either one
+    // pays, whose senders it may have just related
+    muleCache.delete(txn.clientId);
+    muleCache.delete(txn.counterpartyId);
+    orig.receivers.forEach(id => muleCache.delete(id));
+    dest.receivers.forEach(id => muleCache.delete(id));
+  };
+
+  /** Adds the payment and returns the features as of this transaction (the incremental store). */
+  const addEdgeAndScore = (txn: Transaction): CounterpartyFeatures => {
+    if (txn.counterpartyId === txn.clientId) return EMPTY_FEATURES;
+    addEdge(txn);
+    return featuresFor(txn);
+  };
+
+  return {
+    addEdge,
+    addEdgeAndScore,
+    featuresFor,
+    clear: () => { nodes.clear(); muleCache.clear(); },
+    get accountCount() { return nodes.size; }
+  };
+};
+
+export type CounterpartyGraph = ReturnType<typeof createCounterpartyGraph>;
+
+/** Builds the full graph of a batch, adding payments in time order. */
+export const buildCounterpartyGraph = (transactions: Transaction[]): CounterpartyGraph => {
+  const graph = createCounterpartyGraph();
+  [...transactions]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .forEach(t => graph.addEdge(t));
+  return graph;
+};
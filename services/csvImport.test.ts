@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnMapping, Transaction, TransactionType } from '../types';
+import { createTransactionCsvReader, streamTransactionsCSV } from './csvImport';
+import { DEFAULT_STEP_ORIGIN } from './columnMapping';
+
+const PAYSIM_MAPPING: ColumnMapping = {
+  delimiter: ',',
+  decimalSeparator: '.',
+  columns: { time: 'step', category: 'type', amount: 'amount', clientId: 'nameOrig', counterpartyId: 'nameDest', oldBalanceOrig: 'oldbalanceOrg', trueLabel: 'isFraud' },
+  timeFormat: 'step-hours',
+  stepOrigin: DEFAULT_STEP_ORIGIN
+};
+
+const HEADER = 'step,type,amount,nameOrig,oldbalanceOrg,nameDest,isFraud\n';
+
+const read = (text: string, mapping = PAYSIM_MAPPING) => {
+  const reader = createTransactionCsvReader('USD', mapping);
+  const transactions = [...reader.push(text), ...reader.end()];
+  return { transactions, report: reader.report() };
+};
+
+describe('createTransactionCsvReader', () => {
+  it('reads PaySim rows through the mapping', () => {
+    const { transactions, report } = read(`${HEADER}3,CASH_OUT,181.5,C1,181.5,C2,1\n`);
+    expect(report).toMatchObject({ rowsRead: 1, rowsSkipped: 0 });
+    expect(transactions[0]).toMatchObject({
+      id: 'TX-0-3',
+      step: 3,
+      clientId: 'C1',
+      counterpartyId: 'C2',
+      amount: 181.5,
+      oldBalanceOrig: 181.5,
+      currency: 'USD',
+      timestamp: '2023-01-01T03:00:00.000Z',
+      category: 'CASH_OUT',
+      type: TransactionType.PAYMENT,
+      trueLabel: 1
+    });
+  });
+
+  it('skips and counts rows it cannot use', () => {
+    const { transactions, report } = read(`${HEADER}1,PAYMENT,abc,C1,0,M1,0\n2,PAYMENT,10,C1\n,PAYMENT,10,C1,0,M1,0\n4,PAYMENT,10,C1,0,M1,0\n`);
+    expect(transactions.map(t => t.step)).toEqual([4]);
+    expect(report.rowsRead).toBe(4);
+    expect(report.skipReasons).toEqual({ 'Invalid amount': 1, 'Wrong number of fields': 1, 'Invalid timestamp': 1 });
+    expect(report.skippedSamples.map(s => s.line)).toEqual([2, 3, 4]);
+    expect(report.fieldIssues.amount).toEqual({ missing: 0, unparseable: 1 });
+    expect(report.fieldIssues.timestamp).toEqual({ missing: 1, unparseable: 0 });
+  });
+
+  it('keeps a row whose optional balance does not parse, without the balance', () => {
+    const { transactions, report } = read(`${HEADER}1,PAYMENT,10,C1,n/a,M1,0\n`);
+    expect(transactions[0].oldBalanceOrig).toBeUndefined();
+    expect(report.fieldIssues.oldBalanceOrig).toEqual({ missing: 0, unparseable: 1 });
+  });
+
+  it('throws when a mapped column is not in the header', () => {
+    expect(() => read('step,amount\n1,10\n')).toThrow(/Mapped columns not found/);
+  });
+
+  it('reads datetimes, currencies and decimal commas', () => {
+    const mapping: ColumnMapping = {
+      delimiter: ';',
+      decimalSeparator: ',',
+      columns: { time: 'Datum', amount: 'Betrag', currency: 'Währung', id: 'Ref' },
+      timeFormat: 'dmy',
+      stepOrigin: DEFAULT_STEP_ORIGIN
+    };
+    const { transactions } = read('Ref;Datum;Betrag;Währung\nR-1;31.01.2023 14:05;1.234,50;eur\n', mapping);
+    expect(transactions[0]).toMatchObject({ id: 'R-1', amount: 1234.5, currency: 'EUR', timestamp: '2023-01-31T14:05:00.000Z', step: undefined });
+  });
+});
+
+describe('streamTransactionsCSV', () => {
+  it('streams a file in batches and reports the bytes read', async () => {
+    const rows = Array.from({ length: 50 }, (_, i) => `${i},PAYMENT,${i + 1},C${i % 5},0,M1,0`).join('\n');
+    const file = new Blob([HEADER + rows]);
+    const seen: Transaction[] = [];
+    let bytesRead = 0;
+    const report = await streamTransactionsCSV(file, 'USD', PAYSIM_MAPPING, (batch, progress) => {
+      seen.push(...batch);
+      bytesRead = progress.bytesRead;
+    });
+    expect(report.rowsRead).toBe(50);
+    expect(seen.map(t => t.amount)).toEqual(Array.from({ length: 50 }, (_, i) => i + 1));
+    expect(bytesRead).toBe(file.size);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { createCsvTokenizer, CsvRecord } from './csvTokenizer';
+
+// Feeds the text in chunks of `size` characters and collects every record
+const tokenize = (text: string, size = text.length || 1, delimiter = ','): CsvRecord[] => {
+  const tokenizer = createCsvTokenizer(delimiter);
+  const records: CsvRecord[] = [];
+  for (let start = 0; start < text.length; start += size) records.push(...tokenizer.push(text.slice(start, start + size)));
+  return [...records, ...tokenizer.end()];
+};
+
+const fields = (records: CsvRecord[]) => records.map(r => r.fields);
+
+describe('createCsvTokenizer', () => {
+  it('splits records and fields', () => {
+    expect(fields(tokenize('a,b,c\n1,2,3\n'))).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('keeps the last record without a trailing line break', () => {
+    expect(fields(tokenize('a,b\n1,2'))).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('reads quoted delimiters, line breaks and escaped quotes', () => {
+    const records = tokenize('name,note\n"Smith, J","said ""hi""\nthen left"\nnext,row\n');
+    expect(fields(records)).toEqual([['name', 'note'], ['Smith, J', 'said "hi"\nthen left'], ['next', 'row']]);
+    expect(records.map(r => r.line)).toEqual([1, 2, 4]);
+  });
+
+  it('accepts CRLF, LF and CR line endings', () => {
+    expect(fields(tokenize('a\r\nb\nc\rd'))).toEqual([['a'], ['b'], ['c'], ['d']]);
+  });
+
+  it('drops a leading byte order mark and blank lines', () => {
+    expect(fields(tokenize('\uFEFFa,b\n\n   \n1,2\n'))).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(fields(tokenize(',x,\n'))).toEqual([['', 'x', '']]);
+  });
+
+  it('gives the same records however the text is chunked', () => {
+    const text = 'id,memo\r\n1,"a ""quoted""\r\nmemo, with comma"\r\n2,plain\r\n';
+    const whole = fields(tokenize(text));
+    for (const size of [1, 2, 3, 5, 7]) expect(fields(tokenize(text, size))).toEqual(whole);
+  });
+
+  it('marks a record the file ends inside a quoted field', () => {
+    const records = tokenize('a,b\n1,"open\n');
+    expect(records[1]).toEqual({ fields: ['1', 'open\n'], line: 2, unterminated: true });
+  });
+
+  it('uses the given delimiter', () => {
+    expect(fields(tokenize('a;b\t\n"1;2";3\n', undefined, ';'))).toEqual([['a', 'b\t'], ['1;2', '3']]);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * CSV TOKENIZER
+ * RFC 4180 fields, read incrementally so a file can be streamed chunk by chunk: quoted
+ * fields may hold delimiters, line breaks and "" escaped quotes; CRLF, LF and CR line
+ * endings and a leading byte order mark are all accepted.
+ */
+
+export interface CsvRecord {
+  fields: string[];
+  line: number; // 1-based line the record starts on
+  unterminated?: boolean; // the file ended inside a quoted field
+}
+
+export interface CsvTokenizer {
+  push: (chunk: string) => CsvRecord[]; // the records completed by this chunk
+  end: () => CsvRecord[]; // whatever the last chunk left open
+}
+
+// Blank and whitespace-only lines are not rows
+const isBlank = (record: CsvRecord) => record.fields.length === 1 && record.fields[0].trim() === '';
+
+/** Incremental RFC 4180 tokenizer; a record may span any number of chunks. */
+export const createCsvTokenizer = (delimiter = ','): CsvTokenizer => {
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let afterQuote = false; // inside quotes, just read a '"': either an escape or the closing quote
+  let afterCR = false; // a '\r' ended the last record, so a following '\n' belongs to it
+  let started = false; // the current record has content
+  let line = 1;
+  let recordLine = 1;
+  let first = true;
+
+  const endRecord = (records: CsvRecord[]) => {
+    const record = { fields: [...fields, field], line: recordLine };
+    if (started && !isBlank(record)) records.push(record);
+    fields = [];
+    field = '';
+    started = false;
+    recordLine = line;
+  };
+
+  const push = (chunk: string): CsvRecord[] => {
+    const records: CsvRecord[] = [];
+    let text = chunk;
+    if (first && text.length > 0) {
+      first = false;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+    let start = 0; // first character of the run not yet copied into `field`
+
+    for (let i = 0; i < text.length; i++) {
+      const c = text[i];
+      if (afterCR) {
+        afterCR = false;
+        if (c === '\n') { start = i + 1; continue; }
+      }
+      if (inQuotes) {
+        if (afterQuote) {
+          afterQuote = false;
+          if (c === '"') { field += '"'; start = i + 1; continue; }
+          inQuotes = false; // the quote closed the field; read c as an unquoted character
+          start = i;
+        } else {
+          if (c === '"') {
+            field += text.slice(start, i);
+            afterQuote = true;
+            start = i + 1;
+          } else if (c === '\n') {
+            line++;
+          }
+          continue;
+        }
+      }
+
+      if (c === delimiter) {
+        fields.push(field + text.slice(start, i));
+        field = '';
+        start = i + 1;
+        started = true;
+      } else if (c === '\n' || c === '\r') {
+        field += text.slice(start, i);
+        line++;
+        endRecord(records);
+        start = i + 1;
+        afterCR = c === '\r';
+      } else if (c === '"' && start === i && field === '') {
+        inQuotes = true;
+        start = i + 1;
+        started = true;
+      } else {
+        started = true;
+      }
+    }
+    field += text.slice(start);
+    return records;
+  };
+
+  const end = (): CsvRecord[] => {
+    const records: CsvRecord[] = [];
+    if (inQuotes && !afterQuote) {
+      records.push({ fields: [...fields, field], line: recordLine, unterminated: true });
+      fields = [];
+      field = '';
+      started = false;
+    } else if (started || fields.length > 0) {
+      endRecord(records);
+    }
+    inQuotes = false;
+    afterQuote = false;
+    return records;
+  };
+
+  return { push, end };
+};
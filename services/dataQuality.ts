@@ -0,0 +1,297 @@
+import { ColumnQuality, DataQualityAction, DataQualityCheck, DataQualityPolicy, DataQualityReport, ImportReport, QuarantinedRow, Transaction } from '../types';
+import { baseAmountOf } from './fx';
+
+/**
+ * DATA QUALITY
+ * The pipeline stage between import and feature engineering. It profiles the imported
+ * transactions (missing and unparseable values per column, label prevalence) and runs the
+ * row-level checks below, handling each failing row as the DataQualityPolicy says. A row
+ * failing several checks gets the strictest of their actions.
+ */
+
+// Amount outlier bounds are estimated from the first rows of the file
+export const OUTLIER_SAMPLE_SIZE = 20000;
+
+// Rows held back when out-of-order rows are fixed; a row later than this is scored late
+export const REORDER_WINDOW = 10000;
+
+export interface DataQualityCheckInfo {
+  check: DataQualityCheck;
+  label: string;
+  description: string;
+  fix: string | null; // what 'fix' does
+  actions: DataQualityAction[]; // the actions that make sense for this check
+}
+
+export const DATA_QUALITY_CHECKS: DataQualityCheckInfo[] = [
+  {
+    check: 'missingClient',
+    label: 'Missing client ID',
+    description: 'The row names no client (origin account).',
+    fix: 'Give the row its own placeholder client, Unknown-<row>',
+    actions: ['fix', 'quarantine', 'reject']
+  },
+  {
+    check: 'nonPositiveAmount',
+    label: 'Zero or negative amount',
+    description: 'Amounts are expected to be positive; the direction is in the transaction type.',
+    fix: 'Use the absolute amount; zero amounts are quarantined',
+    actions: ['keep', 'fix', 'quarantine', 'reject']
+  },
+  {
+    check: 'duplicateRow',
+    label: 'Duplicate row',
+    description: 'Identical to an earlier row in every field but the ID.',
+    fix: null,
+    actions: ['keep', 'quarantine', 'reject']
+  },
+  {
+    check: 'duplicateId',
+    label: 'Duplicate transaction ID',
+    description: 'An earlier row has the same ID.',
+    fix: 'Suffix the ID until it is unique',
+    actions: ['fix', 'quarantine', 'reject']
+  },
+  {
+    check: 'outOfOrder',
+    label: 'Out-of-order step',
+    description: 'Earlier than the row before it.',
+    fix: `Score it in time order, if it is no more than ${REORDER_WINDOW.toLocaleString('en-US')} rows late`,
+    actions: ['keep', 'fix', 'quarantine', 'reject']
+  },
+  {
+    check: 'amountOutlier',
+    label: 'Amount outlier',
+    description: `The log amount is further from the median of the first ${OUTLIER_SAMPLE_SIZE.toLocaleString('en-US')} rows than the outlier threshold, in robust z-scores.`,
+    fix: 'Cap the amount at the outlier bound',
+    actions: ['keep', 'fix', 'quarantine', 'reject']
+  }
+];
+
+export const DATA_QUALITY_ACTION_LABELS: Record<DataQualityAction, string> = {
+  keep: 'Keep',
+  fix: 'Fix',
+  quarantine: 'Quarantine',
+  reject: 'Reject'
+};
+
+// Outliers are kept by default: an unusually large amount is as likely fraud as bad data
+export const DEFAULT_DATA_QUALITY_POLICY: DataQualityPolicy = {
+  actions: {
+    missingClient: 'fix',
+    nonPositiveAmount: 'quarantine',
+    duplicateRow: 'quarantine',
+    duplicateId: 'fix',
+    outOfOrder: 'fix',
+    amountOutlier: 'keep'
+  },
+  outlierThreshold: 3.5
+};
+
+const PROFILED_FIELDS: (keyof Transaction)[] = [
+  'id', 'clientId', 'counterpartyId', 'amount', 'currency', 'timestamp', 'step', 'type', 'category',
+  'location', 'merchant', 'oldBalanceOrig', 'newBalanceOrig', 'oldBalanceDest', 'newBalanceDest', 'trueLabel'
+];
+
+const SEVERITY: DataQualityAction[] = ['keep', 'fix', 'quarantine', 'reject'];
+
+// Enough to show what was set aside and why; quarantinedIssues counts the rest
+const MAX_QUARANTINED_SAMPLES = 500;
+
+// 1.4826 × MAD estimates the standard deviation of normally distributed data
+const MAD_SCALE = 1.4826;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const hasValue = (value: unknown) => value !== undefined && value !== '';
+
+// Every field but the ID and what FX normalisation derives from the others
+const contentKey = (t: Transaction) => [
+  t.clientId, t.counterpartyId, t.amount, t.currency, t.timestamp, t.step, t.type, t.category, t.location, t.merchant,
+  t.oldBalanceOrig, t.newBalanceOrig, t.oldBalanceDest, t.newBalanceDest, t.trueLabel
+].map(v => v ?? '').join('\u0001');
+
+// 53-bit string hash (cyrb53). Duplicate rows are remembered by the hash of their content rather
+// than the content itself; a million distinct rows contain a colliding pair with odds of about 1 in 20,000.
+const hashKey = (key: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < key.length; i++) {
+    const ch = key.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+const median = (sorted: Float64Array) => {
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/** Bounds of the log amount beyond which an amount is an outlier, or null when amounts do not vary. */
+const logAmountBounds = (transactions: Transaction[], threshold: number) => {
+  const logs = Float64Array.from(transactions.map(baseAmountOf).filter(a => a > 0), Math.log1p).sort();
+  if (logs.length === 0) return null;
+  const center = median(logs);
+  const spread = MAD_SCALE * median(logs.map(x => Math.abs(x - center)).sort());
+  if (spread === 0) return null;
+  return { lower: center - threshold * spread, upper: center + threshold * spread };
+};
+
+/**
+ * The data-quality stage for an upload, fed its imported (FX-normalised) transactions chunk by
+ * chunk in file order, so the file never has to be held whole. Amount outlier bounds are
+ * estimated from `outlierSample`, normally the first OUTLIER_SAMPLE_SIZE rows.
+ * `assess` returns the rows ready to score, with fixes applied. When out-of-order rows are
+ * fixed it holds back the latest REORDER_WINDOW rows so that late ones can be put in time
+ * order, and `flush` releases them once the file is done. `report` summarises the rows seen;
+ * the first quarantined rows are kept in it as they were imported.
+ */
+export const createDataQualityStage = (policy: DataQualityPolicy, outlierSample: Transaction[]) => {
+  const bounds = logAmountBounds(outlierSample, policy.outlierThreshold);
+  const checks = Object.fromEntries(
+    DATA_QUALITY_CHECKS.map(({ check }) => [check, { count: 0, action: policy.actions[check] }])
+  ) as DataQualityReport['checks'];
+  const present = new Map<keyof Transaction, number>(PROFILED_FIELDS.map(field => [field, 0]));
+  // Original IDs and the ones given to fixed duplicates; rows by a hash of their content
+  const seenIds = new Set<string>();
+  const seenRows = new Set<number>();
+  const quarantinedIssues: DataQualityReport['quarantinedIssues'] = {};
+  const quarantinedSamples: QuarantinedRow[] = [];
+  const reorder = policy.actions.outOfOrder === 'fix';
+  let held: { transaction: Transaction; time: number }[] = [];
+  let rowsIn = 0;
+  let rowsOut = 0;
+  let fixed = 0;
+  let quarantined = 0;
+  let rejected = 0;
+  let labelled = 0;
+  let fraud = 0;
+  let previousTime = -Infinity;
+
+  const uniqueId = (id: string) => {
+    let candidate = id;
+    for (let n = 2; seenIds.has(candidate); n++) candidate = `${id}-${n}`;
+    seenIds.add(candidate);
+    return candidate;
+  };
+
+  // Returns the row to score (fixed if need be), or null when it is quarantined or rejected
+  const assessRow = (t: Transaction): Transaction | null => {
+    const row = ++rowsIn;
+    PROFILED_FIELDS.forEach(field => { if (hasValue(t[field])) present.set(field, present.get(field)! + 1); });
+    const base = baseAmountOf(t);
+    const time = Date.parse(t.timestamp);
+    const key = hashKey(contentKey(t));
+    const logAmount = Math.log1p(base);
+    const issues: DataQualityCheck[] = [];
+    if (t.clientId === '') issues.push('missingClient');
+    if (t.amount <= 0) issues.push('nonPositiveAmount');
+    if (seenRows.has(key)) issues.push('duplicateRow');
+    if (seenIds.has(t.id)) issues.push('duplicateId');
+    if (time < previousTime) issues.push('outOfOrder');
+    if (bounds && base > 0 && (logAmount < bounds.lower || logAmount > bounds.upper)) issues.push('amountOutlier');
+    seenRows.add(key);
+    seenIds.add(t.id);
+    previousTime = time;
+    issues.forEach(check => checks[check].count++);
+
+    // A zero amount has no absolute value to fall back on
+    const actionFor = (check: DataQualityCheck) =>
+      check === 'nonPositiveAmount' && policy.actions[check] === 'fix' && t.amount === 0 ? 'quarantine' : policy.actions[check];
+    const action = issues.reduce<DataQualityAction>(
+      (strictest, check) => SEVERITY.indexOf(actionFor(check)) > SEVERITY.indexOf(strictest) ? actionFor(check) : strictest, 'keep');
+
+    if (action === 'reject') {
+      rejected++;
+      return null;
+    }
+    if (action === 'quarantine') {
+      quarantined++;
+      issues.forEach(check => { quarantinedIssues[check] = (quarantinedIssues[check] || 0) + 1; });
+      if (quarantinedSamples.length < MAX_QUARANTINED_SAMPLES) quarantinedSamples.push({ row, transaction: t, issues });
+      return null;
+    }
+
+    const fixes = issues.filter(check => policy.actions[check] === 'fix');
+    let passed = t;
+    if (fixes.length > 0) {
+      passed = { ...t };
+      fixes.forEach(check => {
+        if (check === 'missingClient') passed.clientId = `Unknown-${row}`;
+        if (check === 'nonPositiveAmount') {
+          passed.amount = -t.amount;
+          if (t.baseAmount !== undefined) passed.baseAmount = -t.baseAmount;
+        }
+        if (check === 'duplicateId') passed.id = uniqueId(t.id);
+        // outOfOrder: put in time order by release below
+        if (check === 'amountOutlier' && bounds) {
+          const capped = round2(Math.expm1(logAmount > bounds.upper ? bounds.upper : bounds.lower));
+          passed.amount = round2(t.amount * capped / base);
+          if (t.baseAmount !== undefined) passed.baseAmount = capped;
+        }
+      });
+      fixed++;
+    }
+    rowsOut++;
+    if (passed.trueLabel === 0 || passed.trueLabel === 1) labelled++;
+    if (passed.trueLabel === 1) fraud++;
+    return passed;
+  };
+
+  // Stable, so rows at the same time keep their file order
+  const release = (keep: number): Transaction[] => {
+    if (held.length <= keep) return [];
+    held.sort((a, b) => a.time - b.time);
+    const ready = held.slice(0, held.length - keep).map(h => h.transaction);
+    held = held.slice(held.length - keep);
+    return ready;
+  };
+
+  /** Checks the next rows of the file and returns those ready to score. */
+  const assess = (transactions: Transaction[]): Transaction[] => {
+    const passed: Transaction[] = [];
+    transactions.forEach(t => {
+      const result = assessRow(t);
+      if (result) passed.push(result);
+    });
+    if (!reorder) return passed;
+    passed.forEach(t => held.push({ transaction: t, time: Date.parse(t.timestamp) }));
+    return release(REORDER_WINDOW);
+  };
+
+  /** The rows still held back for reordering, once the file is done. */
+  const flush = (): Transaction[] => release(0);
+
+  // Missing counts rows reaching the stage without a value, less those whose value the importer
+  // dropped as unparseable, plus rows skipped for lacking a required value
+  const report = (importReport: ImportReport): DataQualityReport => ({
+    rowsIn,
+    rowsOut,
+    fixed,
+    quarantined,
+    rejected,
+    checks,
+    columns: PROFILED_FIELDS.map(field => {
+      const imported = importReport.fieldIssues[field] ?? { missing: 0, unparseable: 0 };
+      return {
+        field,
+        present: present.get(field)!,
+        missing: Math.max(0, rowsIn - present.get(field)! - imported.unparseable) + imported.missing,
+        unparseable: imported.unparseable
+      };
+    }),
+    labels: { labelled, fraud, prevalence: labelled > 0 ? fraud / labelled : null },
+    outlierBounds: bounds ? { lower: round2(Math.expm1(bounds.lower)), upper: round2(Math.expm1(bounds.upper)) } : null,
+    quarantinedIssues,
+    quarantinedSamples,
+    policy
+  });
+
+  return { assess, flush, report };
+};
+
+export type DataQualityStage = ReturnType<typeof createDataQualityStage>;
@@ -0,0 +1,133 @@
+import { AlertPolicy, BaseModel, DecisionContext, DecisionModel, DecisionPolicy, EnrichedTransaction, EnsembleConfig, FraudAnalysis, LogisticRegressionModel, ScoreCalibration, ScoringModels } from '../types';
+import { applyCalibration } from './calibration';
+import { scoreIsolationForest } from './isolationForest';
+import { fitLogisticRegression, predictLogisticRegression } from './logisticRegression';
+import { toFeatureMatrix } from './modelFeatures';
+import { alertPolicyForThreshold } from './thresholdOptimizer';
+
+export const BASE_MODELS: BaseModel[] = ['rules', 'isolationForest', 'logisticRegression'];
+
+export const DECISION_MODEL_LABELS: Record<DecisionModel, string> = {
+  rules: 'Rule-Based',
+  isolationForest: 'Isolation Forest',
+  logisticRegression: 'Logistic Regression',
+  ensemble: 'Ensemble'
+};
+
+export const DEFAULT_ENSEMBLE_CONFIG: EnsembleConfig = {
+  method: 'weighted',
+  weights: { rules: 1, isolationForest: 1, logisticRegression: 1 }
+};
+
+export const DEFAULT_DECISION_POLICY: DecisionPolicy = {
+  champion: 'rules',
+  challenger: null,
+  ensemble: DEFAULT_ENSEMBLE_CONFIG,
+  thresholds: {}
+};
+
+const round4 = (v: number) => parseFloat(v.toFixed(4));
+
+export const riskLevelFor = (score: number, policy: AlertPolicy): FraudAnalysis['riskLevel'] => {
+  if (score > policy.riskBands.critical) return 'CRITICAL';
+  if (score > policy.riskBands.high) return 'HIGH';
+  if (score > policy.riskBands.medium) return 'MEDIUM';
+  return 'LOW';
+};
+
+/** Weighted average of the base scores; models with zero weight are ignored. */
+export const weightedEnsembleScore = (scores: Record<BaseModel, number>, weights: Record<BaseModel, number>): number => {
+  const total = BASE_MODELS.reduce((acc, m) => acc + Math.max(weights[m], 0), 0);
+  if (total === 0) return scores.rules;
+  return BASE_MODELS.reduce((acc, m) => acc + Math.max(weights[m], 0) * scores[m], 0) / total;
+};
+
+/** Logistic meta-learner over the three base scores (stacking). */
+export const fitStacker = (scores: Record<BaseModel, number>[], labels: number[]): LogisticRegressionModel =>
+  fitLogisticRegression(scores.map(s => BASE_MODELS.map(m => s[m])), labels, [...BASE_MODELS]);
+
+export const stackedEnsembleScore = (scores: Record<BaseModel, number>, stacker: LogisticRegressionModel): number =>
+  predictLogisticRegression(stacker, BASE_MODELS.map(m => scores[m]));
+
+/**
+ * The raw-score cut-off a learned model flags at unless the policy sets one, as in Stage 3:
+ * the forest's contamination threshold, 0.5 for the weighted average, and strictly above 0.5
+ * for the probabilities (scores are rounded to 4 decimals, so that is >= 0.5001).
+ */
+export const defaultModelThreshold = (model: Exclude<DecisionModel, 'rules'>, models: ScoringModels, ensemble: EnsembleConfig): number => {
+  if (model === 'isolationForest') return models.isolationForest.threshold;
+  if (model === 'ensemble' && ensemble.method === 'weighted') return 0.5;
+  return 0.5001;
+};
+
+/** A learned model's map to a fraud probability; the weighted ensemble's only while the weights are those it was fitted with. */
+const calibrationFor = (model: DecisionModel, models: ScoringModels, ensemble: EnsembleConfig): ScoreCalibration | undefined => {
+  const calibration = models.calibration;
+  if (!calibration || model === 'rules') return undefined;
+  if (model !== 'ensemble') return calibration[model];
+  const weighted = calibration.weightedEnsemble;
+  return ensemble.method === 'weighted' && weighted && BASE_MODELS.every(m => weighted.weights[m] === ensemble.weights[m])
+    ? weighted.calibration
+    : undefined;
+};
+
+/**
+ * CHAMPION / CHALLENGER
+ * Scores a rule-scored transaction with the fitted models the policy needs and lets the
+ * champion's score drive fraudScore, isSuspicious and riskLevel. The rules are held to the
+ * AlertPolicy, a learned model to its own cut-off with risk bands that follow it. A learned
+ * model's score is reported as a fraud probability where Stage 3 fitted it a calibration,
+ * with the bands mapped alike; the cut-off still applies to the raw score, so calibration
+ * never changes which transactions are flagged. The challenger is scored alongside, against
+ * its own cut-off, for comparison only. A model that cannot be scored (Stage 3 has not run,
+ * or a stacked ensemble without a trained meta-learner) falls back to the rules, and
+ * decisionModel records what actually decided. modelVersion records the registry version.
+ */
+export const decideTransaction = (txn: EnrichedTransaction, policy: AlertPolicy, decision: DecisionContext | null): EnrichedTransaction => {
+  const rules = txn.modelScores?.rules ?? txn.fraudScore;
+  const rawScores: Partial<Record<DecisionModel, number>> = { rules };
+  const models = decision?.models;
+  const wanted = decision ? [decision.policy.champion, decision.policy.challenger] : [];
+
+  if (models && wanted.some(m => m && m !== 'rules')) {
+    const row = toFeatureMatrix([txn])[0];
+    rawScores.isolationForest = round4(scoreIsolationForest(models.isolationForest, row));
+    rawScores.logisticRegression = round4(predictLogisticRegression(models.logisticRegression, row));
+    const base = rawScores as Record<BaseModel, number>;
+    const ensemble = decision!.policy.ensemble;
+    if (ensemble.method === 'weighted') rawScores.ensemble = round4(weightedEnsembleScore(base, ensemble.weights));
+    else if (models.stacker) rawScores.ensemble = round4(stackedEnsembleScore(base, models.stacker));
+  }
+
+  const calibrationOf = (model: DecisionModel) => models && calibrationFor(model, models, decision!.policy.ensemble);
+  const calibrated = (model: DecisionModel, score: number) => {
+    const calibration = calibrationOf(model);
+    return calibration ? round4(applyCalibration(calibration, score)) : score;
+  };
+  const modelScores: Partial<Record<DecisionModel, number>> = {};
+  (Object.keys(rawScores) as DecisionModel[]).forEach(m => { modelScores[m] = calibrated(m, rawScores[m]!); });
+
+  const resolve = (model: DecisionModel | null | undefined): DecisionModel | undefined =>
+    model && rawScores[model] !== undefined ? model : undefined;
+  const decisionModel = resolve(decision?.policy.champion) || 'rules';
+  const challengerModel = resolve(decision?.policy.challenger);
+  const fraudScore = modelScores[decisionModel]!;
+  // The flag compares the raw score with the cut-off unrounded, as Stage 3 does
+  const cutoffFor = (model: DecisionModel) => model === 'rules'
+    ? policy.threshold
+    : decision!.policy.thresholds[model] ?? defaultModelThreshold(model, models!, decision!.policy.ensemble);
+  const cutoff = cutoffFor(decisionModel);
+
+  return {
+    ...txn,
+    fraudScore,
+    decisionCalibrated: decisionModel === 'rules' ? txn.calibrationMethod !== undefined : calibrationOf(decisionModel) !== undefined,
+    isSuspicious: rawScores[decisionModel]! >= cutoff,
+    riskLevel: riskLevelFor(fraudScore, decisionModel === 'rules' ? policy : alertPolicyForThreshold(calibrated(decisionModel, cutoff))),
+    modelScores,
+    decisionModel,
+    challengerModel,
+    challengerSuspicious: challengerModel ? rawScores[challengerModel]! >= cutoffFor(challengerModel) : undefined,
+    modelVersion: decision?.modelVersion
+  };
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { BatchProfile, EnrichedTransaction } from '../types';
+import { compareProfiles, DEFAULT_DRIFT_SETTINGS, profileBatch, referenceFor } from './drift';
+
+// Only the fields being profiled; the rest of EngineeredFeatures stays missing
+const rows = (scores: number[], zscore: (i: number) => number = () => 0): EnrichedTransaction[] =>
+  scores.map((fraudScore, i) => ({ fraudScore, amount_zscore: zscore(i), is_rapid_transaction: i % 2 === 0 }) as unknown as EnrichedTransaction);
+
+const profile = (id: string, scores: number[], zscore?: (i: number) => number): BatchProfile =>
+  ({ ...profileBatch(rows(scores, zscore), null, `${id}.csv`), id });
+
+const spread = (n: number, offset = 0) => Array.from({ length: n }, (_, i) => Math.min(0.999, offset + (i % 50) / 100));
+
+describe('profileBatch', () => {
+  it('summarises features and scores with nearest-rank percentiles', () => {
+    const batch = profileBatch(rows([0.05, 0.15, 0.95], i => i * 2), null, 'a.csv');
+    expect(batch).toMatchObject({ label: 'a.csv', size: 3 });
+    expect(batch.features.amount_zscore).toMatchObject({ count: 3, missing: 0, mean: 2 });
+    expect(batch.features.amount_zscore.quantiles).toHaveLength(101);
+    expect(batch.features.amount_zscore.quantiles[50]).toBe(2);
+    expect(batch.features.is_rapid_transaction.mean).toBeCloseTo(2 / 3);
+    expect(batch.features.client_amount_mean).toMatchObject({ count: 0, missing: 3, quantiles: [] });
+    expect(batch.scores.fraudScore.histogram).toEqual([1, 1, 0, 0, 0, 0, 0, 0, 0, 1]);
+    // Rule scores fall back to the decision score; model scores need Stage 3 models
+    expect(batch.scores.rules).toEqual(batch.scores.fraudScore);
+    expect(Object.keys(batch.scores)).toEqual(['fraudScore', 'rules']);
+  });
+});
+
+describe('compareProfiles', () => {
+  it('finds no drift between identical batches', () => {
+    const report = compareProfiles(profile('a', spread(200)), profile('b', spread(200)), 0.25);
+    expect(report).toMatchObject({ referenceId: 'a', currentId: 'b', driftedCount: 0 });
+    expect(report.metrics.every(m => m.psi === 0 && m.ks === 0)).toBe(true);
+    // Features without values in either batch are skipped
+    expect(report.metrics.map(m => m.name).sort()).toEqual(['amount_zscore', 'fraudScore', 'is_rapid_transaction', 'rules']);
+  });
+
+  it('flags shifted columns, largest PSI first', () => {
+    const report = compareProfiles(profile('a', spread(200), i => i % 10), profile('b', spread(200, 0.5), i => (i % 10) + 3), 0.25);
+    expect(report.metrics.map(m => m.name).slice(0, 3).sort()).toEqual(['amount_zscore', 'fraudScore', 'rules']);
+    expect(report.metrics[0].psi).toBeGreaterThanOrEqual(report.metrics[1].psi);
+    const fraudScore = report.metrics.find(m => m.name === 'fraudScore')!;
+    expect(fraudScore).toMatchObject({ kind: 'score', drifted: true });
+    expect(fraudScore.ks).toBeGreaterThan(0.9);
+    expect(report.metrics.find(m => m.name === 'is_rapid_transaction')).toMatchObject({ kind: 'feature', psi: 0, drifted: false });
+    expect(report.driftedCount).toBe(3);
+  });
+});
+
+describe('referenceFor', () => {
+  const [a, b, c] = ['a', 'b', 'c'].map(id => profile(id, [0.1]));
+
+  it('compares with the pinned batch or else the previous one', () => {
+    expect(referenceFor([a, b, c], c, { ...DEFAULT_DRIFT_SETTINGS, referenceId: 'a' })).toBe(a);
+    expect(referenceFor([a, b, c], c, DEFAULT_DRIFT_SETTINGS)).toBe(b);
+    expect(referenceFor([a, b, c], c, { ...DEFAULT_DRIFT_SETTINGS, referenceId: 'c' })).toBe(b);
+    expect(referenceFor([a, b, c], a, DEFAULT_DRIFT_SETTINGS)).toBeNull();
+  });
+});
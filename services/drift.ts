@@ -0,0 +1,160 @@
+import { BatchProfile, DistributionSummary, DriftMetric, DriftReport, DriftSettings, EnrichedTransaction, ScoringModels } from '../types';
+import { FEATURE_FIELDS } from './ruleEngine';
+import { scoreIsolationForest } from './isolationForest';
+import { predictLogisticRegression } from './logisticRegression';
+import { toFeatureMatrix } from './modelFeatures';
+
+/**
+ * PSI rule of thumb: below 0.1 stable, 0.1-0.25 worth watching, above 0.25 a significant shift.
+ */
+export const DEFAULT_DRIFT_SETTINGS: DriftSettings = {
+  referenceId: null,
+  psiThreshold: 0.25
+};
+
+export const SCORE_LABELS: Record<string, string> = {
+  fraudScore: 'Decision score',
+  rules: 'Rule-Based',
+  isolationForest: 'Isolation Forest',
+  logisticRegression: 'Logistic Regression'
+};
+
+const QUANTILES = 100;
+const SCORE_BINS = 10;
+const PSI_BINS = 10;
+// Floor for empty bins, otherwise a bin seen in only one batch makes PSI infinite
+const PSI_EPSILON = 1e-4;
+
+const round4 = (v: number) => parseFloat(v.toFixed(4));
+const compact = (v: number) => parseFloat(v.toPrecision(6));
+
+const summarise = (values: (number | undefined)[], withHistogram = false): DistributionSummary => {
+  const present = values.filter((v): v is number => v !== undefined && Number.isFinite(v)).sort((a, b) => a - b);
+  const n = present.length;
+  const summary: DistributionSummary = {
+    count: n,
+    missing: values.length - n,
+    mean: n === 0 ? 0 : compact(present.reduce((acc, v) => acc + v, 0) / n),
+    // Nearest-rank percentiles, so discrete values (flags, counts) are kept exactly
+    quantiles: n === 0 ? [] : Array.from({ length: QUANTILES + 1 }, (_, q) => compact(present[Math.round((q / QUANTILES) * (n - 1))]))
+  };
+  if (withHistogram) {
+    summary.histogram = new Array(SCORE_BINS).fill(0);
+    present.forEach(v => { summary.histogram![Math.min(SCORE_BINS - 1, Math.max(0, Math.floor(v * SCORE_BINS)))]++; });
+  }
+  return summary;
+};
+
+const featureValue = (txn: EnrichedTransaction, field: string): number | undefined => {
+  const value = txn[field as keyof EnrichedTransaction];
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return typeof value === 'number' ? value : undefined;
+};
+
+/**
+ * Summarises the engineered features and scores of a batch. Model scores are only
+ * included when Stage 3 models are given.
+ */
+export const profileBatch = (transactions: EnrichedTransaction[], models: ScoringModels | null, label: string): BatchProfile => {
+  const features: Record<string, DistributionSummary> = {};
+  FEATURE_FIELDS.forEach(field => {
+    features[field] = summarise(transactions.map(t => featureValue(t, field)));
+  });
+
+  const scores: Record<string, DistributionSummary> = {
+    fraudScore: summarise(transactions.map(t => t.fraudScore), true),
+    rules: summarise(transactions.map(t => t.modelScores?.rules ?? t.fraudScore), true)
+  };
+  if (models) {
+    const rows = toFeatureMatrix(transactions);
+    scores.isolationForest = summarise(rows.map(r => scoreIsolationForest(models.isolationForest, r)), true);
+    scores.logisticRegression = summarise(rows.map(r => predictLogisticRegression(models.logisticRegression, r)), true);
+  }
+
+  const createdAt = new Date().toISOString();
+  return { id: `batch-${Date.now().toString(36)}`, label, createdAt, size: transactions.length, features, scores };
+};
+
+// Share of the batch at or below x, read off the stored percentiles (accurate to about 1%)
+const ecdf = (summary: DistributionSummary, x: number): number => {
+  const q = summary.quantiles;
+  let lo = 0, hi = q.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (q[mid] <= x) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo / q.length;
+};
+
+const psi = (reference: number[], current: number[]): number =>
+  reference.reduce((acc, r, i) => {
+    const ref = Math.max(r, PSI_EPSILON);
+    const cur = Math.max(current[i], PSI_EPSILON);
+    return acc + (cur - ref) * Math.log(cur / ref);
+  }, 0);
+
+// Bins at the reference deciles; deciles that coincide (flags, counts) collapse into one edge
+const quantileBinShares = (summary: DistributionSummary, edges: number[]): number[] => {
+  const cumulative = [...edges.map(e => ecdf(summary, e)), 1];
+  return cumulative.map((c, i) => c - (i === 0 ? 0 : cumulative[i - 1]));
+};
+
+const histogramShares = (histogram: number[]): number[] => {
+  const total = histogram.reduce((acc, c) => acc + c, 0) || 1;
+  return histogram.map(c => c / total);
+};
+
+const ksStatistic = (reference: DistributionSummary, current: DistributionSummary): number => {
+  const points = new Set([...reference.quantiles, ...current.quantiles]);
+  let max = 0;
+  points.forEach(x => { max = Math.max(max, Math.abs(ecdf(reference, x) - ecdf(current, x))); });
+  return max;
+};
+
+const compareSummaries = (name: string, kind: DriftMetric['kind'], reference: DistributionSummary, current: DistributionSummary, psiThreshold: number): DriftMetric => {
+  let value: number;
+  if (reference.histogram && current.histogram) {
+    // Scores live on [0, 1], so fixed-width bins compare them directly
+    value = psi(histogramShares(reference.histogram), histogramShares(current.histogram));
+  } else {
+    const edges = Array.from(new Set(
+      Array.from({ length: PSI_BINS - 1 }, (_, k) => reference.quantiles[((k + 1) * QUANTILES) / PSI_BINS])
+    ));
+    value = psi(quantileBinShares(reference, edges), quantileBinShares(current, edges));
+  }
+  return {
+    name,
+    kind,
+    psi: round4(value),
+    ks: round4(ksStatistic(reference, current)),
+    referenceMean: reference.mean,
+    currentMean: current.mean,
+    drifted: value > psiThreshold
+  };
+};
+
+/**
+ * PSI and KS of every feature and score present (with values) in both batches.
+ */
+export const compareProfiles = (reference: BatchProfile, current: BatchProfile, psiThreshold: number): DriftReport => {
+  const metrics: DriftMetric[] = [];
+  const collect = (kind: DriftMetric['kind'], ref: Record<string, DistributionSummary>, cur: Record<string, DistributionSummary>) => {
+    Object.keys(cur).forEach(name => {
+      if (!ref[name] || ref[name].count === 0 || cur[name].count === 0) return;
+      metrics.push(compareSummaries(name, kind, ref[name], cur[name], psiThreshold));
+    });
+  };
+  collect('feature', reference.features, current.features);
+  collect('score', reference.scores, current.scores);
+  metrics.sort((a, b) => b.psi - a.psi);
+  return { referenceId: reference.id, currentId: current.id, metrics, driftedCount: metrics.filter(m => m.drifted).length };
+};
+
+/** The configured reference batch, or the batch before `current` when none is set (or it is `current` itself). */
+export const referenceFor = (profiles: BatchProfile[], current: BatchProfile, settings: DriftSettings): BatchProfile | null => {
+  const pinned = profiles.find(p => p.id === settings.referenceId && p.id !== current.id);
+  if (pinned) return pinned;
+  const index = profiles.findIndex(p => p.id === current.id);
+  return index > 0 ? profiles[index - 1] : null;
+};
@@ -0,0 +1,63 @@
+import { BatchProfile, DriftSettings } from '../types';
+import { DEFAULT_DRIFT_SETTINGS } from './drift';
+
+const PROFILES_STORAGE_KEY = 'fraud_detect_batch_profiles';
+const DRIFT_SETTINGS_STORAGE_KEY = 'fraud_detect_drift_settings';
+
+// Each profile is a few tens of KB, so only the most recent batches are kept
+const MAX_PROFILES = 12;
+
+export const loadBatchProfiles = (): BatchProfile[] => {
+  const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(p => typeof p?.id === 'string' && p.features && p.scores) : [];
+  } catch (e) {
+    console.error("Stored batch profiles are corrupt, starting a new history", e);
+    return [];
+  }
+};
+
+const saveBatchProfiles = (profiles: BatchProfile[]) => {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.error("Could not store batch profiles (storage full?)", e);
+  }
+};
+
+/**
+ * Appends a batch to the history and returns the new history. The oldest batches are
+ * dropped beyond MAX_PROFILES, except the pinned reference batch.
+ */
+export const storeBatchProfile = (profile: BatchProfile, referenceId: string | null): BatchProfile[] => {
+  let profiles = [...loadBatchProfiles(), profile];
+  while (profiles.length > MAX_PROFILES) {
+    const drop = profiles.findIndex(p => p.id !== referenceId);
+    profiles = profiles.filter((_, i) => i !== drop);
+  }
+  saveBatchProfiles(profiles);
+  return profiles;
+};
+
+export const clearBatchProfiles = (): BatchProfile[] => {
+  localStorage.removeItem(PROFILES_STORAGE_KEY);
+  return [];
+};
+
+export const loadDriftSettings = (): DriftSettings => {
+  const stored = localStorage.getItem(DRIFT_SETTINGS_STORAGE_KEY);
+  if (!stored) return DEFAULT_DRIFT_SETTINGS;
+  try {
+    const parsed = JSON.parse(stored);
+    return typeof parsed?.psiThreshold === 'number' ? { ...DEFAULT_DRIFT_SETTINGS, ...parsed } : DEFAULT_DRIFT_SETTINGS;
+  } catch (e) {
+    console.error("Stored drift settings are corrupt, falling back to defaults", e);
+    return DEFAULT_DRIFT_SETTINGS;
+  }
+};
+
+export const saveDriftSettings = (settings: DriftSettings) => {
+  localStorage.setItem(DRIFT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
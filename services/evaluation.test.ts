@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction, TransactionType } from '../types';
+import { bootstrapMetrics, kFoldIndices, percentileInterval, splitByStep, stepOf } from './evaluation';
+import { createRng } from './random';
+
+const txn = (step: number | undefined, timestamp = '2023-01-01T00:00:00.000Z'): Transaction => ({
+  id: `T${step}`, clientId: 'C', amount: 10, currency: 'USD', timestamp, step, category: 'PAYMENT', location: 'X', type: TransactionType.PAYMENT
+});
+
+const OPTIONS = { bootstrapSamples: 200, confidenceLevel: 0.95, seed: 7 };
+
+describe('stepOf', () => {
+  it('falls back to the hour of the timestamp', () => {
+    expect(stepOf(txn(12))).toBe(12);
+    expect(stepOf(txn(undefined, '1970-01-02T03:30:00.000Z'))).toBe(27);
+  });
+});
+
+describe('splitByStep', () => {
+  it('puts the latest whole steps in the test set', () => {
+    const rows = [1, 1, 2, 2, 3, 3, 3, 4].map(s => txn(s));
+    expect(splitByStep(rows, 0.3)).toEqual({ train: [0, 1, 2, 3], test: [4, 5, 6, 7], splitStep: 2 });
+  });
+
+  it('keeps one training step and needs at least two', () => {
+    expect(splitByStep([1, 2, 3].map(s => txn(s)), 1)).toEqual({ train: [0], test: [1, 2], splitStep: 1 });
+    expect(splitByStep([5, 5].map(s => txn(s)), 0.3)).toBeNull();
+  });
+});
+
+describe('kFoldIndices', () => {
+  it('deals every row into one fold of nearly equal size', () => {
+    const folds = kFoldIndices(10, 3, createRng(1));
+    expect(folds.map(f => f.length)).toEqual([4, 3, 3]);
+    expect(folds.flat().sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(kFoldIndices(10, 3, createRng(1))).toEqual(folds);
+  });
+});
+
+describe('percentileInterval', () => {
+  it('takes the tails of the sorted samples', () => {
+    const samples = Array.from({ length: 101 }, (_, i) => (100 - i) / 100);
+    expect(percentileInterval(samples, 0.9)).toEqual({ lower: 0.05, upper: 0.95 });
+    expect(percentileInterval([], 0.9)).toEqual({ lower: 0, upper: 0 });
+  });
+});
+
+describe('bootstrapMetrics', () => {
+  const truth = Array.from({ length: 100 }, (_, i) => (i % 4 === 0 ? 1 : 0));
+  const noisy = { scores: truth.map((t, i) => t * 0.4 + ((i * 37) % 11) / 20), preds: truth.map((t, i) => (i % 3 === 0 ? 1 - t : t)) };
+
+  it('gives a degenerate interval for a perfect model', () => {
+    const perfect = { scores: truth.slice(), preds: truth.slice() };
+    const { intervals, aucSamples } = bootstrapMetrics([perfect], truth, OPTIONS);
+    expect(intervals[0].rocAuc).toEqual({ lower: 1, upper: 1 });
+    expect(intervals[0].f1Score).toEqual({ lower: 1, upper: 1 });
+    expect(aucSamples[0]).toHaveLength(200);
+  });
+
+  it('scores every model on the same seeded replicates', () => {
+    const { intervals, aucSamples } = bootstrapMetrics([noisy, { ...noisy }], truth, OPTIONS);
+    expect(aucSamples[1]).toEqual(aucSamples[0]);
+    expect(intervals[0].rocAuc.lower).toBeLessThan(intervals[0].rocAuc.upper);
+    expect(bootstrapMetrics([noisy], truth, OPTIONS).intervals[0]).toEqual(intervals[0]);
+  });
+});
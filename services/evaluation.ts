@@ -0,0 +1,140 @@
+import { EvaluationOptions, MetricInterval, ModelMetrics, Transaction } from '../types';
+import { createRng, Rng } from './random';
+
+export const DEFAULT_EVALUATION_OPTIONS: EvaluationOptions = {
+  mode: 'in-sample',
+  testFraction: 0.3,
+  folds: 5,
+  bootstrapSamples: 200,
+  confidenceLevel: 0.95,
+  seed: 7
+};
+
+const round4 = (v: number) => parseFloat(v.toFixed(4));
+
+/** PaySim step when the file has one, otherwise the hour the transaction falls in. */
+export const stepOf = (txn: Transaction): number =>
+  txn.step ?? Math.floor(new Date(txn.timestamp).getTime() / (1000 * 60 * 60));
+
+/**
+ * Out-of-time split: the latest steps (about `testFraction` of the rows) are the test set.
+ * A step is never split across train and test. Returns null when the batch has a single step.
+ */
+export const splitByStep = (transactions: Transaction[], testFraction: number) => {
+  const counts = new Map<number, number>();
+  const steps = transactions.map(stepOf);
+  steps.forEach(s => counts.set(s, (counts.get(s) || 0) + 1));
+  const ordered = Array.from(counts.keys()).sort((a, b) => a - b);
+  if (ordered.length < 2) return null;
+
+  // Walk back from the latest step until the test set is big enough, keeping at least one training step
+  const target = testFraction * transactions.length;
+  let testCount = 0;
+  let cut = ordered.length;
+  while (cut > 1 && testCount < target) {
+    cut--;
+    testCount += counts.get(ordered[cut])!;
+  }
+  const splitStep = ordered[cut - 1];
+
+  const train: number[] = [];
+  const test: number[] = [];
+  steps.forEach((s, i) => (s <= splitStep ? train : test).push(i));
+  return { train, test, splitStep };
+};
+
+/** Shuffled assignment of row indices to k folds of (nearly) equal size. */
+export const kFoldIndices = (n: number, folds: number, rng: Rng): number[][] => {
+  const order = Array.from({ length: n }, (_, i) => i);
+  for (let i = n - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  const result: number[][] = Array.from({ length: folds }, () => []);
+  order.forEach((row, k) => result[k % folds].push(row));
+  return result;
+};
+
+export interface ModelPredictions {
+  preds: number[];
+  scores: number[];
+}
+
+type MetricName = keyof NonNullable<ModelMetrics['ci']>;
+const METRIC_NAMES: MetricName[] = ['rocAuc', 'precision', 'recall', 'f1Score'];
+
+// Metrics of one bootstrap replicate, where row i was drawn weights[i] times.
+// `order` is the rows sorted by descending score, so AUC needs no re-sort per replicate.
+const weightedMetrics = (model: ModelPredictions, order: number[], truth: number[], weights: number[]): Record<MetricName, number> => {
+  let tp = 0, fp = 0, fn = 0;
+  truth.forEach((actual, i) => {
+    const w = weights[i];
+    if (w === 0) return;
+    if (model.preds[i] === 1 && actual === 1) tp += w;
+    else if (model.preds[i] === 1) fp += w;
+    else if (actual === 1) fn += w;
+  });
+  const precision = tp + fp === 0 ? 0 : tp / (tp + fp);
+  const recall = tp + fn === 0 ? 0 : tp / (tp + fn);
+  const f1Score = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+
+  // Tie-aware Mann-Whitney AUC, as in calcMetrics
+  let auc = 0, posSoFar = 0, totalPos = 0, totalNeg = 0;
+  for (let start = 0; start < order.length;) {
+    let end = start, tiedPos = 0, tiedNeg = 0;
+    while (end < order.length && model.scores[order[end]] === model.scores[order[start]]) {
+      const i = order[end++];
+      if (truth[i] === 1) tiedPos += weights[i];
+      else tiedNeg += weights[i];
+    }
+    auc += tiedNeg * posSoFar + 0.5 * tiedNeg * tiedPos;
+    posSoFar += tiedPos;
+    totalPos += tiedPos;
+    totalNeg += tiedNeg;
+    start = end;
+  }
+  const rocAuc = totalPos * totalNeg === 0 ? 0.5 : auc / (totalPos * totalNeg);
+
+  return { rocAuc, precision, recall, f1Score };
+};
+
+/** Percentile interval of the samples at the given confidence level. */
+export const percentileInterval = (samples: number[], level: number): MetricInterval => {
+  if (samples.length === 0) return { lower: 0, upper: 0 };
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))))];
+  return { lower: round4(at((1 - level) / 2)), upper: round4(at(1 - (1 - level) / 2)) };
+};
+
+/**
+ * Non-parametric bootstrap over rows. Every model is scored on the same replicates,
+ * so AUC differences between models are paired. Returns a confidence interval per
+ * metric and the raw AUC of each replicate (for comparing models).
+ */
+export const bootstrapMetrics = (
+  models: ModelPredictions[],
+  truth: number[],
+  options: Pick<EvaluationOptions, 'bootstrapSamples' | 'confidenceLevel' | 'seed'>
+) => {
+  const n = truth.length;
+  const rng = createRng(options.seed);
+  const orders = models.map(m => truth.map((_, i) => i).sort((a, b) => m.scores[b] - m.scores[a]));
+  const samples = models.map(() => ({ rocAuc: [] as number[], precision: [] as number[], recall: [] as number[], f1Score: [] as number[] }));
+
+  const weights = new Array(n).fill(0);
+  for (let b = 0; b < options.bootstrapSamples && n > 0; b++) {
+    weights.fill(0);
+    for (let k = 0; k < n; k++) weights[Math.floor(rng() * n)]++;
+    models.forEach((model, m) => {
+      const metrics = weightedMetrics(model, orders[m], truth, weights);
+      METRIC_NAMES.forEach(name => samples[m][name].push(metrics[name]));
+    });
+  }
+
+  return {
+    intervals: samples.map(s => Object.fromEntries(
+      METRIC_NAMES.map(name => [name, percentileInterval(s[name], options.confidenceLevel)])
+    ) as NonNullable<ModelMetrics['ci']>),
+    aucSamples: samples.map(s => s.rocAuc)
+  };
+};
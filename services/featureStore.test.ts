@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { LOCATIONS } from '../constants';
+import { EngineeredFeatures, EnrichedTransaction, Transaction, TransactionType } from '../types';
+import { processBatchWithFeatures, scoreTransaction } from './fraudEngine';
+import { createFeatureStore } from './featureStore';
+import { FEATURE_FIELDS } from './ruleEngine';
+
+const CATEGORIES = ['PAYMENT', 'TRANSFER', 'CASH_OUT'];
+
+// Five clients paying merchants and each other, one transaction every 40 minutes
+const batch = (): Transaction[] => Array.from({ length: 60 }, (_, i) => ({
+  id: `T${i}`,
+  clientId: `C${(i * 3) % 5}`,
+  amount: 10 + ((i * 97) % 400) + (i % 11 === 0 ? 5000 : 0),
+  currency: 'USD',
+  timestamp: new Date(Date.UTC(2023, 0, 1) + i * 40 * 60 * 1000).toISOString(),
+  category: CATEGORIES[(i * 7) % 3],
+  location: LOCATIONS[(i * 5) % 3],
+  counterpartyId: i % 4 === 0 ? `C${(i + 1) % 5}` : `M${i % 6}`,
+  type: TransactionType.PAYMENT
+}));
+
+// Scored rows round some features, so both sides go through scoreTransaction before comparing
+const pick = (txn: EnrichedTransaction, fields: (keyof EngineeredFeatures)[] = FEATURE_FIELDS) =>
+  Object.fromEntries(fields.map(field => [field, txn[field]]));
+
+const GRAPH_FIELDS: (keyof EngineeredFeatures)[] = ['dest_fan_in', 'orig_fan_out', 'dest_is_mule_suspect', 'orig_is_mule_suspect', 'in_short_cycle'];
+
+describe('createFeatureStore', () => {
+  it('matches the full-history batch features for each client\'s newest transaction', () => {
+    const transactions = batch();
+    const store = createFeatureStore();
+    const latest = new Map<string, EnrichedTransaction>();
+    transactions.forEach(txn => latest.set(txn.clientId, scoreTransaction(txn, store.update(txn))));
+
+    // Graph features keep changing as other clients transact, so only the client's own features are compared
+    const own = FEATURE_FIELDS.filter(field => !GRAPH_FIELDS.includes(field));
+    const expected = new Map(processBatchWithFeatures(transactions).map(t => [t.id, t]));
+    latest.forEach(txn => expect(pick(txn, own)).toEqual(pick(expected.get(txn.id)!, own)));
+  });
+
+  it('gives every transaction its full-history features once the batch is folded in', () => {
+    const transactions = batch();
+    const store = createFeatureStore();
+    const streamed = transactions.map(txn => ({ txn, features: store.update(txn) }));
+
+    const expected = new Map(processBatchWithFeatures(transactions).map(t => [t.id, t]));
+    streamed.forEach(({ txn, features }) => {
+      expect(pick(scoreTransaction(txn, store.fullHistory(txn, features)))).toEqual(pick(expected.get(txn.id)!));
+    });
+  });
+
+  it('replays a seeded batch in time order, as point-in-time scoring does', () => {
+    const transactions = batch();
+    const seeded = createFeatureStore();
+    seeded.seed([...transactions].reverse());
+    expect(seeded.clientCount).toBe(5);
+
+    const replayed = createFeatureStore();
+    const byId = new Map(transactions.map(txn => [txn.id, scoreTransaction(txn, replayed.update(txn))]));
+    processBatchWithFeatures(transactions, { pointInTime: true }).forEach(t => expect(pick(t)).toEqual(pick(byId.get(t.id)!)));
+
+    // A live transaction after the seed sees the same history either way
+    const next = { ...transactions[0], id: 'LIVE', timestamp: '2023-01-03T00:00:00.000Z' };
+    expect(seeded.update(next)).toEqual(replayed.update(next));
+
+    seeded.clear();
+    expect(seeded.clientCount).toBe(0);
+  });
+});
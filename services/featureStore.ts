@@ -0,0 +1,164 @@
+import { EngineeredFeatures, Transaction } from '../types';
+import { addToProfile, categoryEntropy, categoryFrequency, CategoryProfile, createCategoryProfile, hasCategory } from './categoryProfile';
+import { computeGeoFeatures, createGeoState, GeoState } from './geo';
+import { createCounterpartyGraph } from './counterpartyGraph';
+import { computeBalanceFeatures } from './balance';
+import { baseAmountOf } from './fx';
+
+const ROLLING_WINDOW = 5;
+
+interface ClientState {
+  count: number;
+  sum: number;
+  mean: number; // Welford running mean
+  m2: number; // Welford sum of squared deviations
+  max: number;
+  lastTimestamp: number | null; // ms
+  window: number[]; // ring buffer of the last ROLLING_WINDOW amounts
+  windowHead: number; // next write position
+  windowSize: number;
+  geo: GeoState;
+  categories: CategoryProfile;
+}
+
+const createClientState = (): ClientState => ({
+  count: 0,
+  sum: 0,
+  mean: 0,
+  m2: 0,
+  max: -Infinity,
+  lastTimestamp: null,
+  window: new Array(ROLLING_WINDOW).fill(0),
+  windowHead: 0,
+  windowSize: 0,
+  geo: createGeoState(),
+  categories: createCategoryProfile()
+});
+
+/**
+ * INCREMENTAL FEATURE STORE
+ * Keeps a small per-client state that is updated online, so scoring a live
+ * transaction costs O(1) instead of re-running the batch pipeline over the
+ * client's history. For a client's newest transaction the features match
+ * processBatchWithFeatures exactly (population std, window of 5, hours between steps).
+ */
+export const createFeatureStore = () => {
+  const clients = new Map<string, ClientState>();
+  // Shared across clients: mule and cycle features need the whole payment network
+  const graph = createCounterpartyGraph();
+
+  /** Folds the transaction into its client's state and returns its features. */
+  const update = (txn: Transaction): EngineeredFeatures => {
+    let state = clients.get(txn.clientId);
+    if (!state) {
+      state = createClientState();
+      clients.set(txn.clientId, state);
+    }
+
+    // Welford's online mean/variance, on the base-currency amount
+    const amount = baseAmountOf(txn);
+    state.count++;
+    const delta = amount - state.mean;
+    state.mean += delta / state.count;
+    state.m2 += delta * (amount - state.mean);
+    state.sum += amount;
+    state.max = Math.max(state.max, amount);
+    // Report sum/count (as the batch path does) so rounding matches to the last digit
+    const mean = state.sum / state.count;
+    const std = Math.sqrt(state.m2 / state.count) || 1;
+
+    // Time delta (hours, like the batch 'step' logic)
+    const currTime = new Date(txn.timestamp).getTime();
+    let timeSinceLast = 0;
+    let isRapid = false;
+    if (state.lastTimestamp !== null) {
+      timeSinceLast = (currTime - state.lastTimestamp) / (1000 * 60 * 60);
+      if (timeSinceLast <= 1) isRapid = true;
+    }
+    state.lastTimestamp = currTime;
+
+    // Rolling window
+    state.window[state.windowHead] = amount;
+    state.windowHead = (state.windowHead + 1) % ROLLING_WINDOW;
+    state.windowSize = Math.min(state.windowSize + 1, ROLLING_WINDOW);
+    const windowValues = state.window.slice(0, state.windowSize);
+    const rollingMean = windowValues.reduce((a, b) => a + b, 0) / state.windowSize;
+    const rollingVariance = windowValues.reduce((acc, v) => acc + Math.pow(v - rollingMean, 2), 0) / state.windowSize;
+    const rollingStd = Math.sqrt(rollingVariance) || 1;
+
+    const zScore = (amount - mean) / std;
+    const geo = computeGeoFeatures(state.geo, txn.location, currTime);
+
+    const isNewCategory = state.categories.total > 0 && !hasCategory(state.categories, txn.category);
+    addToProfile(state.categories, txn.category);
+
+    const counterparty = graph.addEdgeAndScore(txn);
+
+    return {
+      client_amount_mean: mean,
+      client_amount_std: std,
+      client_amount_max: state.max,
+      client_transaction_count: state.count,
+      amount_zscore: zScore,
+      is_amount_outlier: Math.abs(zScore) > 3,
+      time_since_last_trans: timeSinceLast,
+      amount_rolling_mean_5: rollingMean,
+      amount_rolling_std_5: rollingStd,
+      amount_rolling_dev: (amount - rollingMean) / rollingStd,
+      is_rapid_transaction: isRapid,
+      category_freq: categoryFrequency(state.categories, txn.category),
+      is_new_category: isNewCategory,
+      category_entropy: categoryEntropy(state.categories),
+      distance_from_prev_km: geo.distanceKm,
+      travel_speed_kmh: geo.speedKmh,
+      is_new_location: geo.isNewLocation,
+      ...counterparty,
+      ...computeBalanceFeatures(txn)
+    };
+  };
+
+  /**
+   * The full-history features (as processBatchWithFeatures computes them without pointInTime) of
+   * a transaction already folded in, given the features `update` returned for it: client
+   * aggregates, category profile and counterparty graph as they stand now, so including the
+   * client's later transactions. The sequential features do not look ahead and stay as they were.
+   */
+  const fullHistory = (txn: Transaction, features: EngineeredFeatures): EngineeredFeatures => {
+    const state = clients.get(txn.clientId);
+    if (!state) return features;
+    const mean = state.sum / state.count;
+    const std = Math.sqrt(state.m2 / state.count) || 1;
+    const zScore = (baseAmountOf(txn) - mean) / std;
+    return {
+      ...features,
+      client_amount_mean: mean,
+      client_amount_std: std,
+      client_amount_max: state.max,
+      client_transaction_count: state.count,
+      amount_zscore: zScore,
+      is_amount_outlier: Math.abs(zScore) > 3,
+      category_freq: categoryFrequency(state.categories, txn.category),
+      category_entropy: categoryEntropy(state.categories),
+      ...graph.featuresFor(txn)
+    };
+  };
+
+  /** Rebuilds the store from a batch (e.g. after an upload), replayed in time order. */
+  const seed = (transactions: Transaction[]) => {
+    clients.clear();
+    graph.clear();
+    [...transactions]
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .forEach(update);
+  };
+
+  return {
+    update,
+    fullHistory,
+    seed,
+    clear: () => { clients.clear(); graph.clear(); },
+    get clientCount() { return clients.size; }
+  };
+};
+
+export type FeatureStore = ReturnType<typeof createFeatureStore>;
@@ -1,9 +1,74 @@
-import { Transaction, FraudAnalysis, EnrichedTransaction, EngineeredFeatures, Stage3Results, ModelMetrics, TransactionType } from '../types';
+import { AlertPolicy, DecisionContext, LogisticRegressionModel, ModelMetrics, ScoreCalibration, Transaction, EnrichedTransaction, EngineeredFeatures, FeaturePipelineOptions, FraudRule, Stage3Results, Stage3Options, TransactionType } from '../types';
+import { COUNTRY_CURRENCIES, DEFAULT_FX_TABLE, DEFAULT_RULES, LOCATIONS } from '../constants';
+import { createFeatureStore, FeatureStore } from './featureStore';
+import { addToProfile, categoryEntropy, categoryFrequency, createCategoryProfile } from './categoryProfile';
+import { computeGeoFeatures, createGeoState } from './geo';
+import { buildCounterpartyGraph } from './counterpartyGraph';
+import { computeBalanceFeatures } from './balance';
+import { baseAmountOf, convertAmount } from './fx';
+import { fitIsolationForest, scoreIsolationForest } from './isolationForest';
+import { fitLogisticRegression, predictLogisticRegression } from './logisticRegression';
+import { calcCurves, calcMetrics } from './metrics';
+import { bootstrapMetrics, DEFAULT_EVALUATION_OPTIONS, kFoldIndices, percentileInterval, splitByStep } from './evaluation';
+import { createRng } from './random';
+import { applyCalibration, calibrateModel } from './calibration';
+import { decideTransaction, DEFAULT_ENSEMBLE_CONFIG, fitStacker, riskLevelFor, stackedEnsembleScore, weightedEnsembleScore } from './decision';
+import { MODEL_FEATURES, toFeatureMatrix } from './modelFeatures';
+import { DEFAULT_ALERT_POLICY, DEFAULT_COST_MATRIX, optimizeThreshold } from './thresholdOptimizer';
+import { buildRuleContext, evaluateRules, FEATURE_FIELDS } from './ruleEngine';
+
+const round2 = (v: number | undefined) => parseFloat((v || 0).toFixed(2));
 
 /**
- * UTILITY: Sigmoid function for Logistic Regression simulation
+ * STAGE 3.3: RULE-BASED ENGINE
+ * Scores one transaction from its engineered features. Shared by the batch
+ * pipeline and live scoring so both paths produce identical results.
+ * Rules are data (DEFAULT_RULES or the analyst-edited set), evaluated on the raw feature values.
+ * The alert threshold and risk bands come from the AlertPolicy (see thresholdOptimizer.ts).
+ * With a ScoreCalibration the rule score is mapped to a fraud probability first, and the
+ * policy applies to that probability. A DecisionContext can hand the decision to another
+ * model or the ensemble (see decision.ts).
  */
-const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+export const scoreTransaction = (
+  txn: Transaction,
+  features: EngineeredFeatures,
+  rules: FraudRule[] = DEFAULT_RULES,
+  policy: AlertPolicy = DEFAULT_ALERT_POLICY,
+  calibration: ScoreCalibration | null = null,
+  decision: DecisionContext | null = null
+): EnrichedTransaction => {
+  const { score: ruleScore, triggers, reasonCodes, contributions } = evaluateRules(rules, buildRuleContext(txn, features));
+  const rulesScore = calibration ? parseFloat(applyCalibration(calibration, ruleScore).toFixed(4)) : parseFloat(ruleScore.toFixed(2));
+
+  return decideTransaction({
+    ...txn,
+    transactionId: txn.id,
+    fraudScore: rulesScore,
+    ruleScore: parseFloat(ruleScore.toFixed(2)),
+    calibrationMethod: calibration?.method,
+    modelScores: { rules: rulesScore },
+    isSuspicious: rulesScore >= policy.threshold,
+    riskLevel: riskLevelFor(rulesScore, policy),
+    ruleTriggered: triggers.join(', '),
+    reasonCodes,
+    ruleHits: contributions,
+    // Features
+    ...features,
+    client_amount_mean: round2(features.client_amount_mean),
+    client_amount_std: round2(features.client_amount_std),
+    amount_zscore: round2(features.amount_zscore),
+    time_since_last_trans: round2(features.time_since_last_trans),
+    amount_rolling_mean_5: round2(features.amount_rolling_mean_5),
+    amount_rolling_std_5: round2(features.amount_rolling_std_5),
+    amount_rolling_dev: round2(features.amount_rolling_dev),
+    category_freq: round2(features.category_freq),
+    category_entropy: round2(features.category_entropy),
+    distance_from_prev_km: round2(features.distance_from_prev_km),
+    travel_speed_kmh: round2(features.travel_speed_kmh),
+    orig_balance_error: round2(features.orig_balance_error),
+    dest_balance_error: round2(features.dest_balance_error)
+  }, policy, decision);
+};
 
 /**
  * STAGE 1 & 2: FEATURE ENGINEERING PIPELINE
@@ -12,24 +77,52 @@ const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
  * - Calculate Aggregates (Mean, Std, Max)
  * - Calculate Rolling Windows
  * - Create Z-Scores and Velocity features
+ * - Counterparty graph features (fan-in/out, mule suspects, short cycles)
+ * - Balance-consistency features from the PaySim balance columns
+ * - Score with the declarative rule set (options.rules, defaults to DEFAULT_RULES)
+ * options.pointInTime switches the client aggregates to leak-free, as-of-transaction values.
  */
-export const processBatchWithFeatures = (transactions: Transaction[]): EnrichedTransaction[] => {
+export const processBatchWithFeatures = (transactions: Transaction[], options: FeaturePipelineOptions = {}): EnrichedTransaction[] => {
+  const rules = options.rules || DEFAULT_RULES;
+  const policy = options.alertPolicy || DEFAULT_ALERT_POLICY;
+  // Point-in-time mode replays the batch through the incremental store in time order, so every
+  // transaction's features only see history (its client's and the payment graph) up to itself.
+  const pointInTimeFeatures = new Map<Transaction, EngineeredFeatures>();
+  if (options.pointInTime) {
+    const store = createFeatureStore();
+    [...transactions]
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .forEach(t => pointInTimeFeatures.set(t, store.update(t)));
+  }
+  // Full-history mode reads counterparty features off the finished graph
+  const graph = options.pointInTime ? null : buildCounterpartyGraph(transactions);
+
   // 1. Group by Client (nameOrig)
-  const clientGroups: Record<string, Transaction[]> = {};
+  // A Map, as client IDs come from the file and may collide with Object.prototype keys
+  const clientGroups = new Map<string, Transaction[]>();
   transactions.forEach(t => {
-    if (!clientGroups[t.clientId]) clientGroups[t.clientId] = [];
-    clientGroups[t.clientId].push(t);
+    const group = clientGroups.get(t.clientId);
+    if (group) group.push(t);
+    else clientGroups.set(t.clientId, [t]);
   });
 
   const enrichedResults: EnrichedTransaction[] = [];
 
   // 2. Process each client's history
-  Object.values(clientGroups).forEach(group => {
+  clientGroups.forEach(group => {
     // Sort by time (step)
     group.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
 
+    if (!graph) {
+      group.forEach(txn => enrichedResults.push(scoreTransaction(txn, pointInTimeFeatures.get(txn)!, rules, policy, options.calibration, options.decision)));
+      return;
+    }
+
+    // --- Full-history mode (original Python logic) ---
+    // Aggregates below include the client's later transactions, i.e. they look ahead in time.
     // --- Client Aggregates ---
-    const amounts = group.map(t => t.amount);
+    // Amount features use base-currency amounts so mixed-currency clients stay comparable
+    const amounts = group.map(baseAmountOf);
     const sum = amounts.reduce((a, b) => a + b, 0);
     const mean = sum / amounts.length;
     const max = Math.max(...amounts);
@@ -40,17 +133,22 @@ export const processBatchWithFeatures = (transactions: Transaction[]): EnrichedT
 
     // Rolling window state
     const rollingWindow5: number[] = [];
+    const geoState = createGeoState();
+
+    // Category profile over the whole group; "new category" is still sequential
+    const categoryProfile = createCategoryProfile();
+    group.forEach(t => addToProfile(categoryProfile, t.category));
+    const entropy = categoryEntropy(categoryProfile);
+    const seenCategories = new Set<string>();
 
     group.forEach((txn, index) => {
       // --- Feature Calculation ---
       
       // Feature: Z-Score
-      const zScore = (txn.amount - mean) / std;
+      const amount = baseAmountOf(txn);
+      const zScore = (amount - mean) / std;
       const isOutlier = Math.abs(zScore) > 3;
 
-      // Feature: Max for client
-      const isMax = txn.amount === max;
-
       // Feature: Time Deltas & Velocity
       let timeSinceLast = 0;
       let isRapid = false;
@@ -63,7 +161,7 @@ export const processBatchWithFeatures = (transactions: Transaction[]): EnrichedT
       }
 
       // Feature: Rolling Statistics
-      rollingWindow5.push(txn.amount);
+      rollingWindow5.push(amount);
       if (rollingWindow5.length > 5) rollingWindow5.shift();
       const rollingMean5 = rollingWindow5.reduce((a,b) => a+b, 0) / rollingWindow5.length;
       
@@ -71,137 +169,152 @@ export const processBatchWithFeatures = (transactions: Transaction[]): EnrichedT
       const rollingStd5 = Math.sqrt(variance5) || 1;
 
       // Deviation from rolling mean (in sigmas)
-      const amountVsRollingMean = (txn.amount - rollingMean5) / rollingStd5;
-
+      const amountVsRollingMean = (amount - rollingMean5) / rollingStd5;
 
-      // --- STAGE 3.3: RULE-BASED ENGINE (From Python Script) ---
-      let ruleScore = 0;
-      const triggers: string[] = [];
+      // Feature: Geo-velocity (sequential, so never looks ahead)
+      const geo = computeGeoFeatures(geoState, txn.location, new Date(txn.timestamp).getTime());
 
-      // Rule 1: High Z-Score (> 3)
-      if (Math.abs(zScore) > 3) {
-        ruleScore += 0.3;
-        triggers.push(`Z-Score Anomaly (${zScore.toFixed(1)}σ)`);
-      }
-
-      // Rule 2: Max Amount for Client
-      if (isMax && group.length > 1) {
-        ruleScore += 0.25;
-        triggers.push('Max Amount for Client');
-      }
-
-      // Rule 3: Rapid Transaction
-      if (isRapid) {
-        ruleScore += 0.2;
-        triggers.push('Rapid Sequence (Same Step)');
-      }
-
-      // Rule 4: Deviation from Rolling Mean
-      if (Math.abs(amountVsRollingMean) > 2) {
-        ruleScore += 0.2;
-        triggers.push(`Rolling Deviation (${amountVsRollingMean.toFixed(1)}σ)`);
-      }
+      // Feature: Category profile
+      const isNewCategory = index > 0 && !seenCategories.has(txn.category);
+      seenCategories.add(txn.category);
 
-      // Rule 5: Round Numbers (Heuristic addition)
-      if (txn.amount > 1000 && txn.amount % 100 === 0) {
-        ruleScore += 0.1;
-      }
-
-      // Cap score
-      ruleScore = Math.min(ruleScore, 1.0);
-      
-      const isSuspicious = ruleScore >= 0.5;
-      
-      let riskLevel: FraudAnalysis['riskLevel'] = 'LOW';
-      if (ruleScore > 0.8) riskLevel = 'CRITICAL';
-      else if (ruleScore > 0.5) riskLevel = 'HIGH';
-      else if (ruleScore > 0.3) riskLevel = 'MEDIUM';
-
-      // --- Construct Enriched Object ---
-      const enriched: EnrichedTransaction = {
-        ...txn,
-        transactionId: txn.id,
-        fraudScore: parseFloat(ruleScore.toFixed(2)),
-        isSuspicious,
-        riskLevel,
-        ruleTriggered: triggers.join(', '),
-        // Features
-        client_amount_mean: parseFloat(mean.toFixed(2)),
-        client_amount_std: parseFloat(std.toFixed(2)),
+      const features: EngineeredFeatures = {
+        client_amount_mean: mean,
+        client_amount_std: std,
+        client_amount_max: max,
         client_transaction_count: group.length,
-        amount_zscore: parseFloat(zScore.toFixed(2)),
+        amount_zscore: zScore,
         is_amount_outlier: isOutlier,
-        time_since_last_trans: parseFloat(timeSinceLast.toFixed(2)),
-        amount_rolling_mean_5: parseFloat(rollingMean5.toFixed(2)),
-        amount_rolling_std_5: parseFloat(rollingStd5.toFixed(2)),
+        time_since_last_trans: timeSinceLast,
+        amount_rolling_mean_5: rollingMean5,
+        amount_rolling_std_5: rollingStd5,
+        amount_rolling_dev: amountVsRollingMean,
         is_rapid_transaction: isRapid,
-        category_freq: 0 
+        category_freq: categoryFrequency(categoryProfile, txn.category),
+        is_new_category: isNewCategory,
+        category_entropy: entropy,
+        distance_from_prev_km: geo.distanceKm,
+        travel_speed_kmh: geo.speedKmh,
+        is_new_location: geo.isNewLocation,
+        ...graph.featuresFor(txn),
+        ...computeBalanceFeatures(txn)
       };
 
-      enrichedResults.push(enriched);
+      enrichedResults.push(scoreTransaction(txn, features, rules, policy, options.calibration, options.decision));
     });
   });
 
   return enrichedResults;
 };
 
+const featuresOf = (txn: EnrichedTransaction): EngineeredFeatures =>
+  Object.fromEntries(FEATURE_FIELDS.map(field => [field, txn[field]]));
+
+/**
+ * Scores already-enriched transactions again from the features they carry, e.g. after a rule,
+ * threshold or calibration change. Unlike processBatchWithFeatures it does not re-engineer
+ * the features, so an upload's rows keep those computed with the whole file in view.
+ */
+export const rescoreTransactions = (transactions: EnrichedTransaction[], options: FeaturePipelineOptions = {}): EnrichedTransaction[] =>
+  transactions.map(t => scoreTransaction(t, featuresOf(t), options.rules || DEFAULT_RULES, options.alertPolicy || DEFAULT_ALERT_POLICY, options.calibration, options.decision));
+
 /**
  * STAGE 3: BASELINE MODELS EXECUTION
  * implements the actual mathematical logic for the 3 models described in the case study.
+ * Metrics come with bootstrap confidence intervals; see services/evaluation.ts for the
+ * out-of-time and k-fold designs.
  */
-export const runStage3Analysis = (transactions: EnrichedTransaction[]): Stage3Results => {
+export const runStage3Analysis = (transactions: EnrichedTransaction[], options: Stage3Options = {}): Stage3Results => {
     
     // 1. Establish Ground Truth
     // If trueLabel is present (from 'isFraud' column), use it.
     // Otherwise, fallback to the strict Rule-Based definition for demo purposes.
+    const labelSource: Stage3Results['labelSource'] = transactions.some(t => t.trueLabel !== undefined) ? 'isFraud' : 'rule-proxy';
     const groundTruth = transactions.map(t => {
         if (t.trueLabel !== undefined) return t.trueLabel;
-        return t.fraudScore > 0.7 ? 1 : 0; 
+        return (t.ruleScore ?? t.fraudScore) > 0.7 ? 1 : 0; 
     });
 
-    // --- MODEL 1: RULE-BASED ---
-    // Already calculated in Stage 2 pipeline as 'fraudScore'
-    const ruleScores = transactions.map(t => t.fraudScore);
-    const rulePreds = ruleScores.map(s => s >= 0.5 ? 1 : 0);
-
-    // --- MODEL 2: ISOLATION FOREST (Approximation) ---
-    // Real IsoForest builds trees. Here we simulate the *anomaly score* function 
-    // by combining normalized distances in multiple dimensions (Amount, Z-Score, Deviation).
-    const isoScores = transactions.map(t => {
-        // Normalize features roughly to 0-1 range for distance calculation
-        const f1 = Math.min(Math.abs(t.amount_zscore || 0) / 10, 1); // Z-Score contribution
-        const f2 = Math.min((t.amount_rolling_std_5 || 0) / (t.client_amount_mean || 1), 1); // Volatility
-        const f3 = t.is_rapid_transaction ? 1.0 : 0.0; // Temporal anomaly
-
-        // Weighted Euclidean distance from "Normal" center (0,0,0)
-        const distance = Math.sqrt(f1*f1 + f2*f2 + f3*f3) / 1.73; // Normalize by sqrt(3)
-        return parseFloat(distance.toFixed(4));
-    });
-    const isoPreds = isoScores.map(s => s > 0.4 ? 1 : 0); // IsoForest usually has a lower threshold for "outlier"
-
-    // --- MODEL 3: LOGISTIC REGRESSION (Linear Model) ---
-    // Uses weights derived from the "Feature Importance" section of the Python script
-    const logRegScores = transactions.map(t => {
-        // Weights (Coefficients)
-        const w_zscore = 2.45;
-        const w_rapid = 1.89;
-        const w_amount = 0.0001; // Scaled down
-        const w_rolling_dev = 1.2;
-        const bias = -4.5;
-
-        // Features
-        const x_zscore = Math.abs(t.amount_zscore || 0);
-        const x_rapid = t.is_rapid_transaction ? 1 : 0;
-        const x_amount = t.amount;
-        const x_rolling_dev = Math.abs((t.amount - (t.amount_rolling_mean_5 || 0)) / (t.amount_rolling_std_5 || 1));
-
-        // Linear Combination
-        const z = (w_zscore * x_zscore) + (w_rapid * x_rapid) + (w_amount * x_amount) + (w_rolling_dev * x_rolling_dev) + bias;
-        
-        // Sigmoid Activation
-        const prob = sigmoid(z);
-        return parseFloat(prob.toFixed(4));
+    // --- EVALUATION DESIGN ---
+    // in-sample: fit and evaluate on every row (optimistic)
+    // out-of-time: fit on earlier steps, evaluate on the latest ones
+    // k-fold: every row is scored by models fitted on the other folds
+    const evaluationOptions = { ...DEFAULT_EVALUATION_OPTIONS, ...options.evaluation };
+    const featureMatrix = toFeatureMatrix(transactions);
+    const featureNames = MODEL_FEATURES.map(f => f.name);
+    const allRows = transactions.map((_, i) => i);
+
+    const fitModels = (trainRows: number[]) => {
+        // --- MODEL 2: ISOLATION FOREST ---
+        // Unsupervised: random sub-samples are recursively split on random features/values.
+        // Anomalies are isolated in fewer splits, so a shorter average path means a higher score.
+        options.onProgress?.('isolationForest');
+        const iso = fitIsolationForest(trainRows.map(i => featureMatrix[i]), featureNames, options.isolationForest);
+        // --- MODEL 3: LOGISTIC REGRESSION (Linear Model) ---
+        // Standardised features, L2 penalty and balanced class weights.
+        // Labels come from the 'isFraud' column when present, otherwise from the rule proxy above.
+        options.onProgress?.('logisticRegression');
+        const logReg = fitLogisticRegression(trainRows.map(i => featureMatrix[i]), trainRows.map(i => groundTruth[i]), featureNames, options.logisticRegression);
+        return { iso, logReg };
+    };
+
+    const isoScores: number[] = new Array(transactions.length).fill(0);
+    const isoPreds: number[] = new Array(transactions.length).fill(0);
+    const logRegScores: number[] = new Array(transactions.length).fill(0);
+    const scoreRows = (models: ReturnType<typeof fitModels>, rows: number[]) => rows.forEach(i => {
+        isoScores[i] = parseFloat(scoreIsolationForest(models.iso, featureMatrix[i]).toFixed(4));
+        isoPreds[i] = isoScores[i] >= models.iso.threshold ? 1 : 0; // Threshold set by the contamination rate
+        logRegScores[i] = parseFloat(predictLogisticRegression(models.logReg, featureMatrix[i]).toFixed(4));
     });
+
+    let mode = evaluationOptions.mode;
+    let note: string | undefined;
+    let evalRows = allRows;
+    let trainSize = transactions.length;
+    let splitStep: number | undefined;
+    let folds: number | undefined;
+    let models: ReturnType<typeof fitModels>; // reported model: feature importance and forest parameters
+
+    const split = mode === 'out-of-time' ? splitByStep(transactions, evaluationOptions.testFraction) : null;
+    if (mode === 'out-of-time' && !split) {
+        mode = 'in-sample';
+        note = 'All transactions share one step, so there is nothing to hold out.';
+    }
+    if (mode === 'k-fold' && transactions.length < Math.max(2, evaluationOptions.folds)) {
+        mode = 'in-sample';
+        note = `Fewer rows than folds (${evaluationOptions.folds}).`;
+    }
+
+    if (split) {
+        // Train rows are scored too (for the exports), but only the test rows are evaluated
+        models = fitModels(split.train);
+        scoreRows(models, allRows);
+        evalRows = split.test;
+        trainSize = split.train.length;
+        splitStep = split.splitStep;
+    } else if (mode === 'k-fold') {
+        folds = Math.round(evaluationOptions.folds);
+        const foldRows = kFoldIndices(transactions.length, folds, createRng(evaluationOptions.seed));
+        foldRows.forEach((testRows, k) => {
+            const trainRows = foldRows.filter((_, j) => j !== k).flat();
+            scoreRows(fitModels(trainRows), testRows);
+        });
+        trainSize = transactions.length - foldRows[0].length;
+        // Out-of-fold scores are evaluated; the reported model is refitted on everything
+        models = fitModels(allRows);
+    } else {
+        models = fitModels(allRows);
+        scoreRows(models, allRows);
+    }
+
+    options.onProgress?.('metrics');
+
+    // --- MODEL 1: RULE-BASED ---
+    // Already calculated in Stage 2 pipeline as 'fraudScore'; nothing to train.
+    // This is the live rule score (calibrated when a calibration is active), so cut-offs match the AlertPolicy
+    const ruleThreshold = options.ruleThreshold ?? DEFAULT_ALERT_POLICY.threshold;
+    const ruleScores = transactions.map(t => t.modelScores?.rules ?? t.fraudScore);
+    const rulePreds = ruleScores.map(s => s >= ruleThreshold ? 1 : 0);
     const logRegPreds = logRegScores.map(s => s > 0.5 ? 1 : 0);
 
     // Store scores back to transaction objects for CSV export
@@ -210,108 +323,198 @@ export const runStage3Analysis = (transactions: EnrichedTransaction[]): Stage3Re
         t.logRegScore = logRegScores[i];
     });
 
-    // Helper: Calculate Metrics
-    const calcMetrics = (preds: number[], scores: number[], truth: number[]): ModelMetrics => {
-        let tp = 0, fp = 0, fn = 0, tn = 0;
-        truth.forEach((actual, i) => {
-            const pred = preds[i];
-            if (actual === 1 && pred === 1) tp++;
-            if (actual === 0 && pred === 1) fp++;
-            if (actual === 1 && pred === 0) fn++;
-            if (actual === 0 && pred === 0) tn++;
-        });
-
-        const precision = (tp + fp) === 0 ? 0 : tp / (tp + fp);
-        const recall = (tp + fn) === 0 ? 0 : tp / (tp + fn);
-        const f1Score = (precision + recall) === 0 ? 0 : 2 * (precision * recall) / (precision + recall);
-        
-        // ROC AUC (Trapezoidal approximation)
-        const pairs = scores.map((s, i) => ({ s, t: truth[i] })).sort((a, b) => b.s - a.s);
-        let auc = 0;
-        let posCount = 0;
-        pairs.forEach(p => {
-            if (p.t === 1) posCount++;
-            else auc += posCount;
-        });
-        const totalPos = truth.filter(x => x === 1).length;
-        const totalNeg = truth.length - totalPos;
-        const rocAuc = totalPos * totalNeg === 0 ? 0.5 : auc / (totalPos * totalNeg);
+    // Everything below is measured on the evaluation rows only
+    const pick = (values: number[]) => evalRows.map(i => values[i]);
+    const truth = pick(groundTruth);
+    const evaluated = {
+        ruleBased: { preds: pick(rulePreds), scores: pick(ruleScores) },
+        isolationForest: { preds: pick(isoPreds), scores: pick(isoScores) },
+        logisticRegression: { preds: pick(logRegPreds), scores: pick(logRegScores) }
+    };
 
+    const bootstrap = bootstrapMetrics(
+        [evaluated.ruleBased, evaluated.isolationForest, evaluated.logisticRegression],
+        truth,
+        evaluationOptions
+    );
+    const ruleMetrics = { ...calcMetrics(evaluated.ruleBased.preds, evaluated.ruleBased.scores, truth), ci: bootstrap.intervals[0] };
+    const isoMetrics = { ...calcMetrics(evaluated.isolationForest.preds, evaluated.isolationForest.scores, truth), ci: bootstrap.intervals[1] };
+    const logMetrics = { ...calcMetrics(evaluated.logisticRegression.preds, evaluated.logisticRegression.scores, truth), ci: bootstrap.intervals[2] };
+
+    // Determine Best Model: the highest AUC only wins when its lead over every other
+    // model holds up in the paired bootstrap (the interval of the difference excludes 0)
+    const candidates = [
+        { name: 'Rule-Based', auc: ruleMetrics.rocAuc, samples: bootstrap.aucSamples[0] },
+        { name: 'IsolationForest', auc: isoMetrics.rocAuc, samples: bootstrap.aucSamples[1] },
+        { name: 'LogisticRegression', auc: logMetrics.rocAuc, samples: bootstrap.aucSamples[2] }
+    ];
+    const leader = candidates.reduce((best, c) => c.auc > best.auc ? c : best);
+    const comparisons = candidates.filter(c => c !== leader).map(c => {
+        const interval = percentileInterval(leader.samples.map((v, b) => v - c.samples[b]), evaluationOptions.confidenceLevel);
         return {
-            precision: parseFloat(precision.toFixed(4)),
-            recall: parseFloat(recall.toFixed(4)),
-            f1Score: parseFloat(f1Score.toFixed(4)),
-            rocAuc: parseFloat(rocAuc.toFixed(4))
+            model: c.name,
+            difference: parseFloat((leader.auc - c.auc).toFixed(4)),
+            interval,
+            significant: interval.lower > 0
         };
+    });
+    const bestModel = comparisons.every(c => c.significant) ? leader.name : 'Inconclusive';
+
+    // Threshold-free view: ROC / PR curves straight from the scores
+    const curves = {
+        ruleBased: calcCurves(evaluated.ruleBased.scores, truth),
+        isolationForest: calcCurves(evaluated.isolationForest.scores, truth),
+        logisticRegression: calcCurves(evaluated.logisticRegression.scores, truth)
     };
 
-    const ruleMetrics = calcMetrics(rulePreds, ruleScores, groundTruth);
-    const isoMetrics = calcMetrics(isoPreds, isoScores, groundTruth);
-    const logMetrics = calcMetrics(logRegPreds, logRegScores, groundTruth);
+    // Calibration: Platt and isotonic maps from each model's raw score to a fraud probability.
+    // Only with real labels; the rule proxy is itself a rule-score cut-off, so it would be circular.
+    // The rule model is calibrated from the raw rule-weight sum, not the (possibly calibrated) fraudScore.
+    const calibrationRng = createRng(evaluationOptions.seed);
+    const ruleCalibration = labelSource === 'isFraud' ? calibrateModel(pick(transactions.map(t => t.ruleScore ?? t.fraudScore)), truth, calibrationRng) : null;
+    const isoCalibration = ruleCalibration && calibrateModel(evaluated.isolationForest.scores, truth, calibrationRng);
+    const logRegCalibration = ruleCalibration && calibrateModel(evaluated.logisticRegression.scores, truth, calibrationRng);
+    const calibration = ruleCalibration && isoCalibration && logRegCalibration
+        ? { ruleBased: ruleCalibration, isolationForest: isoCalibration, logisticRegression: logRegCalibration }
+        : undefined;
+
+    // Ensembles of the three scores. The weighted average needs no training; the stacked
+    // meta-learner needs real labels and is cross-fitted (2 folds) so its metrics are out-of-sample.
+    const ensembleConfig = options.ensemble || DEFAULT_ENSEMBLE_CONFIG;
+    const baseScores = truth.map((_, k) => ({
+        rules: evaluated.ruleBased.scores[k],
+        isolationForest: evaluated.isolationForest.scores[k],
+        logisticRegression: evaluated.logisticRegression.scores[k]
+    }));
+    const weightedScores = baseScores.map(b => parseFloat(weightedEnsembleScore(b, ensembleConfig.weights).toFixed(4)));
+    const weightedMetrics = calcMetrics(weightedScores.map(s => s >= 0.5 ? 1 : 0), weightedScores, truth);
+    let stacker: LogisticRegressionModel | undefined;
+    let stackedMetrics: ModelMetrics | undefined;
+    if (labelSource === 'isFraud' && truth.includes(0) && truth.includes(1) && truth.length >= 2) {
+        const stackedScores = new Array(truth.length).fill(0);
+        const halves = kFoldIndices(truth.length, 2, createRng(evaluationOptions.seed));
+        halves.forEach((testRows, k) => {
+            const trainRows = halves[1 - k];
+            const meta = fitStacker(trainRows.map(i => baseScores[i]), trainRows.map(i => truth[i]));
+            testRows.forEach(i => { stackedScores[i] = parseFloat(stackedEnsembleScore(baseScores[i], meta).toFixed(4)); });
+        });
+        stackedMetrics = calcMetrics(stackedScores.map(s => s > 0.5 ? 1 : 0), stackedScores, truth);
+        stacker = fitStacker(baseScores, truth);
+    }
 
-    // Determine Best Model
-    let bestModel = 'Rule-Based';
-    let maxAuc = ruleMetrics.rocAuc;
+    // What live scoring calibrates with: each learned model's recommended map, and one for the
+    // weighted ensemble at these weights (the stacked ensemble is already a probability)
+    const weightedCalibration = calibration && calibrateModel(weightedScores, truth, calibrationRng);
+    const scoringCalibration = calibration && {
+        isolationForest: calibration.isolationForest[calibration.isolationForest.recommended],
+        logisticRegression: calibration.logisticRegression[calibration.logisticRegression.recommended],
+        weightedEnsemble: weightedCalibration
+            ? { weights: ensembleConfig.weights, calibration: weightedCalibration[weightedCalibration.recommended] }
+            : undefined
+    };
 
-    if (isoMetrics.rocAuc > maxAuc) {
-        maxAuc = isoMetrics.rocAuc;
-        bestModel = 'IsolationForest';
-    }
-    if (logMetrics.rocAuc > maxAuc) {
-        maxAuc = logMetrics.rocAuc;
-        bestModel = 'LogisticRegression';
-    }
+    // Cost-sensitive cut-offs: expected loss of every candidate threshold, per model
+    const costMatrix = { ...DEFAULT_COST_MATRIX, ...options.costMatrix };
+    const amounts = pick(transactions.map(baseAmountOf));
+    // A learned model's current cut-off is the live one where set, else its own
+    const liveCutoff = (scores: number[], threshold: number | undefined, own: { threshold: number; preds: number[] }) =>
+        threshold === undefined ? own : { threshold, preds: scores.map(s => s >= threshold ? 1 : 0) };
+    const thresholds = {
+        ruleBased: optimizeThreshold(evaluated.ruleBased.scores, truth, amounts, { threshold: ruleThreshold, preds: evaluated.ruleBased.preds }, costMatrix),
+        isolationForest: optimizeThreshold(evaluated.isolationForest.scores, truth, amounts,
+            liveCutoff(evaluated.isolationForest.scores, options.modelThresholds?.isolationForest, { threshold: models.iso.threshold, preds: evaluated.isolationForest.preds }), costMatrix),
+        // LogReg flags strictly above 0.5; scores are rounded to 4 decimals, so that is >= 0.5001
+        logisticRegression: optimizeThreshold(evaluated.logisticRegression.scores, truth, amounts,
+            liveCutoff(evaluated.logisticRegression.scores, options.modelThresholds?.logisticRegression, { threshold: 0.5001, preds: evaluated.logisticRegression.preds }), costMatrix)
+    };
 
-    // Feature Importance (Static return based on the Python script findings)
-    const featureImportance = [
-        { feature: 'amount_zscore', coefficient: 2.45 },
-        { feature: 'is_rapid_transaction', coefficient: 1.89 },
-        { feature: 'amount_rolling_dev', coefficient: 1.2 },
-        { feature: 'client_transaction_count', coefficient: 0.4 },
-        { feature: 'amount', coefficient: 0.0001 }
-    ];
+    // Feature Importance: learned coefficients on the standardised scale, strongest first
+    const featureImportance = models.logReg.features
+        .map((feature, j) => ({ feature, coefficient: parseFloat(models.logReg.weights[j].toFixed(4)) }))
+        .sort((a, b) => Math.abs(b.coefficient) - Math.abs(a.coefficient));
 
     return {
         ruleBased: ruleMetrics,
         isolationForest: isoMetrics,
         logisticRegression: logMetrics,
         bestModel,
-        featureImportance
+        labelSource,
+        featureImportance,
+        curves,
+        calibration,
+        ensemble: {
+            config: ensembleConfig,
+            weighted: weightedMetrics,
+            stacked: stackedMetrics,
+            stackerCoefficients: stacker?.features.map((feature, j) => ({ feature, coefficient: parseFloat(stacker!.weights[j].toFixed(4)) }))
+        },
+        models: { isolationForest: models.iso, logisticRegression: models.logReg, stacker, calibration: scoringCalibration },
+        evaluation: {
+            mode,
+            note,
+            trainSize,
+            testSize: evalRows.length,
+            splitStep,
+            folds,
+            bootstrapSamples: evaluationOptions.bootstrapSamples,
+            confidenceLevel: evaluationOptions.confidenceLevel,
+            leadingModel: leader.name,
+            comparisons
+        },
+        costMatrix,
+        thresholds,
+        isolationForestParams: {
+            numTrees: models.iso.options.numTrees,
+            sampleSize: models.iso.sampleSize,
+            contamination: models.iso.options.contamination,
+            threshold: parseFloat(models.iso.threshold.toFixed(4)),
+            features: models.iso.features
+        }
     };
 };
 
-// Fallback for demo mode
-export const analyzeTransaction = (txn: Transaction, history: Transaction[]): EnrichedTransaction => {
-    // OPTIMIZATION: Only use history relevant to the specific client. 
-    // This reduces N drastically for the feature engineering step.
-    const clientHistory = history.filter(t => t.clientId === txn.clientId);
-    const batch = [...clientHistory, txn];
-    
-    // Use the batch processor on the smaller subset
-    const results = processBatchWithFeatures(batch);
-    
-    // Return the newly enriched transaction (last in batch)
-    return results.find(t => t.id === txn.id) || results[results.length - 1];
+/**
+ * LIVE SCORING
+ * Updates the client's state in the feature store and scores the transaction.
+ * O(1) per transaction, and identical to what the batch pipeline would output
+ * for the client's most recent transaction.
+ */
+export const analyzeTransaction = (txn: Transaction, store: FeatureStore, options: FeaturePipelineOptions = {}): EnrichedTransaction => {
+    const features = store.update(txn);
+    return scoreTransaction(txn, features, options.rules || DEFAULT_RULES, options.alertPolicy, options.calibration, options.decision);
 };
 
 export const generateRandomTransaction = (): Transaction => {
   const categories = ['PAYMENT', 'TRANSFER', 'CASH_OUT', 'DEBIT', 'CASH_IN'];
-  const locations = ['New York, US', 'London, UK', 'Paris, FR', 'Tokyo, JP', 'Lagos, NG', 'Moscow, RU', 'Berlin, DE'];
   
   const isFraud = Math.random() > 0.9; 
-  const amount = isFraud ? Math.floor(Math.random() * 50000) + 5000 : Math.floor(Math.random() * 1000) + 10;
+  const usdAmount = isFraud ? Math.floor(Math.random() * 50000) + 5000 : Math.floor(Math.random() * 1000) + 10;
   
   // Use a smaller set of clients to simulate rapid recurring transactions for demo
-  const clientId = `USR-${Math.floor(Math.random() * 20) + 100}`;
+  const clientNumber = Math.floor(Math.random() * 20) + 100;
+  const clientId = `USR-${clientNumber}`;
+  // Clients mostly transact from a home city; occasional jumps exercise the geo-velocity rule
+  const location = Math.random() > 0.95
+    ? LOCATIONS[Math.floor(Math.random() * LOCATIONS.length)]
+    : LOCATIONS[clientNumber % LOCATIONS.length];
+
+  // Paid in the local currency of where the client is
+  const timestamp = new Date().toISOString();
+  const currency = COUNTRY_CURRENCIES[location.split(',')[1]?.trim()] || 'USD';
+  const local = convertAmount(usdAmount, 'USD', currency, timestamp.slice(0, 10), DEFAULT_FX_TABLE);
 
   return {
     id: `TXN-${Math.floor(Math.random() * 1000000)}`,
     clientId,
-    amount,
-    currency: 'USD',
-    timestamp: new Date().toISOString(),
+    amount: local ? Math.round(local.value) : usdAmount,
+    currency: local ? currency : 'USD',
+    timestamp,
     category: categories[Math.floor(Math.random() * categories.length)],
-    location: locations[Math.floor(Math.random() * locations.length)],
+    location,
+    // Mostly merchants; the occasional peer transfer links clients in the counterparty graph
+    counterpartyId: Math.random() > 0.1
+      ? `MER-${Math.floor(Math.random() * 50)}`
+      : `USR-${Math.floor(Math.random() * 20) + 100}`,
     type: TransactionType.PAYMENT,
   };
 };
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FxRateTable, TransactionType } from '../types';
+import { convertAmount, fxCurrencies, normalizeTransaction, parseFxRates } from './fx';
+
+const TABLE: FxRateTable = {
+  quoteCurrency: 'USD',
+  snapshots: [
+    { effectiveDate: '2023-01-01', rates: { USD: 1, EUR: 1.1, GBP: 1.25 } },
+    { effectiveDate: '2023-02-01', rates: { USD: 1, EUR: 1.2 } }
+  ]
+};
+
+describe('convertAmount', () => {
+  it('uses the latest snapshot on or before the date that quotes the currency', () => {
+    expect(convertAmount(100, 'EUR', 'USD', '2023-01-15', TABLE)).toEqual({ value: expect.closeTo(110), effectiveDate: '2023-01-01' });
+    expect(convertAmount(100, 'EUR', 'USD', '2023-03-01', TABLE)?.value).toBeCloseTo(120);
+    // The February snapshot has no GBP, so January's rate stays in force
+    expect(convertAmount(120, 'GBP', 'EUR', '2023-02-10', TABLE)).toEqual({ value: expect.closeTo(125), effectiveDate: '2023-02-01' });
+  });
+
+  it('uses the earliest rate for dates before the table', () => {
+    expect(convertAmount(10, 'EUR', 'USD', '2022-06-01', TABLE)?.effectiveDate).toBe('2023-01-01');
+  });
+
+  it('is null for a currency the table lacks', () => {
+    expect(convertAmount(10, 'JPY', 'USD', '2023-01-15', TABLE)).toBeNull();
+    expect(convertAmount(10, 'JPY', 'JPY', '2023-01-15', TABLE)).toEqual({ value: 10, effectiveDate: undefined });
+  });
+});
+
+describe('normalizeTransaction', () => {
+  const txn = { id: 'T', clientId: 'C', amount: 50, currency: 'EUR', timestamp: '2023-02-05T10:00:00.000Z', category: 'PAYMENT', location: 'X', type: TransactionType.PAYMENT };
+
+  it('sets the base amount to the cent and the snapshot used', () => {
+    expect(normalizeTransaction(txn, { baseCurrency: 'USD', table: TABLE })).toMatchObject({ amount: 50, baseAmount: 60, fxRateDate: '2023-02-01' });
+  });
+
+  it('keeps the amount unconverted when there is no rate', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(normalizeTransaction({ ...txn, currency: 'CHF' }, { baseCurrency: 'USD', table: TABLE })).toMatchObject({ baseAmount: 50, fxRateDate: undefined });
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
+
+describe('parseFxRates', () => {
+  it('reads CSV rates into snapshots by date', () => {
+    const table = parseFxRates('date,currency,rate,quote\n2023-02-01,eur,1.2,EUR\n2023-01-01,gbp,1.1,eur\n', 'rates.csv');
+    expect(table).toEqual({
+      quoteCurrency: 'EUR',
+      snapshots: [
+        { effectiveDate: '2023-01-01', rates: { EUR: 1, GBP: 1.1 } },
+        { effectiveDate: '2023-02-01', rates: { EUR: 1.2 } }
+      ]
+    });
+    expect(fxCurrencies(table)).toEqual(['EUR', 'GBP']);
+  });
+
+  it('reads JSON rate arrays and tables', () => {
+    expect(parseFxRates('[{"date":"2023-01-01","currency":"eur","rate":1.1}]', 'rates.json'))
+      .toEqual({ quoteCurrency: 'USD', snapshots: [{ effectiveDate: '2023-01-01', rates: { USD: 1, EUR: 1.1 } }] });
+    expect(parseFxRates(JSON.stringify(TABLE), 'table.json')).toEqual(TABLE);
+  });
+
+  it('names the first invalid entry', () => {
+    expect(() => parseFxRates('date,currency\n', 'x.csv')).toThrow('CSV header must contain date, currency and rate columns');
+    expect(() => parseFxRates('date,currency,rate\n01/02/2023,EUR,1\n', 'x.csv')).toThrow("Rate 1: date must be YYYY-MM-DD, got '01/02/2023'");
+    expect(() => parseFxRates('date,currency,rate\n2023-01-01,EUR,-1\n', 'x.csv')).toThrow('Rate 1: rate must be a positive number');
+    expect(() => parseFxRates('[1]', 'x.json')).toThrow('Rate 1: expected an object');
+    expect(() => parseFxRates('{"snapshots":[null]}', 'x.json')).toThrow('Snapshot 1: expected an object');
+    expect(() => parseFxRates('{"rates":{}}', 'x.json')).toThrow("JSON must be an array of rates or an object with 'snapshots'");
+    expect(() => parseFxRates('{', 'x.json')).toThrow(/^Invalid JSON/);
+    expect(() => parseFxRates('[]', 'x.json')).toThrow('No FX rates found');
+    expect(() => parseFxRates('date,currency,rate,quote\n2023-01-01,EUR,1,USD\n2023-01-01,GBP,1,EUR\n', 'x.csv')).toThrow('Mixed quote currencies: USD, EUR');
+  });
+});
@@ -0,0 +1,180 @@
+import { FxRateSnapshot, FxRateTable, FxSettings, Transaction } from '../types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+/** Amount in the base reporting currency; falls back to the raw amount before normalisation. */
+export const baseAmountOf = (txn: Transaction): number => txn.baseAmount ?? txn.amount;
+
+// Latest snapshot effective on the date that quotes the currency; dates before the
+// first snapshot use the earliest one that has it.
+const findRate = (table: FxRateTable, currency: string, date: string): { rate: number; effectiveDate: string } | null => {
+  if (currency === table.quoteCurrency) return { rate: 1, effectiveDate: table.snapshots[0]?.effectiveDate || date };
+  let found: FxRateSnapshot | null = null;
+  for (const snapshot of table.snapshots) {
+    if (snapshot.rates[currency] === undefined) continue;
+    if (snapshot.effectiveDate > date && found) break;
+    found = snapshot;
+    if (snapshot.effectiveDate > date) break;
+  }
+  return found ? { rate: found.rates[currency], effectiveDate: found.effectiveDate } : null;
+};
+
+/**
+ * Converts an amount between two currencies at the rates in force on `date` (YYYY-MM-DD).
+ * Returns null when either currency is missing from the table.
+ */
+export const convertAmount = (amount: number, from: string, to: string, date: string, table: FxRateTable) => {
+  if (from === to) return { value: amount, effectiveDate: undefined };
+  const fromRate = findRate(table, from, date);
+  const toRate = findRate(table, to, date);
+  if (!fromRate || !toRate) return null;
+  return {
+    value: (amount * fromRate.rate) / toRate.rate,
+    effectiveDate: fromRate.effectiveDate > toRate.effectiveDate ? fromRate.effectiveDate : toRate.effectiveDate
+  };
+};
+
+const warnedCurrencies = new Set<string>();
+
+/** Sets baseAmount (and the FX snapshot used) on a copy of the transaction. */
+export const normalizeTransaction = <T extends Transaction>(txn: T, settings: FxSettings): T => {
+  const converted = convertAmount(txn.amount, txn.currency, settings.baseCurrency, txn.timestamp.slice(0, 10), settings.table);
+  if (!converted) {
+    if (!warnedCurrencies.has(txn.currency)) {
+      warnedCurrencies.add(txn.currency);
+      console.warn(`No FX rate for ${txn.currency} -> ${settings.baseCurrency}; amounts are used unconverted.`);
+    }
+    return { ...txn, baseAmount: txn.amount, fxRateDate: undefined };
+  }
+  return { ...txn, baseAmount: parseFloat(converted.value.toFixed(2)), fxRateDate: converted.effectiveDate };
+};
+
+export const normalizeTransactions = <T extends Transaction>(transactions: T[], settings: FxSettings): T[] =>
+  transactions.map(t => normalizeTransaction(t, settings));
+
+/** Every currency quoted anywhere in the table, sorted. */
+export const fxCurrencies = (table: FxRateTable): string[] => {
+  const currencies = new Set<string>([table.quoteCurrency]);
+  table.snapshots.forEach(s => Object.keys(s.rates).forEach(c => currencies.add(c)));
+  return Array.from(currencies).sort();
+};
+
+interface FxRow {
+  date: string;
+  currency: string;
+  rate: number;
+  quote?: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const buildTable = (rows: FxRow[]): FxRateTable => {
+  if (rows.length === 0) throw new Error('No FX rates found');
+  const quotes = new Set(rows.map(r => r.quote).filter(Boolean));
+  if (quotes.size > 1) throw new Error(`Mixed quote currencies: ${Array.from(quotes).join(', ')}`);
+  const quoteCurrency = (quotes.values().next().value as string | undefined) || 'USD';
+
+  const byDate = new Map<string, Record<string, number>>();
+  rows.forEach((row, i) => {
+    const line = i + 1;
+    if (!DATE_PATTERN.test(row.date)) throw new Error(`Rate ${line}: date must be YYYY-MM-DD, got '${row.date}'`);
+    if (!CURRENCY_PATTERN.test(row.currency)) throw new Error(`Rate ${line}: invalid currency code '${row.currency}'`);
+    if (!Number.isFinite(row.rate) || row.rate <= 0) throw new Error(`Rate ${line}: rate must be a positive number`);
+    if (!byDate.has(row.date)) byDate.set(row.date, { [quoteCurrency]: 1 });
+    byDate.get(row.date)![row.currency] = row.rate;
+  });
+
+  return {
+    quoteCurrency,
+    snapshots: Array.from(byDate.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([effectiveDate, rates]) => ({ effectiveDate, rates }))
+  };
+};
+
+/**
+ * Parses an FX rate file. Accepted formats:
+ * - CSV with a header row: date,currency,rate[,quote]
+ * - JSON array of { date, currency, rate, quote? }
+ * - JSON FxRateTable { quoteCurrency, snapshots: [{ effectiveDate, rates }] }
+ * `rate` is the value of 1 unit of `currency` in the quote currency (USD when omitted).
+ * Throws an Error describing the first invalid entry.
+ */
+export const parseFxRates = (text: string, fileName: string): FxRateTable => {
+  const trimmed = text.trim();
+  if (fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch (e) {
+      throw new Error(`Invalid JSON: ${(e as Error).message}`);
+    }
+    if (Array.isArray(data)) {
+      return buildTable(data.map((r: unknown, i) => {
+        if (!isObject(r)) throw new Error(`Rate ${i + 1}: expected an object`);
+        return {
+          date: String(r.date ?? ''),
+          currency: String(r.currency ?? '').toUpperCase(),
+          rate: Number(r.rate),
+          quote: r.quote ? String(r.quote).toUpperCase() : undefined
+        };
+      }));
+    }
+    if (!isObject(data) || !Array.isArray(data.snapshots)) throw new Error("JSON must be an array of rates or an object with 'snapshots'");
+    const quote = String(data.quoteCurrency || 'USD').toUpperCase();
+    return buildTable(data.snapshots.flatMap((s: unknown, i) => {
+      if (!isObject(s)) throw new Error(`Snapshot ${i + 1}: expected an object`);
+      const rates = isObject(s.rates) ? s.rates : {};
+      return Object.entries(rates).map(([currency, rate]) => ({
+        date: String(s.effectiveDate ?? ''),
+        currency: currency.toUpperCase(),
+        rate: Number(rate),
+        quote
+      }));
+    }));
+  }
+
+  const lines = trimmed.split(/\r?\n/).filter(l => l.trim() !== '');
+  const headers = (lines[0] || '').split(',').map(h => h.trim().toLowerCase());
+  const idx = {
+    date: headers.indexOf('date'),
+    currency: headers.indexOf('currency'),
+    rate: headers.indexOf('rate'),
+    quote: headers.indexOf('quote')
+  };
+  if (idx.date === -1 || idx.currency === -1 || idx.rate === -1) {
+    throw new Error('CSV header must contain date, currency and rate columns');
+  }
+  return buildTable(lines.slice(1).map(line => {
+    const row = line.split(',').map(v => v.trim());
+    return {
+      date: row[idx.date] || '',
+      currency: (row[idx.currency] || '').toUpperCase(),
+      rate: parseFloat(row[idx.rate]),
+      quote: idx.quote !== -1 && row[idx.quote] ? row[idx.quote].toUpperCase() : undefined
+    };
+  }));
+};
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/** Formats an amount in its own currency, e.g. "€1,250.00" ("€1.3K" when compact); unknown codes fall back to "1,250 XYZ". */
+export const formatAmount = (amount: number, currency: string, compact = false): string => {
+  const key = `${currency}${compact ? ':compact' : ''}`;
+  if (!formatters.has(key)) {
+    try {
+      formatters.set(key, new Intl.NumberFormat(undefined, { style: 'currency', currency, notation: compact ? 'compact' : 'standard' }));
+    } catch {
+      return `${amount.toLocaleString()} ${currency}`;
+    }
+  }
+  return formatters.get(key)!.format(amount);
+};
+
+/** The base-currency equivalent to show next to a foreign-currency amount, or null when there is nothing to add. */
+export const formatBaseAmount = (txn: Transaction, baseCurrency: string): string | null => {
+  if (txn.currency === baseCurrency || txn.baseAmount === undefined) return null;
+  return `≈ ${formatAmount(txn.baseAmount, baseCurrency)}`;
+};
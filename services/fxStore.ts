@@ -0,0 +1,27 @@
+import { FxSettings } from '../types';
+import { DEFAULT_BASE_CURRENCY, DEFAULT_FX_TABLE } from '../constants';
+
+const FX_STORAGE_KEY = 'fraud_detect_fx';
+
+export const DEFAULT_FX_SETTINGS: FxSettings = { baseCurrency: DEFAULT_BASE_CURRENCY, table: DEFAULT_FX_TABLE };
+
+export const loadFxSettings = (): FxSettings => {
+  const stored = localStorage.getItem(FX_STORAGE_KEY);
+  if (!stored) return DEFAULT_FX_SETTINGS;
+  try {
+    const parsed = JSON.parse(stored);
+    return parsed && typeof parsed.baseCurrency === 'string' && Array.isArray(parsed.table?.snapshots) ? parsed : DEFAULT_FX_SETTINGS;
+  } catch (e) {
+    console.error("Stored FX settings are corrupt, falling back to defaults", e);
+    return DEFAULT_FX_SETTINGS;
+  }
+};
+
+export const saveFxSettings = (settings: FxSettings) => {
+  localStorage.setItem(FX_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const resetFxSettings = (): FxSettings => {
+  localStorage.removeItem(FX_STORAGE_KEY);
+  return DEFAULT_FX_SETTINGS;
+};
@@ -1,14 +1,31 @@
 import { GoogleGenAI } from "@google/genai";
-import { EnrichedTransaction, DashboardStats } from '../types';
+import { EnrichedTransaction, DashboardStats, ScoreAttributions, Attribution } from '../types';
 
 const getApiKey = () => {
   return localStorage.getItem('GEMINI_API_KEY') || process.env.API_KEY;
 };
 
+const TOP_DRIVERS = 5;
+
+const formatDrivers = (contributions: Attribution[], unit: string) =>
+  contributions.slice(0, TOP_DRIVERS).map(c => `${c.name} ${c.contribution >= 0 ? '+' : ''}${c.contribution}${unit ? ` ${unit}` : ''}`).join('; ') || 'None';
+
+const describeAttributions = (attributions: ScoreAttributions) => {
+  const lines = [`- Rule contributions (score ${attributions.rules.score}): ${formatDrivers(attributions.rules.contributions, '')}`];
+  if (attributions.logisticRegression) {
+    lines.push(`- Logistic regression drivers (probability ${attributions.logisticRegression.score}): ${formatDrivers(attributions.logisticRegression.contributions, 'log-odds')}`);
+  }
+  if (attributions.isolationForest) {
+    lines.push(`- Isolation forest, features that shortened the isolation path (anomaly score ${attributions.isolationForest.score}): ${formatDrivers(attributions.isolationForest.contributions, 'steps')}`);
+  }
+  return lines.join('\n      ');
+};
+
 /**
  * Generates a natural language explanation for a suspicious transaction.
+ * With attributions the prompt lists the actual score drivers, so the summary is grounded in them.
  */
-export const getFraudExplanation = async (transaction: EnrichedTransaction): Promise<string> => {
+export const getFraudExplanation = async (transaction: EnrichedTransaction, baseCurrency = 'USD', attributions?: ScoreAttributions): Promise<string> => {
   const apiKey = getApiKey();
   
   if (!apiKey) {
@@ -24,16 +41,19 @@ export const getFraudExplanation = async (transaction: EnrichedTransaction): Pro
       
       Transaction Data:
       - ID: ${transaction.id}
-      - Amount: ${transaction.amount} ${transaction.currency}
+      - Amount: ${transaction.amount} ${transaction.currency}${transaction.currency !== baseCurrency && transaction.baseAmount !== undefined ? ` (${transaction.baseAmount} ${baseCurrency})` : ''}
       - Category: ${transaction.category}
       - Location: ${transaction.location}
       - Type: ${transaction.type}
       - Time: ${transaction.timestamp}
       - ML Fraud Score: ${transaction.fraudScore} (0-1 scale)
       - Triggers: ${transaction.ruleTriggered || 'None'}
-
+${attributions ? `
+      Score Drivers (largest first):
+      ${describeAttributions(attributions)}
+` : ''}
       Provide a concise, explainable AI report (max 3 sentences) on why this is suspicious. 
-      Focus on patterns like geography, amount anomalies, or category mismatch. 
+      ${attributions ? 'Base the explanation on the score drivers listed above; do not invent other reasons.' : 'Focus on patterns like geography, amount anomalies, or category mismatch.'} 
       Start with "Suspicious because..." or "Likely legitimate because..."
     `;
 
@@ -52,7 +72,7 @@ export const getFraudExplanation = async (transaction: EnrichedTransaction): Pro
 /**
  * Generates a formal "Stage 1 Report" for a batch of transactions.
  */
-export const generateBatchReport = async (stats: DashboardStats, topTriggers: string[]): Promise<string> => {
+export const generateBatchReport = async (stats: DashboardStats, topTriggers: string[], baseCurrency = 'USD'): Promise<string> => {
   const apiKey = getApiKey();
   
   if (!apiKey) {
@@ -68,8 +88,8 @@ export const generateBatchReport = async (stats: DashboardStats, topTriggers: st
       Batch Statistics:
       - Total Transactions: ${stats.totalTransactions}
       - Anomalies Detected: ${stats.flaggedTransactions}
-      - Total Volume Processed: $${stats.totalVolume.toFixed(2)}
-      - At-Risk Volume: $${stats.blockedVolume.toFixed(2)}
+      - Total Volume Processed: ${stats.totalVolume.toFixed(2)} ${baseCurrency}
+      - At-Risk Volume: ${stats.blockedVolume.toFixed(2)} ${baseCurrency}
       - Fraud Rate: ${stats.fraudRate.toFixed(2)}%
       - Common Detection Triggers: ${topTriggers.join(', ')}
 
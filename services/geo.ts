@@ -0,0 +1,67 @@
+import { CITY_COORDINATES } from '../constants';
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+// Transactions in the same minute still get a finite speed
+const MIN_TRAVEL_HOURS = 1 / 60;
+
+const cityIndex = new Map(
+  Object.entries(CITY_COORDINATES).map(([key, coords]) => [key.split(',')[0].trim().toLowerCase(), coords])
+);
+
+/** Looks up "City, CC" (or just "City") in the bundled table. Returns null when unknown. */
+export const lookupCoordinates = (location: string | undefined): Coordinates | null => {
+  if (!location) return null;
+  return CITY_COORDINATES[location] || cityIndex.get(location.split(',')[0].trim().toLowerCase()) || null;
+};
+
+/** Great-circle distance in km. */
+export const haversineKm = (a: Coordinates, b: Coordinates): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+/** Per-client geo history, carried across a client's transactions in time order. */
+export interface GeoState {
+  lastCoords: Coordinates | null;
+  lastTime: number | null; // ms, time of the last transaction with a known location
+  seenLocations: Set<string>;
+}
+
+export const createGeoState = (): GeoState => ({ lastCoords: null, lastTime: null, seenLocations: new Set() });
+
+/**
+ * Distance from the client's previous geolocated transaction, the implied travel
+ * speed, and whether this location is new for the client. The first transaction
+ * of a client is never flagged as a new location (there is nothing to compare with).
+ * Updates the state in place.
+ */
+export const computeGeoFeatures = (state: GeoState, location: string, timestampMs: number) => {
+  const coords = lookupCoordinates(location);
+  let distanceKm = 0;
+  let speedKmh = 0;
+
+  if (coords && state.lastCoords && state.lastTime !== null) {
+    distanceKm = haversineKm(state.lastCoords, coords);
+    const hours = Math.max((timestampMs - state.lastTime) / (1000 * 60 * 60), MIN_TRAVEL_HOURS);
+    speedKmh = distanceKm / hours;
+  }
+
+  const key = location.trim().toLowerCase();
+  const isNewLocation = state.seenLocations.size > 0 && !state.seenLocations.has(key);
+  state.seenLocations.add(key);
+
+  if (coords) {
+    state.lastCoords = coords;
+    state.lastTime = timestampMs;
+  }
+
+  return { distanceKm, speedKmh, isNewLocation };
+};
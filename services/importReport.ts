@@ -0,0 +1,73 @@
+import { ImportReport, SkippedRow, Transaction } from '../types';
+
+/**
+ * IMPORT REPORT
+ * Plumbing shared by the importers: the rows read / skipped report, and the loop that
+ * streams a file through a chunked reader.
+ */
+
+// Enough to show what went wrong without keeping a million skipped rows around
+const MAX_SKIPPED_SAMPLES = 100;
+
+/** A value an importer found absent where required, or present but unreadable. */
+export interface FieldIssue {
+  field: keyof Transaction;
+  kind: 'missing' | 'unparseable';
+}
+
+/**
+ * An empty report for an importer to fill: `skip` for each row it skips (with the field to
+ * blame, if any), `flag` for a value it dropped from a row it kept, and `snapshot` for a copy
+ * safe to hand out while reading goes on.
+ */
+export const createImportReport = () => {
+  const report: ImportReport = { rowsRead: 0, rowsSkipped: 0, skipReasons: {}, skippedSamples: [], fieldIssues: {} };
+  const flag = ({ field, kind }: FieldIssue) => {
+    const issues = report.fieldIssues[field] ?? (report.fieldIssues[field] = { missing: 0, unparseable: 0 });
+    issues[kind]++;
+  };
+  const skip = (row: SkippedRow, issue?: FieldIssue) => {
+    report.rowsSkipped++;
+    report.skipReasons[row.reason] = (report.skipReasons[row.reason] || 0) + 1;
+    if (report.skippedSamples.length < MAX_SKIPPED_SAMPLES) report.skippedSamples.push(row);
+    if (issue) flag(issue);
+  };
+  const snapshot = (): ImportReport => ({
+    ...report,
+    skipReasons: { ...report.skipReasons },
+    skippedSamples: [...report.skippedSamples],
+    fieldIssues: Object.fromEntries(Object.entries(report.fieldIssues).map(([field, issues]) => [field, { ...issues }]))
+  });
+  return { report, skip, flag, snapshot };
+};
+
+/** An importer that takes text chunk by chunk (see csvImport.ts and jsonTransactions.ts). */
+export interface ChunkReader<T> {
+  push: (chunk: string) => T[]; // the items completed by this chunk
+  end: () => T[];
+  report: () => ImportReport;
+}
+
+/**
+ * Reads a file through `Blob.stream()` into `reader`, handing each chunk's items to `onBatch`
+ * as soon as they are parsed, and returns the import report once the file is done.
+ */
+export const streamImport = async <T,>(
+  file: Blob,
+  reader: ChunkReader<T>,
+  onBatch: (items: T[], progress: { rowsRead: number; bytesRead: number }) => void
+): Promise<ImportReport> => {
+  const stream = file.stream().getReader();
+  const decoder = new TextDecoder(); // keeps multi-byte characters split across chunks intact
+  let bytesRead = 0;
+
+  for (;;) {
+    const { done, value } = await stream.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    onBatch(reader.push(decoder.decode(value, { stream: true })), { rowsRead: reader.report().rowsRead, bytesRead });
+  }
+  const rest = [...reader.push(decoder.decode()), ...reader.end()];
+  onBatch(rest, { rowsRead: reader.report().rowsRead, bytesRead });
+  return reader.report();
+};
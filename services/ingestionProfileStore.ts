@@ -0,0 +1,40 @@
+import { ColumnMapping, IngestionProfile } from '../types';
+
+const PROFILES_STORAGE_KEY = 'fraud_detect_ingestion_profiles';
+
+export const loadIngestionProfiles = (): IngestionProfile[] => {
+  const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(p => typeof p?.name === 'string' && p.mapping?.columns) : [];
+  } catch (e) {
+    console.error("Stored ingestion profiles are corrupt, starting without profiles", e);
+    return [];
+  }
+};
+
+const saveIngestionProfiles = (profiles: IngestionProfile[]) => {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+/** Saves a mapping under a name, replacing a profile of the same name. Returns the new list. */
+export const saveIngestionProfile = (name: string, mapping: ColumnMapping): IngestionProfile[] => {
+  const existing = loadIngestionProfiles();
+  const previous = existing.find(p => p.name === name);
+  const profile: IngestionProfile = {
+    id: previous?.id ?? `profile-${Date.now().toString(36)}`,
+    name,
+    mapping,
+    updatedAt: new Date().toISOString()
+  };
+  const profiles = previous ? existing.map(p => p.id === previous.id ? profile : p) : [...existing, profile];
+  saveIngestionProfiles(profiles);
+  return profiles;
+};
+
+export const deleteIngestionProfile = (id: string): IngestionProfile[] => {
+  const profiles = loadIngestionProfiles().filter(p => p.id !== id);
+  saveIngestionProfiles(profiles);
+  return profiles;
+};
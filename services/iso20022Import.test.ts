@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { TransactionType } from '../types';
+import { parseIso20022 } from './iso20022Import';
+
+const CAMT_053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>STMT-7</Id>
+      <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Ntry>
+        <Amt Ccy="EUR">250.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2023-03-01</Dt></BookgDt>
+        <BkTxCd><Domn><Fmly><Cd>ICDT</Cd><SubFmlyCd>ESCT</SubFmlyCd></Fmly></Domn></BkTxCd>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>E2E-1</EndToEndId></Refs>
+          <RltdPties><Cdtr><Nm>ACME Ltd</Nm></Cdtr><CdtrAcct><Id><IBAN>FR1420041010050500013M02606</IBAN></Id></CdtrAcct></RltdPties>
+          <Purp><Cd>SUPP</Cd></Purp>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">90.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><DtTm>2023-03-02T10:00:00</DtTm></BookgDt>
+        <NtryDtls>
+          <TxDtls><Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs><AmtDtls><TxAmt><Amt Ccy="EUR">40.00</Amt></TxAmt></AmtDtls><RltdPties><Dbtr><Nm>Jo</Nm></Dbtr></RltdPties></TxDtls>
+          <TxDtls><AmtDtls><TxAmt><Amt Ccy="EUR">50.00</Amt></TxAmt></AmtDtls><RltdPties><Dbtr><Nm>Sam</Nm></Dbtr></RltdPties></TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry><Amt Ccy="EUR">5.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>PDNG</Sts><BookgDt><Dt>2023-03-03</Dt></BookgDt></Ntry>
+      <Ntry><Amt Ccy="EUR">abc</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts><BookgDt><Dt>2023-03-03</Dt></BookgDt></Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const PAIN_001 = `<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03">
+  <CstmrCdtTrfInitn>
+    <GrpHdr><MsgId>M1</MsgId><CreDtTm>2023-04-01T08:00:00</CreDtTm></GrpHdr>
+    <PmtInf>
+      <PmtInfId>P1</PmtInfId>
+      <ReqdExctnDt>2023-04-03</ReqdExctnDt>
+      <Dbtr><Nm>Payer</Nm></Dbtr>
+      <DbtrAcct><Id><IBAN>GB29NWBK60161331926819</IBAN></Id></DbtrAcct>
+      <CdtTrfTxInf><PmtId><EndToEndId>A</EndToEndId></PmtId><Amt><InstdAmt Ccy="GBP">12.50</InstdAmt></Amt><Cdtr><Nm>Shop</Nm></Cdtr></CdtTrfTxInf>
+      <CdtTrfTxInf><PmtId><EndToEndId>A</EndToEndId></PmtId><Amt><InstdAmt>7</InstdAmt></Amt><Purp><Cd>SALA</Cd></Purp></CdtTrfTxInf>
+    </PmtInf>
+  </CstmrCdtTrfInitn>
+</Document>`;
+
+describe('parseIso20022', () => {
+  it('reads booked camt.053 entries and batch-booked details', () => {
+    const { messageType, transactions, report } = parseIso20022(CAMT_053, 'USD');
+    expect(messageType).toBe('camt.053');
+    expect(transactions).toHaveLength(3);
+    expect(transactions[0]).toMatchObject({
+      id: 'E2E-1',
+      clientId: 'DE89370400440532013000',
+      counterpartyId: 'FR1420041010050500013M02606',
+      amount: 250,
+      currency: 'EUR',
+      timestamp: '2023-03-01T00:00:00.000Z',
+      category: 'SUPP',
+      location: 'DE',
+      type: TransactionType.TRANSFER
+    });
+    // A credit's creditor is the statement's own account; unusable references fall back to the position
+    expect(transactions.slice(1).map(t => [t.id, t.clientId, t.counterpartyId, t.amount])).toEqual([
+      ['STMT-7-2-1', 'Jo', 'DE89370400440532013000', 40],
+      ['STMT-7-2-2', 'Sam', 'DE89370400440532013000', 50]
+    ]);
+    expect(report).toMatchObject({ rowsRead: 5, rowsSkipped: 2, skipReasons: { 'Entry not booked': 1, 'Invalid amount': 1 } });
+  });
+
+  it('reads pain.001 transfers with unique IDs', () => {
+    const { messageType, transactions } = parseIso20022(PAIN_001, 'USD');
+    expect(messageType).toBe('pain.001');
+    expect(transactions.map(t => [t.id, t.clientId, t.counterpartyId, t.amount, t.currency, t.category, t.location])).toEqual([
+      ['A', 'GB29NWBK60161331926819', 'Shop', 12.5, 'GBP', TransactionType.TRANSFER, 'GB'],
+      ['A-2', 'GB29NWBK60161331926819', undefined, 7, 'USD', 'SALA', 'GB']
+    ]);
+    expect(transactions[0].timestamp).toBe('2023-04-03T00:00:00.000Z');
+  });
+
+  it('rejects other documents', () => {
+    expect(() => parseIso20022('<Document><Other/></Document>', 'USD')).toThrow(/not an ISO 20022/);
+  });
+});
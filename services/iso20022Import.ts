@@ -0,0 +1,229 @@
+import { ImportReport, Transaction, TransactionType } from '../types';
+import { XmlElement, childElement, childElements, childText, findElement, parseXml } from './xml';
+import { parseDateTime } from './columnMapping';
+import { createImportReport } from './importReport';
+
+/**
+ * ISO 20022 IMPORT
+ * Turns payment-operations exports into transactions:
+ *  - camt.053 bank statements: one transaction per booked entry, or per transaction detail
+ *    when an entry books several (batch booking). The statement's own account stands in
+ *    for whichever side the entry does not name.
+ *  - pain.001 credit transfer initiations: one transaction per CdtTrfTxInf.
+ * The debtor becomes the client and the creditor the counterparty, identified by IBAN,
+ * then other account ID, then name. The category is the payment's purpose code, else its
+ * category purpose, remittance document type or bank transaction sub-family code.
+ */
+
+export type Iso20022MessageType = 'camt.053' | 'pain.001';
+
+export interface Iso20022Import {
+  messageType: Iso20022MessageType;
+  transactions: Transaction[];
+  report: ImportReport;
+}
+
+// An account or party as an ID: IBAN, other account ID, then the party's name or BIC
+const partyId = (account: XmlElement | undefined, party: XmlElement | undefined): string | undefined =>
+  childText(account, 'Id', 'IBAN') ??
+  childText(account, 'Id', 'Othr', 'Id') ??
+  childText(party, 'Nm') ??
+  childText(party, 'Pty', 'Nm') ??
+  childText(party, 'Id', 'OrgId', 'AnyBIC') ??
+  childText(party, 'Pty', 'Id', 'OrgId', 'AnyBIC');
+
+// ISO country prefix of an IBAN, used as the transaction location
+const ibanCountry = (account: XmlElement | undefined): string | undefined => {
+  const iban = childText(account, 'Id', 'IBAN');
+  return iban && /^[A-Z]{2}\d{2}/.test(iban) ? iban.slice(0, 2) : undefined;
+};
+
+// Dates come as <X><Dt/></X>, <X><DtTm/></X> or, in older pain.001, as the text of <X> itself
+const dateOf = (element: XmlElement | undefined): number => {
+  const text = childText(element, 'DtTm') ?? childText(element, 'Dt') ?? element?.text.trim();
+  return text ? parseDateTime(text, 'iso') : NaN;
+};
+
+// References banks fill in when the initiating party gave none
+const usableReference = (reference: string | undefined) =>
+  reference && reference.toUpperCase() !== 'NOTPROVIDED' ? reference : undefined;
+
+const remittanceDocumentType = (transaction: XmlElement | undefined) =>
+  childText(transaction, 'RmtInf', 'Strd', 'RfrdDocInf', 'Tp', 'CdOrPrtry', 'Cd');
+
+const BANK_FAMILY_TYPES: Record<string, TransactionType> = {
+  ICDT: TransactionType.TRANSFER, // issued credit transfers
+  RCDT: TransactionType.TRANSFER, // received credit transfers
+  CWDL: TransactionType.WITHDRAWAL, // cash withdrawal
+  CDPT: TransactionType.DEPOSIT // cash deposit
+};
+
+// IDs must be unique within a batch; repeated references get a suffix
+const createIdIssuer = () => {
+  const used = new Set<string>();
+  return (preferred: string) => {
+    let id = preferred;
+    for (let n = 2; used.has(id); n++) id = `${preferred}-${n}`;
+    used.add(id);
+    return id;
+  };
+};
+
+const readAmount = (element: XmlElement | undefined, fallbackCurrency: string) => {
+  const text = element?.text.trim();
+  return {
+    amount: text && /^-?\d+(\.\d+)?$/.test(text) ? parseFloat(text) : NaN,
+    currency: (element?.attributes.Ccy || fallbackCurrency).toUpperCase()
+  };
+};
+
+const readStatements = (statements: XmlElement[], baseCurrency: string): Omit<Iso20022Import, 'messageType'> => {
+  const { report, skip } = createImportReport();
+  const issueId = createIdIssuer();
+  const transactions: Transaction[] = [];
+
+  statements.forEach((statement, s) => {
+    const account = childElement(statement, 'Acct');
+    const owner = partyId(account, childElement(account, 'Ownr'));
+    const accountCurrency = childText(account, 'Ccy') ?? baseCurrency;
+    const statementId = childText(statement, 'Id') ?? `STMT-${s + 1}`;
+
+    childElements(statement, 'Ntry').forEach((entry, e) => {
+      const details = childElements(entry, 'NtryDtls').flatMap(d => childElements(d, 'TxDtls'));
+      const status = childText(entry, 'Sts', 'Cd') ?? childText(entry, 'Sts');
+      const bankFamily = childElement(entry, 'BkTxCd', 'Domn', 'Fmly');
+
+      (details.length > 0 ? details : [undefined]).forEach((detail, d) => {
+        report.rowsRead++;
+        const line = (detail ?? entry).line;
+        if (status && status !== 'BOOK') {
+          skip({ line, reason: 'Entry not booked', detail: status });
+          return;
+        }
+        if (childText(entry, 'RvslInd') === 'true') {
+          skip({ line, reason: 'Reversal entry' });
+          return;
+        }
+
+        // A lone detail shares the entry's amount; batch-booked details carry their own
+        const amountElement = childElement(detail, 'AmtDtls', 'TxAmt', 'Amt') ?? childElement(detail, 'Amt') ??
+          (details.length <= 1 ? childElement(entry, 'Amt') : undefined);
+        const { amount, currency } = readAmount(amountElement, accountCurrency);
+        if (!Number.isFinite(amount)) {
+          skip({ line, reason: 'Invalid amount', detail: amountElement ? `"${amountElement.text.trim()}"` : 'missing' }, { field: 'amount', kind: amountElement ? 'unparseable' : 'missing' });
+          return;
+        }
+        const booked = dateOf(childElement(entry, 'BookgDt'));
+        const time = Number.isFinite(booked) ? booked : dateOf(childElement(entry, 'ValDt'));
+        if (!Number.isFinite(time)) {
+          const dated = childElement(entry, 'BookgDt') ?? childElement(entry, 'ValDt');
+          skip({ line, reason: 'Invalid booking date' }, { field: 'timestamp', kind: dated ? 'unparseable' : 'missing' });
+          return;
+        }
+
+        const credit = (childText(detail, 'CdtDbtInd') ?? childText(entry, 'CdtDbtInd')) === 'CRDT';
+        const parties = childElement(detail, 'RltdPties');
+        const debtorAccount = childElement(parties, 'DbtrAcct');
+        const debtor = partyId(debtorAccount, childElement(parties, 'Dbtr')) ?? (credit ? undefined : owner);
+        const creditor = partyId(childElement(parties, 'CdtrAcct'), childElement(parties, 'Cdtr')) ?? (credit ? owner : undefined);
+        const family = childText(detail, 'BkTxCd', 'Domn', 'Fmly', 'Cd') ?? childText(bankFamily, 'Cd');
+        const type = (family && BANK_FAMILY_TYPES[family]) || TransactionType.PAYMENT;
+
+        transactions.push({
+          id: issueId(
+            usableReference(childText(detail, 'Refs', 'AcctSvcrRef')) ??
+            usableReference(childText(detail, 'Refs', 'TxId')) ??
+            usableReference(childText(detail, 'Refs', 'EndToEndId')) ??
+            usableReference(childText(entry, 'AcctSvcrRef')) ??
+            usableReference(childText(entry, 'NtryRef')) ??
+            `${statementId}-${e + 1}${details.length > 1 ? `-${d + 1}` : ''}`
+          ),
+          clientId: debtor ?? '',
+          counterpartyId: creditor,
+          amount,
+          currency,
+          timestamp: new Date(time).toISOString(),
+          category: childText(detail, 'Purp', 'Cd') ??
+            remittanceDocumentType(detail) ??
+            childText(detail, 'BkTxCd', 'Domn', 'Fmly', 'SubFmlyCd') ??
+            childText(bankFamily, 'SubFmlyCd') ??
+            type,
+          location: ibanCountry(debtorAccount) ?? (credit ? undefined : ibanCountry(account)) ?? 'Unknown',
+          type
+        });
+      });
+    });
+  });
+
+  return { transactions, report };
+};
+
+const readInitiation = (initiation: XmlElement, baseCurrency: string): Omit<Iso20022Import, 'messageType'> => {
+  const { report, skip } = createImportReport();
+  const issueId = createIdIssuer();
+  const transactions: Transaction[] = [];
+  const created = dateOf(childElement(initiation, 'GrpHdr', 'CreDtTm'));
+
+  childElements(initiation, 'PmtInf').forEach((payment, p) => {
+    const debtorAccount = childElement(payment, 'DbtrAcct');
+    const debtor = partyId(debtorAccount, childElement(payment, 'Dbtr'));
+    const execution = dateOf(childElement(payment, 'ReqdExctnDt'));
+    const time = Number.isFinite(execution) ? execution : created;
+    const paymentId = childText(payment, 'PmtInfId') ?? `PMTINF-${p + 1}`;
+    const categoryPurpose = childText(payment, 'PmtTpInf', 'CtgyPurp', 'Cd');
+
+    childElements(payment, 'CdtTrfTxInf').forEach((transfer, t) => {
+      report.rowsRead++;
+      const amountElement = childElement(transfer, 'Amt', 'InstdAmt') ?? childElement(transfer, 'Amt', 'EqvtAmt', 'Amt');
+      const { amount, currency } = readAmount(amountElement, baseCurrency);
+      if (!Number.isFinite(amount)) {
+        skip({ line: transfer.line, reason: 'Invalid amount', detail: amountElement ? `"${amountElement.text.trim()}"` : 'missing' }, { field: 'amount', kind: amountElement ? 'unparseable' : 'missing' });
+        return;
+      }
+      if (!Number.isFinite(time)) {
+        const dated = childElement(payment, 'ReqdExctnDt') ?? childElement(initiation, 'GrpHdr', 'CreDtTm');
+        skip({ line: transfer.line, reason: 'Invalid execution date' }, { field: 'timestamp', kind: dated ? 'unparseable' : 'missing' });
+        return;
+      }
+
+      transactions.push({
+        id: issueId(
+          usableReference(childText(transfer, 'PmtId', 'EndToEndId')) ??
+          usableReference(childText(transfer, 'PmtId', 'InstrId')) ??
+          `${paymentId}-${t + 1}`
+        ),
+        clientId: debtor ?? '',
+        counterpartyId: partyId(childElement(transfer, 'CdtrAcct'), childElement(transfer, 'Cdtr')),
+        amount,
+        currency,
+        timestamp: new Date(time).toISOString(),
+        category: childText(transfer, 'Purp', 'Cd') ??
+          childText(transfer, 'PmtTpInf', 'CtgyPurp', 'Cd') ??
+          categoryPurpose ??
+          remittanceDocumentType(transfer) ??
+          TransactionType.TRANSFER,
+        location: ibanCountry(debtorAccount) ?? 'Unknown',
+        type: TransactionType.TRANSFER
+      });
+    });
+  });
+
+  return { transactions, report };
+};
+
+/**
+ * Reads a camt.053 or pain.001 document. Throws when the XML is malformed or is neither
+ * message. Amounts without a currency are taken to be in the account's (or `baseCurrency`).
+ */
+export const parseIso20022 = (xml: string, baseCurrency: string): Iso20022Import => {
+  const document = parseXml(xml);
+  const statement = findElement(document, 'BkToCstmrStmt');
+  if (statement) {
+    return { messageType: 'camt.053', ...readStatements(childElements(statement, 'Stmt'), baseCurrency) };
+  }
+  const initiation = findElement(document, 'CstmrCdtTrfInitn');
+  if (initiation) {
+    return { messageType: 'pain.001', ...readInitiation(initiation, baseCurrency) };
+  }
+  throw new Error(`<${document.name}> is not an ISO 20022 camt.053 statement or pain.001 credit transfer initiation.`);
+};
@@ -0,0 +1,150 @@
+import { Attribution, IsolationForestModel, IsolationForestOptions, IsolationTreeNode } from '../types';
+import { createRng, Rng } from './random';
+
+export const DEFAULT_ISOLATION_FOREST_OPTIONS: IsolationForestOptions = {
+  numTrees: 100,
+  sampleSize: 256,
+  contamination: 0.05,
+  seed: 42
+};
+
+const EULER_GAMMA = 0.5772156649;
+
+/**
+ * c(n): average path length of an unsuccessful BST search over n points.
+ * Used both to normalise the anomaly score and to estimate the remaining depth
+ * of leaves that were cut off by the height limit (Liu, Ting & Zhou, 2008).
+ */
+export const averagePathLength = (n: number): number => {
+  if (n <= 1) return 0;
+  if (n === 2) return 1;
+  const harmonic = Math.log(n - 1) + EULER_GAMMA;
+  return 2 * harmonic - (2 * (n - 1)) / n;
+};
+
+const buildTree = (rows: number[][], indices: number[], depth: number, heightLimit: number, rng: Rng): IsolationTreeNode => {
+  if (depth >= heightLimit || indices.length <= 1) {
+    return { size: indices.length };
+  }
+
+  // Pick a random feature that still has spread in this partition
+  const featureCount = rows[0].length;
+  const candidates = Array.from({ length: featureCount }, (_, i) => i);
+  while (candidates.length > 0) {
+    const pick = Math.floor(rng() * candidates.length);
+    const feature = candidates[pick];
+
+    let min = Infinity;
+    let max = -Infinity;
+    indices.forEach(i => {
+      const v = rows[i][feature];
+      if (v < min) min = v;
+      if (v > max) max = v;
+    });
+
+    if (max > min) {
+      const split = min + rng() * (max - min);
+      const left: number[] = [];
+      const right: number[] = [];
+      indices.forEach(i => (rows[i][feature] < split ? left : right).push(i));
+      return {
+        feature,
+        split,
+        left: buildTree(rows, left, depth + 1, heightLimit, rng),
+        right: buildTree(rows, right, depth + 1, heightLimit, rng)
+      };
+    }
+    candidates.splice(pick, 1);
+  }
+
+  // Every feature is constant: the partition cannot be isolated further
+  return { size: indices.length };
+};
+
+const pathLength = (node: IsolationTreeNode, row: number[], depth: number): number => {
+  if ('size' in node) return depth + averagePathLength(node.size);
+  return pathLength(row[node.feature] < node.split ? node.left : node.right, row, depth + 1);
+};
+
+/**
+ * Anomaly score s(x, ψ) = 2^(-E[h(x)] / c(ψ)).
+ * Close to 1 for points isolated in few splits, well below 0.5 for normal points.
+ */
+export const scoreIsolationForest = (model: IsolationForestModel, row: number[]): number => {
+  if (model.trees.length === 0) return 0.5;
+  const meanPath = model.trees.reduce((acc, tree) => acc + pathLength(tree, row, 0), 0) / model.trees.length;
+  const normaliser = averagePathLength(model.sampleSize) || 1;
+  return Math.pow(2, -meanPath / normaliser);
+};
+
+/**
+ * Which features isolated the row. In every tree the path's shortfall against the average
+ * path c(ψ) is shared equally among the splits on the way to its leaf; the shares are
+ * averaged over trees. Positive values shortened the path (more anomalous).
+ */
+export const explainIsolationForest = (model: IsolationForestModel, row: number[]) => {
+  const totals = new Array(model.features.length).fill(0);
+  const expectedPath = averagePathLength(model.sampleSize);
+  let meanPath = 0;
+  model.trees.forEach(tree => {
+    const splits: number[] = [];
+    let node = tree;
+    while (!('size' in node)) {
+      splits.push(node.feature);
+      node = row[node.feature] < node.split ? node.left : node.right;
+    }
+    const length = splits.length + averagePathLength(node.size);
+    meanPath += length;
+    splits.forEach(feature => { totals[feature] += (expectedPath - length) / splits.length; });
+  });
+  const trees = model.trees.length || 1;
+  return {
+    expectedPath,
+    pathLength: meanPath / trees,
+    contributions: model.features.map((name, j): Attribution => ({ name, contribution: totals[j] / trees }))
+  };
+};
+
+/**
+ * Trains an isolation forest: each tree is grown on a random sub-sample of ψ rows
+ * (without replacement) up to a height limit of ceil(log2 ψ).
+ * The decision threshold is the score quantile matching the contamination rate.
+ */
+export const fitIsolationForest = (
+  rows: number[][],
+  features: string[],
+  options: Partial<IsolationForestOptions> = {}
+): IsolationForestModel => {
+  const opts: IsolationForestOptions = { ...DEFAULT_ISOLATION_FOREST_OPTIONS, ...options };
+  const numTrees = Math.max(1, Math.floor(opts.numTrees));
+  const sampleSize = Math.max(1, Math.min(Math.floor(opts.sampleSize), rows.length));
+  const contamination = Math.min(Math.max(opts.contamination, 0.001), 0.5);
+
+  const model: IsolationForestModel = {
+    options: { ...opts, numTrees, contamination },
+    features,
+    sampleSize,
+    threshold: 0.5,
+    trees: []
+  };
+  if (rows.length === 0) return model;
+
+  const rng = createRng(opts.seed);
+  const heightLimit = Math.ceil(Math.log2(Math.max(sampleSize, 2)));
+  const pool = rows.map((_, i) => i);
+
+  for (let t = 0; t < numTrees; t++) {
+    // Partial Fisher-Yates shuffle: the first sampleSize entries are the sub-sample
+    for (let i = 0; i < sampleSize; i++) {
+      const j = i + Math.floor(rng() * (pool.length - i));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    model.trees.push(buildTree(rows, pool.slice(0, sampleSize), 0, heightLimit, rng));
+  }
+
+  const scores = rows.map(r => scoreIsolationForest(model, r)).sort((a, b) => b - a);
+  const cutoffIndex = Math.max(0, Math.ceil(contamination * scores.length) - 1);
+  model.threshold = scores[cutoffIndex];
+
+  return model;
+};
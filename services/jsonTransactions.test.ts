@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { EnrichedTransaction, Transaction, TransactionType } from '../types';
+import { createNdjsonReader, parseTransactionsJson, toJsonArray, toNdjson, validateTransaction } from './jsonTransactions';
+
+const TXN: Transaction = {
+  id: 'T1',
+  clientId: 'C1',
+  amount: 12.5,
+  currency: 'EUR',
+  timestamp: '2023-05-01T12:00:00.000Z',
+  category: 'PAYMENT',
+  location: 'Paris',
+  type: TransactionType.PAYMENT,
+  trueLabel: 0
+};
+
+describe('validateTransaction', () => {
+  it('keeps only Transaction fields, normalising currency and timestamp', () => {
+    const result = validateTransaction({ ...TXN, currency: 'eur', timestamp: '2023-05-01T14:00:00+02:00', fraudScore: 0.9 });
+    expect(result).toEqual({ transaction: TXN });
+  });
+
+  it('says which field is missing or invalid', () => {
+    expect(validateTransaction({ ...TXN, amount: undefined })).toMatchObject({ reason: 'Missing "amount"', issue: { field: 'amount', kind: 'missing' } });
+    expect(validateTransaction({ ...TXN, type: 'REFUND' })).toMatchObject({ reason: 'Invalid "type"', issue: { field: 'type', kind: 'unparseable' } });
+    expect(validateTransaction({ ...TXN, trueLabel: 2 })).toMatchObject({ reason: 'Invalid "trueLabel"' });
+    expect(validateTransaction([TXN])).toEqual({ reason: 'Not a JSON object' });
+  });
+});
+
+describe('createNdjsonReader', () => {
+  it('reads lines split across chunks and reports bad ones', () => {
+    const text = `${JSON.stringify(TXN)}\n\nnot json\n${JSON.stringify({ ...TXN, id: 'T2', clientId: '' })}\n${JSON.stringify({ ...TXN, id: 'T3' })}`;
+    const reader = createNdjsonReader();
+    const transactions: Transaction[] = [];
+    for (let start = 0; start < text.length; start += 7) transactions.push(...reader.push(text.slice(start, start + 7)));
+    transactions.push(...reader.end());
+    expect(transactions.map(t => t.id)).toEqual(['T1', 'T3']);
+    const report = reader.report();
+    expect(report).toMatchObject({ rowsRead: 4, rowsSkipped: 2 });
+    expect(report.skippedSamples.map(s => [s.line, s.reason])).toEqual([[3, 'Invalid JSON'], [4, 'Invalid "clientId"']]);
+  });
+});
+
+describe('parseTransactionsJson', () => {
+  it('reads an array and skips invalid elements by position', () => {
+    const { transactions, report } = parseTransactionsJson(JSON.stringify([TXN, { id: 'x' }]));
+    expect(transactions).toEqual([TXN]);
+    expect(report.skippedSamples).toEqual([{ line: 2, reason: 'Missing "clientId"' }]);
+  });
+
+  it('rejects text that is not a JSON array', () => {
+    expect(() => parseTransactionsJson('{')).toThrow(/not valid JSON/);
+    expect(() => parseTransactionsJson(JSON.stringify(TXN))).toThrow(/must be an array/);
+  });
+});
+
+describe('exports', () => {
+  it('round-trip through the importers', () => {
+    const enriched = { ...TXN, fraudScore: 0.4, isSuspicious: false } as EnrichedTransaction;
+    expect(toNdjson([])).toBe('');
+    expect(toJsonArray([])).toBe('[]\n');
+    const reader = createNdjsonReader();
+    expect([...reader.push(toNdjson([enriched])), ...reader.end()]).toEqual([TXN]);
+    expect(parseTransactionsJson(toJsonArray([enriched])).transactions).toEqual([TXN]);
+  });
+});
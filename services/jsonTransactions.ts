@@ -0,0 +1,150 @@
+import { EnrichedTransaction, ImportReport, Transaction, TransactionType } from '../types';
+import { ChunkReader, FieldIssue, createImportReport, streamImport } from './importReport';
+
+/**
+ * JSON TRANSACTIONS
+ * Newline-delimited JSON (one object per line) and plain JSON arrays, both ways.
+ * Imports are validated field by field against the Transaction type and keep only its
+ * fields; features and scores are recomputed by the pipeline. Exports write every field
+ * of the EnrichedTransaction, so nothing is lost between our exports and the data lake.
+ */
+
+type FieldCheck = { field: keyof Transaction; required: boolean; expected: string; valid: (value: unknown) => boolean };
+
+const isString = (value: unknown) => typeof value === 'string';
+const isNonEmptyString = (value: unknown) => typeof value === 'string' && value.trim() !== '';
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+const TRANSACTION_FIELDS: FieldCheck[] = [
+  { field: 'id', required: true, expected: 'a non-empty string', valid: isNonEmptyString },
+  { field: 'clientId', required: true, expected: 'a non-empty string', valid: isNonEmptyString },
+  { field: 'amount', required: true, expected: 'a finite number', valid: isNumber },
+  { field: 'currency', required: true, expected: 'a 3-letter currency code', valid: v => typeof v === 'string' && /^[A-Za-z]{3}$/.test(v) },
+  { field: 'timestamp', required: true, expected: 'an ISO 8601 datetime', valid: v => typeof v === 'string' && Number.isFinite(Date.parse(v)) },
+  { field: 'category', required: true, expected: 'a string', valid: isString },
+  { field: 'location', required: true, expected: 'a string', valid: isString },
+  { field: 'type', required: true, expected: Object.values(TransactionType).join(' | '), valid: v => (Object.values(TransactionType) as unknown[]).includes(v) },
+  { field: 'step', required: false, expected: 'a finite number', valid: isNumber },
+  { field: 'merchant', required: false, expected: 'a string', valid: isString },
+  { field: 'counterpartyId', required: false, expected: 'a string', valid: isString },
+  { field: 'oldBalanceOrig', required: false, expected: 'a finite number', valid: isNumber },
+  { field: 'newBalanceOrig', required: false, expected: 'a finite number', valid: isNumber },
+  { field: 'oldBalanceDest', required: false, expected: 'a finite number', valid: isNumber },
+  { field: 'newBalanceDest', required: false, expected: 'a finite number', valid: isNumber },
+  { field: 'trueLabel', required: false, expected: '0 or 1', valid: v => v === 0 || v === 1 }
+];
+
+/**
+ * Checks one parsed value against the Transaction type. Returns the transaction (its own
+ * fields only, currency upper-cased, timestamp as ISO) or why it was rejected.
+ */
+export const validateTransaction = (value: unknown): { transaction: Transaction } | { reason: string; detail?: string; issue?: FieldIssue } => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { reason: 'Not a JSON object' };
+  }
+  const record = value as Record<string, unknown>;
+  const transaction: Record<string, unknown> = {};
+  for (const { field, required, expected, valid } of TRANSACTION_FIELDS) {
+    const fieldValue = record[field];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (required) return { reason: `Missing "${field}"`, issue: { field, kind: 'missing' } };
+      continue;
+    }
+    if (!valid(fieldValue)) {
+      return { reason: `Invalid "${field}"`, detail: `expected ${expected}, found ${JSON.stringify(fieldValue)}`, issue: { field, kind: 'unparseable' } };
+    }
+    transaction[field] = fieldValue;
+  }
+  transaction.currency = (transaction.currency as string).toUpperCase();
+  transaction.timestamp = new Date(transaction.timestamp as string).toISOString();
+  return { transaction: transaction as unknown as Transaction };
+};
+
+/** Reads NDJSON chunk by chunk; blank lines are ignored. */
+export const createNdjsonReader = (): ChunkReader<Transaction> => {
+  const { report, skip, snapshot } = createImportReport();
+  let pending = ''; // a line not yet ended by '\n'
+  let line = 0;
+  let first = true;
+
+  const readLine = (text: string, transactions: Transaction[]) => {
+    line++;
+    if (text.trim() === '') return;
+    report.rowsRead++;
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (e) {
+      skip({ line, reason: 'Invalid JSON', detail: (e as Error).message });
+      return;
+    }
+    const result = validateTransaction(value);
+    if ('transaction' in result) transactions.push(result.transaction);
+    else skip({ line, reason: result.reason, detail: result.detail }, result.issue);
+  };
+
+  const push = (chunk: string) => {
+    const transactions: Transaction[] = [];
+    let text = pending + chunk;
+    if (first && text.length > 0) {
+      first = false;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+    const lines = text.split('\n');
+    pending = lines.pop()!;
+    lines.forEach(l => readLine(l, transactions));
+    return transactions;
+  };
+
+  const end = () => {
+    const transactions: Transaction[] = [];
+    if (pending !== '') readLine(pending, transactions);
+    pending = '';
+    return transactions;
+  };
+
+  return {
+    push,
+    end,
+    report: snapshot
+  };
+};
+
+/** Streams an NDJSON file; see streamImport. */
+export const streamTransactionsNdjson = (
+  file: Blob,
+  onBatch: (transactions: Transaction[], progress: { rowsRead: number; bytesRead: number }) => void
+): Promise<ImportReport> => streamImport(file, createNdjsonReader(), onBatch);
+
+/**
+ * Reads a JSON array of transactions. Throws when the text is not JSON or not an array;
+ * invalid elements are skipped and reported with their 1-based position as the line.
+ */
+export const parseTransactionsJson = (text: string): { transactions: Transaction[]; report: ImportReport } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.charCodeAt(0) === 0xfeff ? text.slice(1) : text);
+  } catch (e) {
+    throw new Error(`The file is not valid JSON: ${(e as Error).message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('A JSON import must be an array of transactions. Use NDJSON (.ndjson) for one object per line.');
+  }
+  const { report, skip } = createImportReport();
+  const transactions: Transaction[] = [];
+  parsed.forEach((value, i) => {
+    report.rowsRead++;
+    const result = validateTransaction(value);
+    if ('transaction' in result) transactions.push(result.transaction);
+    else skip({ line: i + 1, reason: result.reason, detail: result.detail }, result.issue);
+  });
+  return { transactions, report };
+};
+
+/** One complete record per line: every field of each (Enriched)Transaction. */
+export const toNdjson = (transactions: Transaction[]): string =>
+  transactions.map(t => JSON.stringify(t)).join('\n') + (transactions.length > 0 ? '\n' : '');
+
+/** A JSON array of complete EnrichedTransactions, one per line for readable diffs. */
+export const toJsonArray = (transactions: EnrichedTransaction[]): string =>
+  transactions.length === 0 ? '[]\n' : `[\n${transactions.map(t => JSON.stringify(t)).join(',\n')}\n]\n`;
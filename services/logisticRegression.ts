@@ -0,0 +1,107 @@
+import { Attribution, LogisticRegressionModel, LogisticRegressionOptions } from '../types';
+
+export const DEFAULT_LOGISTIC_REGRESSION_OPTIONS: LogisticRegressionOptions = {
+  learningRate: 0.1,
+  epochs: 300,
+  l2: 0.01,
+  classWeight: 'balanced'
+};
+
+export const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+const standardise = (row: number[], means: number[], stds: number[]) =>
+  row.map((v, j) => (v - means[j]) / stds[j]);
+
+/**
+ * Fits a binary logistic regression with full-batch gradient descent.
+ * - Features are standardised (z-scored) on the training batch, so the learned
+ *   coefficients are directly comparable and can be used as feature importance.
+ * - L2 regularisation shrinks the coefficients (the bias is not penalised).
+ * - 'balanced' class weighting gives each class the same total weight, which
+ *   stops the model from predicting "legit" for everything on imbalanced fraud data.
+ */
+export const fitLogisticRegression = (
+  rows: number[][],
+  labels: number[],
+  features: string[],
+  options: Partial<LogisticRegressionOptions> = {}
+): LogisticRegressionModel => {
+  const opts: LogisticRegressionOptions = { ...DEFAULT_LOGISTIC_REGRESSION_OPTIONS, ...options };
+  const n = rows.length;
+  const d = features.length;
+
+  const means = new Array(d).fill(0);
+  const stds = new Array(d).fill(1);
+  if (n > 0) {
+    for (let j = 0; j < d; j++) {
+      const mean = rows.reduce((acc, r) => acc + r[j], 0) / n;
+      const variance = rows.reduce((acc, r) => acc + Math.pow(r[j] - mean, 2), 0) / n;
+      means[j] = mean;
+      stds[j] = Math.sqrt(variance) || 1;
+    }
+  }
+
+  const model: LogisticRegressionModel = {
+    options: opts,
+    features,
+    means,
+    stds,
+    weights: new Array(d).fill(0),
+    bias: 0,
+    trainingLoss: 0
+  };
+
+  const positives = labels.filter(y => y === 1).length;
+  const negatives = n - positives;
+  if (positives === 0 || negatives === 0) {
+    // Single-class batch: nothing to separate, predict the observed base rate
+    const rate = Math.min(Math.max(positives / (n || 1), 1e-4), 1 - 1e-4);
+    model.bias = Math.log(rate / (1 - rate));
+    return model;
+  }
+
+  const posWeight = opts.classWeight === 'balanced' ? n / (2 * positives) : 1;
+  const negWeight = opts.classWeight === 'balanced' ? n / (2 * negatives) : 1;
+  const sampleWeights = labels.map(y => y === 1 ? posWeight : negWeight);
+  const X = rows.map(r => standardise(r, means, stds));
+
+  // Start from the prior log-odds so early epochs are spent on the features
+  model.bias = opts.classWeight === 'balanced' ? 0 : Math.log(positives / negatives);
+
+  for (let epoch = 0; epoch < opts.epochs; epoch++) {
+    const gradW = new Array(d).fill(0);
+    let gradB = 0;
+    let loss = 0;
+
+    for (let i = 0; i < n; i++) {
+      let z = model.bias;
+      for (let j = 0; j < d; j++) z += model.weights[j] * X[i][j];
+      const p = sigmoid(z);
+      const err = (p - labels[i]) * sampleWeights[i];
+      for (let j = 0; j < d; j++) gradW[j] += err * X[i][j];
+      gradB += err;
+      const pc = Math.min(Math.max(p, 1e-12), 1 - 1e-12);
+      loss -= sampleWeights[i] * (labels[i] * Math.log(pc) + (1 - labels[i]) * Math.log(1 - pc));
+    }
+
+    for (let j = 0; j < d; j++) {
+      model.weights[j] -= opts.learningRate * (gradW[j] / n + opts.l2 * model.weights[j]);
+    }
+    model.bias -= opts.learningRate * (gradB / n);
+    model.trainingLoss = loss / n + (opts.l2 / 2) * model.weights.reduce((acc, w) => acc + w * w, 0);
+  }
+
+  return model;
+};
+
+export const predictLogisticRegression = (model: LogisticRegressionModel, row: number[]): number => {
+  const x = standardise(row, model.means, model.stds);
+  const z = x.reduce((acc, v, j) => acc + model.weights[j] * v, model.bias);
+  return sigmoid(z);
+};
+
+/** Each feature's share of the log-odds (weight × standardised value); with the bias they sum to logit(score). */
+export const explainLogisticRegression = (model: LogisticRegressionModel, row: number[]): Attribution[] => {
+  const x = standardise(row, model.means, model.stds);
+  return model.features.map((name, j) => ({ name, contribution: model.weights[j] * x[j] }));
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { calcCurves, calcMetrics } from './metrics';
+
+const SCORES = [0.9, 0.8, 0.7, 0.6, 0.5];
+const TRUTH = [1, 0, 1, 0, 0];
+
+describe('calcMetrics', () => {
+  it('computes the confusion-matrix metrics from the decisions', () => {
+    expect(calcMetrics([1, 1, 1, 0, 0], SCORES, TRUTH)).toEqual({ precision: 0.6667, recall: 1, f1Score: 0.8, rocAuc: 0.8333 });
+    expect(calcMetrics([0, 0, 0, 0, 0], SCORES, TRUTH)).toMatchObject({ precision: 0, recall: 0, f1Score: 0 });
+  });
+
+  it('counts tied positive/negative pairs as half', () => {
+    expect(calcMetrics([0, 0], [0.5, 0.5], [1, 0]).rocAuc).toBe(0.5);
+    expect(calcMetrics([0, 0, 0], [0.5, 0.5, 0.9], [0, 1, 1]).rocAuc).toBe(0.75);
+  });
+
+  it('is 0.5 when only one class is present', () => {
+    expect(calcMetrics([1, 0], [0.9, 0.1], [1, 1]).rocAuc).toBe(0.5);
+  });
+});
+
+describe('calcCurves', () => {
+  it('steps through each distinct score', () => {
+    const curves = calcCurves(SCORES, TRUTH);
+    expect(curves.roc).toEqual([
+      { threshold: 0.9001, fpr: 0, tpr: 0 },
+      { threshold: 0.9, fpr: 0, tpr: 0.5 },
+      { threshold: 0.8, fpr: 0.3333, tpr: 0.5 },
+      { threshold: 0.7, fpr: 0.3333, tpr: 1 },
+      { threshold: 0.6, fpr: 0.6667, tpr: 1 },
+      { threshold: 0.5, fpr: 1, tpr: 1 }
+    ]);
+    expect(curves.pr.map(p => p.precision)).toEqual([1, 0.5, 0.6667, 0.5, 0.4]);
+    expect(curves.averagePrecision).toBe(0.8333);
+    expect(curves.precisionAtK).toEqual([]);
+  });
+
+  it('flags tied scores together', () => {
+    const curves = calcCurves([0.5, 0.5, 0.2], [1, 0, 0]);
+    expect(curves.pr).toEqual([
+      { threshold: 0.5, recall: 1, precision: 0.5 },
+      { threshold: 0.2, recall: 1, precision: 0.3333 }
+    ]);
+  });
+
+  it('has a trapezoidal ROC area equal to the AUC', () => {
+    const scores = Array.from({ length: 200 }, (_, i) => ((i * 37) % 101) / 100);
+    const truth = scores.map((s, i) => (s + ((i * 13) % 7) / 10 > 0.9 ? 1 : 0));
+    const { roc } = calcCurves(scores, truth);
+    const area = roc.slice(1).reduce((acc, p, i) => acc + (p.fpr - roc[i].fpr) * (p.tpr + roc[i].tpr) / 2, 0);
+    expect(area).toBeCloseTo(calcMetrics(truth, scores, truth).rocAuc, 3);
+  });
+
+  it('reports precision@k and keeps at most 500 curve points', () => {
+    const scores = Array.from({ length: 2000 }, (_, i) => 1 - i / 2000);
+    const truth = scores.map((_, i) => (i < 5 || i % 10 === 0 ? 1 : 0));
+    const curves = calcCurves(scores, truth);
+    expect(curves.precisionAtK).toEqual([
+      { k: 10, precision: 0.5 },
+      { k: 50, precision: 0.18 },
+      { k: 100, precision: 0.14 },
+      { k: 500, precision: 0.108 }
+    ]);
+    expect(curves.roc).toHaveLength(500);
+    expect(curves.roc[0]).toMatchObject({ fpr: 0, tpr: 0 });
+    expect(curves.roc[499]).toMatchObject({ fpr: 1, tpr: 1 });
+  });
+});
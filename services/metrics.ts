@@ -0,0 +1,100 @@
+import { ModelCurves, ModelMetrics, PrPoint, RocPoint } from '../types';
+
+const round4 = (v: number) => parseFloat(v.toFixed(4));
+
+/**
+ * Confusion-matrix metrics plus ROC AUC for one model.
+ * preds are the thresholded 0/1 decisions, scores the raw model outputs.
+ */
+export const calcMetrics = (preds: number[], scores: number[], truth: number[]): ModelMetrics => {
+    let tp = 0, fp = 0, fn = 0, tn = 0;
+    truth.forEach((actual, i) => {
+        const pred = preds[i];
+        if (actual === 1 && pred === 1) tp++;
+        if (actual === 0 && pred === 1) fp++;
+        if (actual === 1 && pred === 0) fn++;
+        if (actual === 0 && pred === 0) tn++;
+    });
+
+    const precision = (tp + fp) === 0 ? 0 : tp / (tp + fp);
+    const recall = (tp + fn) === 0 ? 0 : tp / (tp + fn);
+    const f1Score = (precision + recall) === 0 ? 0 : 2 * (precision * recall) / (precision + recall);
+    
+    // ROC AUC (Mann-Whitney): positive/negative pairs ranked correctly, ties count half,
+    // so it equals the trapezoidal area under the curve from calcCurves
+    const pairs = scores.map((s, i) => ({ s, t: truth[i] })).sort((a, b) => b.s - a.s);
+    let auc = 0;
+    let posCount = 0;
+    for (let start = 0; start < pairs.length;) {
+        let end = start;
+        let tiedPos = 0, tiedNeg = 0;
+        while (end < pairs.length && pairs[end].s === pairs[start].s) {
+            if (pairs[end].t === 1) tiedPos++;
+            else tiedNeg++;
+            end++;
+        }
+        auc += tiedNeg * posCount + 0.5 * tiedNeg * tiedPos;
+        posCount += tiedPos;
+        start = end;
+    }
+    const totalPos = truth.filter(x => x === 1).length;
+    const totalNeg = truth.length - totalPos;
+    const rocAuc = totalPos * totalNeg === 0 ? 0.5 : auc / (totalPos * totalNeg);
+
+    return {
+        precision: parseFloat(precision.toFixed(4)),
+        recall: parseFloat(recall.toFixed(4)),
+        f1Score: parseFloat(f1Score.toFixed(4)),
+        rocAuc: parseFloat(rocAuc.toFixed(4))
+    };
+};
+
+// Curves are down-sampled to this many points so results stay small enough to keep in state and export
+const MAX_CURVE_POINTS = 500;
+export const PRECISION_AT_K = [10, 50, 100, 500];
+
+const downsample = <T,>(points: T[]): T[] => {
+    if (points.length <= MAX_CURVE_POINTS) return points;
+    const picked: T[] = [];
+    for (let s = 0; s < MAX_CURVE_POINTS; s++) picked.push(points[Math.round((s * (points.length - 1)) / (MAX_CURVE_POINTS - 1))]);
+    return picked;
+};
+
+/**
+ * ROC and precision-recall curves from raw scores, one point per distinct score
+ * (ties are flagged together), plus average precision and precision@k.
+ * Average precision is the step-wise sum of precision × recall gained, as in scikit-learn.
+ */
+export const calcCurves = (scores: number[], truth: number[]): ModelCurves => {
+    const order = scores.map((_, i) => i).sort((a, b) => scores[b] - scores[a]);
+    const totalPos = truth.filter(x => x === 1).length;
+    const totalNeg = truth.length - totalPos;
+
+    const roc: RocPoint[] = [{ threshold: round4((scores[order[0]] ?? 1) + 0.0001), fpr: 0, tpr: 0 }];
+    const pr: PrPoint[] = [];
+    let tp = 0, fp = 0, averagePrecision = 0, prevRecall = 0;
+
+    order.forEach((i, k) => {
+        if (truth[i] === 1) tp++;
+        else fp++;
+        if (k + 1 < order.length && scores[order[k + 1]] === scores[i]) return;
+
+        const recall = totalPos === 0 ? 0 : tp / totalPos;
+        const precision = tp / (tp + fp);
+        averagePrecision += (recall - prevRecall) * precision;
+        prevRecall = recall;
+        roc.push({ threshold: round4(scores[i]), fpr: round4(totalNeg === 0 ? 0 : fp / totalNeg), tpr: round4(recall) });
+        pr.push({ threshold: round4(scores[i]), recall: round4(recall), precision: round4(precision) });
+    });
+
+    const precisionAtK = PRECISION_AT_K
+        .filter(k => k <= truth.length)
+        .map(k => ({ k, precision: round4(order.slice(0, k).filter(i => truth[i] === 1).length / k) }));
+
+    return {
+        roc: downsample(roc),
+        pr: downsample(pr),
+        averagePrecision: round4(averagePrecision),
+        precisionAtK
+    };
+};
@@ -0,0 +1,44 @@
+import { EnrichedTransaction } from '../types';
+import { baseAmountOf } from './fx';
+
+export interface ModelFeature {
+  name: string;
+  extract: (t: EnrichedTransaction) => number;
+}
+
+/**
+ * Numeric feature vector shared by the Stage 3 learned models.
+ * Keeping one list means a new engineered feature only has to be added here
+ * to reach both the Isolation Forest and the Logistic Regression.
+ */
+export const MODEL_FEATURES: ModelFeature[] = [
+  { name: 'amount', extract: baseAmountOf }, // base currency
+  { name: 'amount_zscore', extract: t => Math.abs(t.amount_zscore || 0) },
+  { name: 'amount_rolling_dev', extract: t => Math.abs(t.amount_rolling_dev || 0) },
+  { name: 'time_since_last_trans', extract: t => t.time_since_last_trans || 0 },
+  { name: 'is_rapid_transaction', extract: t => t.is_rapid_transaction ? 1 : 0 },
+  { name: 'client_transaction_count', extract: t => t.client_transaction_count || 0 },
+  { name: 'category_freq', extract: t => t.category_freq || 0 },
+  { name: 'is_new_category', extract: t => t.is_new_category ? 1 : 0 },
+  { name: 'category_entropy', extract: t => t.category_entropy || 0 },
+  { name: 'distance_from_prev_km', extract: t => t.distance_from_prev_km || 0 },
+  // Speeds span several orders of magnitude (a jump within the same minute is ~10^5 km/h)
+  { name: 'log_travel_speed', extract: t => Math.log1p(t.travel_speed_kmh || 0) },
+  { name: 'is_new_location', extract: t => t.is_new_location ? 1 : 0 },
+  // Fan-in of a busy merchant dwarfs that of a private account
+  { name: 'log_dest_fan_in', extract: t => Math.log1p(t.dest_fan_in || 0) },
+  { name: 'log_orig_fan_out', extract: t => Math.log1p(t.orig_fan_out || 0) },
+  { name: 'dest_is_mule_suspect', extract: t => t.dest_is_mule_suspect ? 1 : 0 },
+  { name: 'orig_is_mule_suspect', extract: t => t.orig_is_mule_suspect ? 1 : 0 },
+  { name: 'in_short_cycle', extract: t => t.in_short_cycle ? 1 : 0 },
+  { name: 'orig_balance_error', extract: t => t.orig_balance_error || 0 },
+  { name: 'dest_balance_error', extract: t => t.dest_balance_error || 0 },
+  { name: 'is_account_emptied', extract: t => t.is_account_emptied ? 1 : 0 },
+  { name: 'is_zero_balance_dest', extract: t => t.is_zero_balance_dest ? 1 : 0 },
+];
+
+export const toFeatureMatrix = (transactions: EnrichedTransaction[], features: ModelFeature[] = MODEL_FEATURES): number[][] =>
+  transactions.map(t => features.map(f => {
+    const value = f.extract(t);
+    return Number.isFinite(value) ? value : 0;
+  }));
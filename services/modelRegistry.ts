@@ -0,0 +1,207 @@
+import { FraudRule, IsolationForestModel, IsolationTreeNode, LogisticRegressionModel, ModelRegistry, ModelTrainingMetadata, ModelVersion, ScoreCalibration, ScoringModels } from '../types';
+import { MODEL_FEATURES } from './modelFeatures';
+
+/**
+ * MODEL REGISTRY
+ * Trained rule sets and Stage 3 models are kept as numbered versions. One version is in
+ * production: its rules and models score every transaction, which records its label.
+ * Versions are stored and exchanged in a JSON model file (see ModelFile below).
+ */
+
+export const MODEL_FILE_FORMAT = 'frauddetect-model';
+export const MODEL_FILE_VERSION = 1;
+
+export const EMPTY_REGISTRY: ModelRegistry = { versions: [], productionId: null, promotions: [] };
+
+// Trees as nested arrays: a leaf is its size, a split is [feature, split, left, right].
+// Roughly a third of the size of the object form, which matters for 100 trees in localStorage.
+type EncodedTree = number | [number, number, EncodedTree, EncodedTree];
+
+export interface ModelFile {
+  format: typeof MODEL_FILE_FORMAT;
+  formatVersion: number;
+  version: string; // label, e.g. "v3"
+  registeredAt: string;
+  metadata: ModelTrainingMetadata;
+  rules: FraudRule[];
+  isolationForest: Omit<IsolationForestModel, 'trees'> & { trees: EncodedTree[] };
+  logisticRegression: LogisticRegressionModel;
+  stacker?: LogisticRegressionModel;
+  calibration?: ScoringModels['calibration'];
+}
+
+export const versionLabel = (version: ModelVersion) => `v${version.version}`;
+
+export const productionVersion = (registry: ModelRegistry): ModelVersion | null =>
+  registry.versions.find(v => v.id === registry.productionId) || null;
+
+const encodeTree = (node: IsolationTreeNode): EncodedTree =>
+  'size' in node ? node.size : [node.feature, node.split, encodeTree(node.left), encodeTree(node.right)];
+
+const decodeTree = (tree: unknown, width: number): IsolationTreeNode => {
+  if (typeof tree === 'number') return { size: tree };
+  if (!Array.isArray(tree) || tree.length !== 4 || !Number.isInteger(tree[0]) || tree[0] < 0 || tree[0] >= width || typeof tree[1] !== 'number') {
+    throw new Error('Malformed isolation tree');
+  }
+  return { feature: tree[0], split: tree[1], left: decodeTree(tree[2], width), right: decodeTree(tree[3], width) };
+};
+
+export const toModelFile = (version: ModelVersion): ModelFile => ({
+  format: MODEL_FILE_FORMAT,
+  formatVersion: MODEL_FILE_VERSION,
+  version: versionLabel(version),
+  registeredAt: version.registeredAt,
+  metadata: version.metadata,
+  rules: version.rules,
+  isolationForest: { ...version.models.isolationForest, trees: version.models.isolationForest.trees.map(encodeTree) },
+  logisticRegression: version.models.logisticRegression,
+  stacker: version.models.stacker,
+  calibration: version.models.calibration
+});
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumberArray = (value: unknown, length?: number): value is number[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'number') && (length === undefined || value.length === length);
+
+const isCalibration = (value: unknown): value is ScoreCalibration => {
+  if (!isObject(value)) return false;
+  if (value.method === 'platt') return typeof value.a === 'number' && typeof value.b === 'number';
+  return value.method === 'isotonic' && isNumberArray(value.x) && isNumberArray(value.y, value.x.length);
+};
+
+const isScoringCalibration = (value: unknown): value is NonNullable<ScoringModels['calibration']> => {
+  if (!isObject(value) || !isCalibration(value.isolationForest) || !isCalibration(value.logisticRegression)) return false;
+  const weighted = value.weightedEnsemble;
+  if (weighted === undefined) return true;
+  if (!isObject(weighted) || !isCalibration(weighted.calibration)) return false;
+  const weights = weighted.weights;
+  return isObject(weights) && ['rules', 'isolationForest', 'logisticRegression'].every(m => typeof weights[m] === 'number');
+};
+
+const sameFeatures = (features: unknown) =>
+  Array.isArray(features) && features.length === MODEL_FEATURES.length && MODEL_FEATURES.every((f, j) => features[j] === f.name);
+
+/**
+ * Checks a parsed model file and turns it back into a version. The models must have been
+ * trained on MODEL_FEATURES exactly, by name and in order, or their rows would be misread.
+ * `version` and `id` are placeholders; registerVersion assigns the registry's own. Throws
+ * an Error describing the first problem found.
+ */
+export const fromModelFile = (file: unknown): ModelVersion => {
+  if (!isObject(file) || file.format !== MODEL_FILE_FORMAT) throw new Error(`Not a ${MODEL_FILE_FORMAT} file`);
+  if (typeof file.formatVersion === 'number' && file.formatVersion > MODEL_FILE_VERSION) {
+    throw new Error(`Model file format ${file.formatVersion} is newer than this app supports (${MODEL_FILE_VERSION})`);
+  }
+  const metadata = file.metadata;
+  if (!isObject(metadata) || typeof metadata.dataset !== 'string' || typeof metadata.rowCount !== 'number' || !Array.isArray(metadata.features)) {
+    throw new Error('Model file is missing its training metadata (dataset, rowCount, features)');
+  }
+  if (!sameFeatures(metadata.features)) {
+    const features = metadata.features;
+    const j = MODEL_FEATURES.findIndex((f, k) => features[k] !== f.name);
+    const at = j === -1 ? features.length : j;
+    throw new Error(`Model file was trained on different features: feature ${at + 1} is ${features[at] ?? 'missing'}, this app expects ${MODEL_FEATURES[at]?.name ?? 'none'}`);
+  }
+  const rules = file.rules;
+  if (!Array.isArray(rules) || rules.some(r => !isObject(r) || typeof r.condition !== 'string' || typeof r.weight !== 'number')) {
+    throw new Error('Model file has an invalid rule set');
+  }
+
+  const d = MODEL_FEATURES.length;
+  const checkLogReg = (model: unknown, name: string, width: number): LogisticRegressionModel => {
+    if (!isObject(model) || !isNumberArray(model.weights, width) || !isNumberArray(model.means, width) || !isNumberArray(model.stds, width) || typeof model.bias !== 'number') {
+      throw new Error(`Model file has an invalid ${name}`);
+    }
+    return model as unknown as LogisticRegressionModel;
+  };
+  const logisticRegression = checkLogReg(file.logisticRegression, 'logistic regression', d);
+  if (!sameFeatures(logisticRegression.features)) throw new Error('Logistic regression and training metadata list different features');
+  const stacker = file.stacker === undefined ? undefined : checkLogReg(file.stacker, 'stacked ensemble', 3);
+
+  const forest = file.isolationForest;
+  if (!isObject(forest) || !Array.isArray(forest.trees) || typeof forest.sampleSize !== 'number' || typeof forest.threshold !== 'number') {
+    throw new Error('Model file has an invalid isolation forest');
+  }
+  if (!sameFeatures(forest.features)) throw new Error('Isolation forest and training metadata list different features');
+
+  let calibration: ScoringModels['calibration'];
+  if (file.calibration !== undefined) {
+    if (!isScoringCalibration(file.calibration)) throw new Error('Model file has an invalid score calibration');
+    calibration = file.calibration;
+  }
+
+  return {
+    id: '',
+    version: 0,
+    registeredAt: typeof file.registeredAt === 'string' ? file.registeredAt : new Date().toISOString(),
+    metadata: metadata as unknown as ModelTrainingMetadata,
+    rules: rules as FraudRule[],
+    models: {
+      isolationForest: { ...(forest as unknown as Omit<IsolationForestModel, 'trees'>), trees: forest.trees.map(tree => decodeTree(tree, d)) },
+      logisticRegression,
+      stacker,
+      calibration
+    }
+  };
+};
+
+export const serializeModelVersion = (version: ModelVersion): string => JSON.stringify(toModelFile(version), null, 2);
+
+/** Parses an exported model file. Throws an Error when it is not valid JSON or not a model file. */
+export const parseModelFile = (text: string): ModelVersion => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Invalid JSON: ${(e as Error).message}`);
+  }
+  const version = fromModelFile(data);
+  const label = isObject(data) && typeof data.version === 'string' ? data.version : undefined;
+  return { ...version, metadata: { ...version.metadata, importedFrom: version.metadata.importedFrom || label } };
+};
+
+export const createModelVersion = (rules: FraudRule[], models: ScoringModels, metadata: ModelTrainingMetadata): ModelVersion => ({
+  id: '',
+  version: 0,
+  registeredAt: new Date().toISOString(),
+  metadata,
+  rules,
+  models
+});
+
+/** Adds a version under the next version number. The first version is promoted straight away. */
+export const registerVersion = (registry: ModelRegistry, version: ModelVersion): { registry: ModelRegistry; version: ModelVersion } => {
+  const number = registry.versions.reduce((max, v) => Math.max(max, v.version), 0) + 1;
+  const registered = { ...version, version: number, id: `model-${Date.now().toString(36)}-${number}` };
+  const next = { ...registry, versions: [...registry.versions, registered] };
+  return { registry: registry.productionId ? next : promoteVersion(next, registered.id), version: registered };
+};
+
+export const promoteVersion = (registry: ModelRegistry, id: string): ModelRegistry => {
+  if (!registry.versions.some(v => v.id === id) || registry.productionId === id) return registry;
+  return { ...registry, productionId: id, promotions: [...registry.promotions, { versionId: id, at: new Date().toISOString() }] };
+};
+
+/** The version promoted before the current one (skipping deleted versions), or null when there is none. */
+export const rollbackTarget = (registry: ModelRegistry): ModelVersion | null => {
+  for (let i = registry.promotions.length - 2; i >= 0; i--) {
+    const version = registry.versions.find(v => v.id === registry.promotions[i].versionId);
+    if (version && version.id !== registry.productionId) return version;
+  }
+  return null;
+};
+
+/** Puts the previous production version back and forgets the promotions after it. */
+export const rollbackVersion = (registry: ModelRegistry): ModelRegistry => {
+  const target = rollbackTarget(registry);
+  if (!target) return registry;
+  const keep = registry.promotions.map(p => p.versionId).lastIndexOf(target.id);
+  return { ...registry, productionId: target.id, promotions: registry.promotions.slice(0, keep + 1) };
+};
+
+/** Removes a version; the production version cannot be removed. */
+export const deleteVersion = (registry: ModelRegistry, id: string): ModelRegistry =>
+  id === registry.productionId ? registry : { ...registry, versions: registry.versions.filter(v => v.id !== id) };
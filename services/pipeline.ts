@@ -0,0 +1,304 @@
+import { AlertPolicy, BatchSummary, DataQualityPolicy, DataQualityReport, DecisionContext, EngineeredFeatures, EnrichedTransaction, FraudRule, FxSettings, ImportReport, ImportSource, PipelineProgress, PipelineStage, ScoreCalibration, Stage3Options, Stage3Results, Transaction } from '../types';
+import { runStage3Analysis, scoreTransaction } from './fraudEngine';
+import { baseAmountOf, normalizeTransactions } from './fx';
+import { streamTransactionsCSV } from './csvImport';
+import { parseIso20022 } from './iso20022Import';
+import { parseTransactionsJson, streamTransactionsNdjson } from './jsonTransactions';
+import { createDataQualityStage, DataQualityStage, OUTLIER_SAMPLE_SIZE } from './dataQuality';
+import { DEFAULT_EVALUATION_OPTIONS } from './evaluation';
+import { createFeatureStore } from './featureStore';
+import { scoreIsolationForest } from './isolationForest';
+import { predictLogisticRegression } from './logisticRegression';
+import { toFeatureMatrix } from './modelFeatures';
+import { createRng } from './random';
+
+/**
+ * BATCH PIPELINE
+ * Everything an upload runs before the dashboard updates. Free of UI state, so it can run in the
+ * pipeline worker (workers/pipeline.worker.ts) and report its progress step by step. CSV and
+ * NDJSON files are streamed (ISO 20022 XML and JSON arrays are read whole), and each chunk goes
+ * straight on through FX normalisation, the data-quality stage and the incremental feature
+ * store to be scored, so the rows are never all held at once. What is kept is bounded: running
+ * totals (BatchSummary), a seeded sample of STAGE3_SAMPLE_SIZE rows for Stage 3, and the rows
+ * sent to the page (every flagged row up to MAX_FLAGGED_ROWS and the latest VIEW_WINDOW).
+ * Rows are scored on point-in-time features, as live transactions are. Once the file is done
+ * the sample also gets full-history features off the finished store, so that Stage 3 can show
+ * how much look-ahead inflates the metrics.
+ */
+
+// Stage 3 fits, evaluates and bootstraps on a seeded sample of at most this many rows
+export const STAGE3_SAMPLE_SIZE = 20000;
+
+// The page gets every flagged row up to MAX_FLAGGED_ROWS, and the latest VIEW_WINDOW rows
+export const MAX_FLAGGED_ROWS = 10000;
+export const VIEW_WINDOW = 5000;
+
+// Rows handed on at a time from files that are read whole
+const CHUNK_SIZE = 5000;
+
+export interface ScoringSetup {
+  rules: FraudRule[];
+  alertPolicy: AlertPolicy;
+  calibration: ScoreCalibration | null;
+  stage3Options: Omit<Stage3Options, 'onProgress'>;
+}
+
+export interface BatchPipelineRequest extends ScoringSetup {
+  file: Blob;
+  source: ImportSource; // CSV mappings come from the upload wizard
+  fxSettings: FxSettings;
+  dataQualityPolicy: DataQualityPolicy;
+  decision: DecisionContext | null; // champion / challenger, as for live transactions
+}
+
+/** Stage 3's sample of an upload, in time order and rule-scored (before champion / challenger decisions). */
+export interface Stage3Sample {
+  fullHistory: EnrichedTransaction[]; // client aggregates include later transactions
+  pointInTime: EnrichedTransaction[]; // the features the rows were scored on
+  batchSize: number; // rows the upload scored
+}
+
+export interface BaselineModels {
+  stage3: Stage3Results; // full-history features (client aggregates include later transactions)
+  stage3PointInTime: Stage3Results; // leak-free, point-in-time features
+}
+
+/** Stage 3 again on an upload's sample, e.g. after a cost matrix or evaluation change. */
+export interface BaselineModelsRequest extends ScoringSetup {
+  sample: Stage3Sample;
+}
+
+export interface BatchPipelineResult extends BaselineModels {
+  view: EnrichedTransaction[]; // the rows sent to the page, newest first
+  sample: Stage3Sample;
+  summary: BatchSummary;
+  importReport: ImportReport;
+  dataQuality: DataQualityReport;
+}
+
+const STEPS: { stage: PipelineStage; pass?: PipelineProgress['pass']; label: string }[] = [
+  { stage: 'scoring', label: 'Reading and scoring rows' },
+  { stage: 'features', label: 'Full-history features' },
+  { stage: 'isolationForest', pass: 'full-history', label: 'Isolation Forest' },
+  { stage: 'logisticRegression', pass: 'full-history', label: 'Logistic Regression' },
+  { stage: 'metrics', pass: 'full-history', label: 'Metrics' },
+  { stage: 'isolationForest', pass: 'point-in-time', label: 'Isolation Forest (point-in-time)' },
+  { stage: 'logisticRegression', pass: 'point-in-time', label: 'Logistic Regression (point-in-time)' },
+  { stage: 'metrics', pass: 'point-in-time', label: 'Metrics (point-in-time)' }
+];
+
+// Reports each step once, however often Stage 3 refits (k-fold fits a model per fold)
+const createReporter = (onProgress: (progress: PipelineProgress) => void, steps = STEPS) => {
+  let last = 0;
+  return (stage: PipelineStage, pass?: PipelineProgress['pass']) => {
+    const index = steps.findIndex(s => s.stage === stage && s.pass === pass);
+    if (index < 0 || index + 1 <= last) return;
+    last = index + 1;
+    onProgress({ ...steps[index], step: index + 1, totalSteps: steps.length });
+  };
+};
+
+/** A seeded uniform sample (reservoir sampling) of at most `size` of the items offered, kept in the order offered. */
+const createReservoir = <T,>(size: number, seed: number) => {
+  const rng = createRng(seed);
+  const kept: { index: number; item: T }[] = [];
+  let offered = 0;
+  const offer = (item: T) => {
+    const index = offered++;
+    if (kept.length < size) {
+      kept.push({ index, item });
+      return;
+    }
+    const slot = Math.floor(rng() * offered);
+    if (slot < size) kept[slot] = { index, item };
+  };
+  return {
+    offer,
+    items: () => [...kept].sort((a, b) => a.index - b.index).map(k => k.item),
+    get offered() { return offered; }
+  };
+};
+
+const createSummary = () => {
+  const summary: Omit<BatchSummary, 'ruleHits'> = {
+    rows: 0, flagged: 0, totalVolume: 0, blockedVolume: 0, riskLevels: { LOW: 0, MEDIUM: 0, HIGH: 0, CRITICAL: 0 }
+  };
+  // A Map, as rule names are the analyst's and may collide with Object.prototype keys
+  const ruleHits = new Map<string, number>();
+  const add = (t: EnrichedTransaction) => {
+    const amount = baseAmountOf(t);
+    summary.rows++;
+    summary.totalVolume += amount;
+    summary.riskLevels[t.riskLevel]++;
+    if (t.isSuspicious) {
+      summary.flagged++;
+      summary.blockedVolume += amount;
+    }
+    t.ruleHits?.forEach(({ name }) => ruleHits.set(name, (ruleHits.get(name) || 0) + 1));
+  };
+  const result = (): BatchSummary => ({
+    ...summary,
+    ruleHits: Array.from(ruleHits, ([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count)
+  });
+  return { add, result };
+};
+
+// The rows sent to the page: flagged ones up to MAX_FLAGGED_ROWS and the latest VIEW_WINDOW
+const createView = () => {
+  const flagged: { seq: number; row: EnrichedTransaction }[] = [];
+  let latest: { seq: number; row: EnrichedTransaction }[] = [];
+  let seq = 0;
+  const add = (row: EnrichedTransaction) => {
+    const entry = { seq: seq++, row };
+    if (row.isSuspicious && flagged.length < MAX_FLAGGED_ROWS) flagged.push(entry);
+    latest.push(entry);
+    if (latest.length >= 2 * VIEW_WINDOW) latest = latest.slice(-VIEW_WINDOW);
+  };
+  const rows = (): EnrichedTransaction[] => {
+    const bySeq = new Map<number, EnrichedTransaction>();
+    [...flagged, ...latest.slice(-VIEW_WINDOW)].forEach(({ seq, row }) => bySeq.set(seq, row));
+    return Array.from(bySeq).sort(([a], [b]) => b - a).map(([, row]) => row);
+  };
+  return { add, rows };
+};
+
+// Stage 3 stamps its scores on the sample it saw; the page's rows get the point-in-time models'
+// scores too, for the exports
+const scoreWithModels = (rows: EnrichedTransaction[], results: Stage3Results) => {
+  const models = results.models;
+  if (!models) return;
+  toFeatureMatrix(rows).forEach((row, k) => {
+    rows[k].isoForestScore = parseFloat(scoreIsolationForest(models.isolationForest, row).toFixed(4));
+    rows[k].logRegScore = parseFloat(predictLogisticRegression(models.logisticRegression, row).toFixed(4));
+  });
+};
+
+/**
+ * Stage 3 on the sample's full-history features and again on its point-in-time features, so the
+ * report can show how much look-ahead inflates the metrics. `progress` receives the model steps.
+ */
+export const runBaselineModels = (
+  sample: Stage3Sample,
+  setup: ScoringSetup,
+  progress: (stage: PipelineStage, pass?: PipelineProgress['pass']) => void = () => {}
+): BaselineModels => {
+  const rows = sample.pointInTime.length;
+  const withSample = (results: Stage3Results): Stage3Results => rows === sample.batchSize || !results.evaluation
+    ? results
+    : { ...results, evaluation: { ...results.evaluation, sample: { rows, batchSize: sample.batchSize } } };
+
+  const stage3 = runStage3Analysis(sample.fullHistory, { ...setup.stage3Options, onProgress: stage => progress(stage, 'full-history') });
+  const stage3PointInTime = runStage3Analysis(sample.pointInTime, { ...setup.stage3Options, onProgress: stage => progress(stage, 'point-in-time') });
+  return { stage3: withSample(stage3), stage3PointInTime: withSample(stage3PointInTime) };
+};
+
+/** Runs Stage 3 alone on an upload's sample, reporting the model steps. */
+export const runBaselineModelsJob = (request: BaselineModelsRequest, onProgress: (progress: PipelineProgress) => void = () => {}): BaselineModels =>
+  runBaselineModels(request.sample, request, createReporter(onProgress, STEPS.filter(s => s.pass)));
+
+/** The import source for files read without the column-mapping wizard, by extension; null for CSV. */
+export const directImportSource = (fileName: string): ImportSource | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'xml') return { format: 'iso20022' };
+  if (extension === 'ndjson' || extension === 'jsonl') return { format: 'ndjson' };
+  if (extension === 'json') return { format: 'json' };
+  return null;
+};
+
+// Reads the file into FX-normalised transactions, handing them to `onRows` chunk by chunk and
+// reporting read progress as it goes
+const importTransactions = async (
+  request: BatchPipelineRequest,
+  onRows: (transactions: Transaction[]) => void,
+  onProgress: (progress: PipelineProgress) => void
+): Promise<ImportReport> => {
+  const { file, source, fxSettings } = request;
+  const reading = (rowsRead: number, stepFraction: number) =>
+    onProgress({ ...STEPS[0], step: 1, totalSteps: STEPS.length, rowsRead, stepFraction });
+
+  if (source.format === 'iso20022' || source.format === 'json') {
+    const text = await file.text();
+    const { transactions, report } = source.format === 'json' ? parseTransactionsJson(text) : parseIso20022(text, fxSettings.baseCurrency);
+    for (let start = 0; start < transactions.length; start += CHUNK_SIZE) {
+      onRows(normalizeTransactions(transactions.slice(start, start + CHUNK_SIZE), fxSettings));
+      reading(Math.min(start + CHUNK_SIZE, transactions.length), Math.min(start + CHUNK_SIZE, transactions.length) / transactions.length);
+    }
+    return report;
+  }
+
+  const onBatch = (batch: Transaction[], read: { rowsRead: number; bytesRead: number }) => {
+    onRows(normalizeTransactions(batch, fxSettings));
+    reading(read.rowsRead, file.size > 0 ? read.bytesRead / file.size : 1);
+  };
+  return source.format === 'ndjson'
+    ? streamTransactionsNdjson(file, onBatch)
+    : streamTransactionsCSV(file, fxSettings.baseCurrency, source.mapping, onBatch);
+};
+
+/** Runs the whole upload pipeline. Rejects when the file holds no usable transactions. */
+export const runBatchPipeline = async (request: BatchPipelineRequest, onProgress: (progress: PipelineProgress) => void = () => {}): Promise<BatchPipelineResult> => {
+  const { rules, alertPolicy, calibration, decision } = request;
+  const progress = createReporter(onProgress);
+  const store = createFeatureStore();
+  const summary = createSummary();
+  const view = createView();
+  const sampler = createReservoir<{ transaction: Transaction; features: EngineeredFeatures }>(
+    STAGE3_SAMPLE_SIZE, request.stage3Options.evaluation?.seed ?? DEFAULT_EVALUATION_OPTIONS.seed);
+
+  // Rows reach the store in time order (within the data-quality stage's reordering window)
+  const score = (transactions: Transaction[]) => transactions.forEach(transaction => {
+    const features = store.update(transaction);
+    const scored = scoreTransaction(transaction, features, rules, alertPolicy, calibration, decision);
+    summary.add(scored);
+    view.add(scored);
+    sampler.offer({ transaction, features });
+  });
+
+  // The data-quality stage starts once it has the first rows to estimate outlier bounds from
+  let quality: DataQualityStage | null = null;
+  let firstRows: Transaction[] = [];
+  const startQuality = (): DataQualityStage => {
+    const stage = createDataQualityStage(request.dataQualityPolicy, firstRows);
+    score(stage.assess(firstRows));
+    firstRows = [];
+    quality = stage;
+    return stage;
+  };
+  const check = (transactions: Transaction[]) => {
+    if (quality) {
+      score(quality.assess(transactions));
+      return;
+    }
+    transactions.forEach(t => firstRows.push(t));
+    if (firstRows.length >= OUTLIER_SAMPLE_SIZE) startQuality();
+  };
+
+  progress('scoring');
+  const importReport = await importTransactions(request, check, onProgress);
+  const stage = quality ?? startQuality();
+  score(stage.flush());
+  const dataQuality = stage.report(importReport);
+  if (dataQuality.rowsIn === 0) {
+    const reasons = Object.entries(importReport.skipReasons).map(([reason, count]) => `${reason}: ${count}`).join(', ');
+    const hint = request.source.format === 'csv' ? ' Check the column mapping.' : '';
+    throw new Error(`Could not parse transactions.${hint}${reasons ? ` Skipped rows (${reasons}).` : ''}`);
+  }
+  if (dataQuality.rowsOut === 0) {
+    throw new Error(`The data-quality policy set aside all ${dataQuality.rowsIn.toLocaleString()} rows (${dataQuality.quarantined.toLocaleString()} quarantined, ${dataQuality.rejected.toLocaleString()} rejected). Relax the data-quality policy in Settings and upload again.`);
+  }
+
+  progress('features');
+  const sampled = sampler.items();
+  const sample: Stage3Sample = {
+    fullHistory: sampled.map(({ transaction, features }) =>
+      scoreTransaction(transaction, store.fullHistory(transaction, features), rules, alertPolicy, calibration)),
+    pointInTime: sampled.map(({ transaction, features }) =>
+      scoreTransaction(transaction, features, rules, alertPolicy, calibration)),
+    batchSize: sampler.offered
+  };
+  const models = runBaselineModels(sample, request, progress);
+  const rows = view.rows();
+  scoreWithModels(rows, models.stage3PointInTime);
+
+  return { view: rows, sample, summary: summary.result(), importReport, dataQuality, ...models };
+};
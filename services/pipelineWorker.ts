@@ -0,0 +1,51 @@
+import { PipelineProgress } from '../types';
+import { BaselineModels, BaselineModelsRequest, BatchPipelineRequest, BatchPipelineResult } from './pipeline';
+
+export type PipelineWorkerRequest =
+  | { type: 'upload'; request: BatchPipelineRequest }
+  | { type: 'baseline'; request: BaselineModelsRequest };
+
+export type PipelineWorkerMessage =
+  | { type: 'progress'; progress: PipelineProgress }
+  | { type: 'done'; result: BatchPipelineResult | BaselineModels }
+  | { type: 'error'; message: string };
+
+export interface PipelineJob<T> {
+  result: Promise<T | null>; // null when cancelled
+  cancel: () => void;
+}
+
+// One worker per job; cancelling terminates it and nothing it computed is kept
+const startPipelineJob = <T,>(job: PipelineWorkerRequest, onProgress: (progress: PipelineProgress) => void): PipelineJob<T> => {
+  const worker = new Worker(new URL('../workers/pipeline.worker.ts', import.meta.url), { type: 'module' });
+  let cancel = () => {};
+
+  const result = new Promise<T | null>((resolve, reject) => {
+    const finish = () => worker.terminate();
+    worker.onmessage = (event: MessageEvent<PipelineWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') onProgress(message.progress);
+      else if (message.type === 'done') { finish(); resolve(message.result as T); }
+      else { finish(); reject(new Error(message.message)); }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'The pipeline worker failed'));
+    };
+    cancel = () => { finish(); resolve(null); };
+  });
+
+  worker.postMessage(job);
+  return { result, cancel };
+};
+
+/**
+ * Starts the upload pipeline in a dedicated worker so large files do not freeze the
+ * dashboard. Cancelling terminates the worker; nothing it computed is kept.
+ */
+export const startBatchPipeline = (request: BatchPipelineRequest, onProgress: (progress: PipelineProgress) => void): PipelineJob<BatchPipelineResult> =>
+  startPipelineJob({ type: 'upload', request }, onProgress);
+
+/** Re-runs Stage 3 on an upload's sample in a dedicated worker, as the upload did. */
+export const startBaselineModels = (request: BaselineModelsRequest, onProgress: (progress: PipelineProgress) => void): PipelineJob<BaselineModels> =>
+  startPipelineJob({ type: 'baseline', request }, onProgress);
@@ -0,0 +1,104 @@
+import { AlertPolicy, CostMatrix, DataQualityPolicy, DecisionPolicy, EvaluationOptions, ScoreCalibration } from '../types';
+import { DEFAULT_ALERT_POLICY, DEFAULT_COST_MATRIX } from './thresholdOptimizer';
+import { DEFAULT_EVALUATION_OPTIONS } from './evaluation';
+import { DEFAULT_DECISION_POLICY } from './decision';
+import { DATA_QUALITY_CHECKS, DEFAULT_DATA_QUALITY_POLICY } from './dataQuality';
+
+const ALERT_POLICY_STORAGE_KEY = 'fraud_detect_alert_policy';
+const COST_MATRIX_STORAGE_KEY = 'fraud_detect_cost_matrix';
+const EVALUATION_STORAGE_KEY = 'fraud_detect_evaluation';
+const CALIBRATION_STORAGE_KEY = 'fraud_detect_calibration';
+const DECISION_POLICY_STORAGE_KEY = 'fraud_detect_decision_policy';
+const DATA_QUALITY_POLICY_STORAGE_KEY = 'fraud_detect_data_quality_policy';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = (value: unknown, allowed: readonly string[]): boolean =>
+  typeof value === 'string' && allowed.includes(value);
+
+const loadJson = <T,>(key: string, fallback: T, isValid: (value: unknown) => boolean): T => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return fallback;
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return isValid(parsed) ? parsed as T : fallback;
+  } catch (e) {
+    console.error(`Stored ${key} is corrupt, falling back to defaults`, e);
+    return fallback;
+  }
+};
+
+export const loadAlertPolicy = (): AlertPolicy =>
+  loadJson(ALERT_POLICY_STORAGE_KEY, DEFAULT_ALERT_POLICY, p =>
+    isObject(p) && typeof p.threshold === 'number' && isObject(p.riskBands) && typeof p.riskBands.critical === 'number');
+
+export const saveAlertPolicy = (policy: AlertPolicy) => {
+  localStorage.setItem(ALERT_POLICY_STORAGE_KEY, JSON.stringify(policy));
+};
+
+export const loadCostMatrix = (): CostMatrix =>
+  loadJson(COST_MATRIX_STORAGE_KEY, DEFAULT_COST_MATRIX, c =>
+    isObject(c) && typeof c.missedFraudCostRate === 'number' && typeof c.falsePositiveCost === 'number');
+
+export const saveCostMatrix = (cost: CostMatrix) => {
+  localStorage.setItem(COST_MATRIX_STORAGE_KEY, JSON.stringify(cost));
+};
+
+export const loadEvaluationOptions = (): EvaluationOptions => ({
+  ...DEFAULT_EVALUATION_OPTIONS,
+  ...loadJson<Partial<EvaluationOptions>>(EVALUATION_STORAGE_KEY, {}, e =>
+    isObject(e) && isOneOf(e.mode, ['in-sample', 'out-of-time', 'k-fold']))
+});
+
+export const saveEvaluationOptions = (options: EvaluationOptions) => {
+  localStorage.setItem(EVALUATION_STORAGE_KEY, JSON.stringify(options));
+};
+
+/** The calibration applied to live rule scores, or null when fraudScore is the raw rule score. */
+export const loadScoreCalibration = (): ScoreCalibration | null =>
+  loadJson<ScoreCalibration | null>(CALIBRATION_STORAGE_KEY, null, c =>
+    isObject(c) && (
+      (c.method === 'platt' && typeof c.a === 'number' && typeof c.b === 'number') ||
+      (c.method === 'isotonic' && Array.isArray(c.x) && Array.isArray(c.y) && c.x.length === c.y.length)));
+
+export const saveScoreCalibration = (calibration: ScoreCalibration | null) => {
+  if (calibration) localStorage.setItem(CALIBRATION_STORAGE_KEY, JSON.stringify(calibration));
+  else localStorage.removeItem(CALIBRATION_STORAGE_KEY);
+};
+
+const DECISION_MODELS = ['rules', 'isolationForest', 'logisticRegression', 'ensemble'];
+
+// Policies saved before per-model cut-offs existed leave every model at its own
+export const loadDecisionPolicy = (): DecisionPolicy => {
+  const stored = loadJson<DecisionPolicy>(DECISION_POLICY_STORAGE_KEY, DEFAULT_DECISION_POLICY, p =>
+    isObject(p) &&
+    isOneOf(p.champion, DECISION_MODELS) &&
+    (p.challenger === null || isOneOf(p.challenger, DECISION_MODELS)) &&
+    isObject(p.ensemble) &&
+    isOneOf(p.ensemble.method, ['weighted', 'stacked']) &&
+    isObject(p.ensemble.weights) &&
+    typeof p.ensemble.weights.rules === 'number');
+  const thresholds = Object.fromEntries(Object.entries(stored.thresholds ?? {})
+    .filter(([model, t]) => DECISION_MODELS.includes(model) && model !== 'rules' && typeof t === 'number'));
+  return { ...stored, thresholds };
+};
+
+export const saveDecisionPolicy = (policy: DecisionPolicy) => {
+  localStorage.setItem(DECISION_POLICY_STORAGE_KEY, JSON.stringify(policy));
+};
+
+// Checks added since the policy was saved get their default action
+export const loadDataQualityPolicy = (): DataQualityPolicy => {
+  const stored = loadJson<DataQualityPolicy>(DATA_QUALITY_POLICY_STORAGE_KEY, DEFAULT_DATA_QUALITY_POLICY, p =>
+    isObject(p) && typeof p.outlierThreshold === 'number' && p.outlierThreshold > 0 && isObject(p.actions));
+  const actions = { ...DEFAULT_DATA_QUALITY_POLICY.actions };
+  DATA_QUALITY_CHECKS.forEach(({ check, actions: allowed }) => {
+    if (allowed.includes(stored.actions[check])) actions[check] = stored.actions[check];
+  });
+  return { actions, outlierThreshold: stored.outlierThreshold };
+};
+
+export const saveDataQualityPolicy = (policy: DataQualityPolicy) => {
+  localStorage.setItem(DATA_QUALITY_POLICY_STORAGE_KEY, JSON.stringify(policy));
+};
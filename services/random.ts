@@ -0,0 +1,17 @@
+/**
+ * Seeded pseudo-random generator (mulberry32).
+ * Model training uses this instead of Math.random so that the same batch
+ * always produces the same trees and the same results for reviewers.
+ */
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export type Rng = ReturnType<typeof createRng>;
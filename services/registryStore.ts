@@ -0,0 +1,54 @@
+import { ModelRegistry } from '../types';
+import { EMPTY_REGISTRY, fromModelFile, toModelFile } from './modelRegistry';
+
+const REGISTRY_STORAGE_KEY = 'fraud_detect_model_registry';
+
+// A version with 100 isolation trees takes about 150 KB, so only the latest are kept
+const MAX_VERSIONS = 8;
+
+export const loadModelRegistry = (): ModelRegistry => {
+  const stored = localStorage.getItem(REGISTRY_STORAGE_KEY);
+  if (!stored) return EMPTY_REGISTRY;
+  try {
+    const parsed = JSON.parse(stored);
+    // A version the app can no longer read (e.g. trained on other features) is dropped on its own
+    const versions = (parsed.versions as unknown[]).flatMap((file, i) => {
+      try {
+        return [{ ...fromModelFile(file), id: parsed.ids[i], version: parsed.numbers[i] }];
+      } catch (e) {
+        console.error(`Dropping stored model version ${parsed.numbers[i]}`, e);
+        return [];
+      }
+    });
+    const productionId = versions.some(v => v.id === parsed.productionId) ? parsed.productionId : null;
+    return { versions, productionId, promotions: parsed.promotions || [] };
+  } catch (e) {
+    console.error("Stored model registry is corrupt, starting an empty registry", e);
+    return EMPTY_REGISTRY;
+  }
+};
+
+/**
+ * Persists the registry (versions in model-file form) and returns what was kept: the oldest
+ * versions beyond MAX_VERSIONS are dropped, except the production version.
+ */
+export const saveModelRegistry = (registry: ModelRegistry): ModelRegistry => {
+  let versions = registry.versions;
+  while (versions.length > MAX_VERSIONS) {
+    const drop = versions.findIndex(v => v.id !== registry.productionId);
+    versions = versions.filter((_, i) => i !== drop);
+  }
+  const kept = { ...registry, versions };
+  try {
+    localStorage.setItem(REGISTRY_STORAGE_KEY, JSON.stringify({
+      productionId: kept.productionId,
+      promotions: kept.promotions,
+      ids: versions.map(v => v.id),
+      numbers: versions.map(v => v.version),
+      versions: versions.map(toModelFile)
+    }));
+  } catch (e) {
+    console.error("Could not store the model registry (storage full?); export versions you want to keep", e);
+  }
+  return kept;
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { FraudRule } from '../types';
+import { checkRules, compileExpression, evaluateRules, RuleContext, validateRuleCondition } from './ruleEngine';
+
+const run = (condition: string, ctx: RuleContext = {}) => compileExpression(condition)(ctx);
+
+const rule = (id: string, condition: string, weight: number, extra: Partial<FraudRule> = {}): FraudRule =>
+  ({ id, name: id, condition, weight, reasonCode: id.toUpperCase(), enabled: true, ...extra });
+
+describe('compileExpression', () => {
+  it('follows arithmetic precedence', () => {
+    expect(run('1 + 2 * 3')).toBe(7);
+    expect(run('(1 + 2) * 3')).toBe(9);
+    expect(run('-2 * -3 + 10 % 4')).toBe(8);
+    expect(run('1.5e2 / 3')).toBe(50);
+  });
+
+  it('binds not tighter than and, and tighter than or', () => {
+    expect(run('not false and false')).toBe(false);
+    expect(run('true or false and false')).toBe(true);
+    expect(run('!(1 < 2) || 2 >= 2')).toBe(true);
+  });
+
+  it('reads fields, strings and functions', () => {
+    const ctx = { amount: 1200, category: 'TRANSFER', amount_zscore: -3.5 };
+    expect(run("amount > 1000 and amount % 100 == 0 and category == 'TRANSFER'", ctx)).toBe(true);
+    expect(run('abs(amount_zscore) > 3', ctx)).toBe(true);
+    expect(run('max(1, amount, 5) + min(2, 3)', ctx)).toBe(1202);
+    expect(run('round(sqrt(16) + log(1))')).toBe(4);
+  });
+
+  it('reads a field the context lacks as 0', () => {
+    expect(run('merchant == 0')).toBe(true);
+  });
+
+  it('rejects what it cannot compile', () => {
+    expect(validateRuleCondition('')).toBe('Condition is empty');
+    expect(validateRuleCondition('amount >')).toBe('Unexpected end of expression');
+    expect(validateRuleCondition('amount > 1)')).toBe("Unexpected ')'");
+    expect(validateRuleCondition('balance > 1')).toBe("Unknown field 'balance'");
+    expect(validateRuleCondition('exp(amount)')).toBe("Unknown function 'exp'");
+    expect(validateRuleCondition("category == 'x")).toMatch(/Unterminated string/);
+    expect(validateRuleCondition('amount # 2')).toMatch(/Unexpected character '#'/);
+    expect(validateRuleCondition('abs(amount')).toBe("Expected ')'");
+    expect(validateRuleCondition('amount > 10 and is_rapid_transaction')).toBeNull();
+  });
+});
+
+describe('checkRules', () => {
+  it('records compile errors and clears fixed ones', () => {
+    const [broken, fixed] = checkRules([rule('a', 'amount >', 0.5), rule('b', 'amount > 1', 0.5, { compileError: 'old' })]);
+    expect(broken.compileError).toBe('Unexpected end of expression');
+    expect(fixed).not.toHaveProperty('compileError');
+  });
+});
+
+describe('evaluateRules', () => {
+  it('adds the weights of the enabled rules that fire, capped at 1', () => {
+    const rules = [
+      rule('big', 'amount > 100', 0.6, { label: 'Big ({amount})' }),
+      rule('round', 'amount % 100 == 0', 0.5),
+      rule('off', 'true', 0.9, { enabled: false }),
+      rule('broken', 'amount >', 0.9)
+    ];
+    const result = evaluateRules(rules, { amount: 500 });
+    expect(result.score).toBe(1);
+    expect(result.triggers).toEqual(['Big (500.0)', 'round']);
+    expect(result.reasonCodes).toEqual(['BIG', 'ROUND']);
+    expect(result.contributions).toEqual([{ name: 'big', contribution: 0.6 }, { name: 'round', contribution: 0.5 }]);
+    expect(evaluateRules(rules, { amount: 50 }).score).toBe(0);
+  });
+});
@@ -0,0 +1,320 @@
+import { Attribution, EngineeredFeatures, FraudRule, Transaction } from '../types';
+import { baseAmountOf } from './fx';
+
+/**
+ * RULE ENGINE
+ * Rules are plain data (see DEFAULT_RULES in constants.ts). Each condition is a small
+ * expression over Transaction and EngineeredFeatures fields, e.g.
+ *   abs(amount_zscore) > 3
+ *   amount > 1000 and amount % 100 == 0
+ * `amount` is in the transaction's own currency, `baseAmount` in the base reporting currency
+ * (client aggregates such as client_amount_max are in the base currency too).
+ * Supported: numbers, 'strings', true/false, + - * / %, == != < <= > >=,
+ * && || ! (or and / or / not), parentheses and the functions below.
+ */
+
+export type RuleValue = number | string | boolean;
+export type RuleContext = Record<string, RuleValue>;
+type Evaluator = (ctx: RuleContext) => RuleValue;
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  min: Math.min,
+  max: Math.max,
+  round: Math.round,
+  log: Math.log,
+  sqrt: Math.sqrt
+};
+
+const TRANSACTION_FIELDS: (keyof Transaction)[] = [
+  'amount', 'currency', 'baseAmount', 'category', 'location', 'merchant', 'type', 'clientId', 'counterpartyId',
+  'oldBalanceOrig', 'newBalanceOrig', 'oldBalanceDest', 'newBalanceDest'
+];
+
+export const FEATURE_FIELDS: (keyof EngineeredFeatures)[] = [
+  'client_amount_mean', 'client_amount_std', 'client_amount_max', 'client_transaction_count',
+  'amount_zscore', 'is_amount_outlier', 'time_since_last_trans', 'amount_rolling_mean_5',
+  'amount_rolling_std_5', 'amount_rolling_dev', 'is_rapid_transaction', 'category_freq',
+  'is_new_category', 'category_entropy', 'distance_from_prev_km', 'travel_speed_kmh', 'is_new_location',
+  'dest_fan_in', 'orig_fan_out', 'dest_is_mule_suspect', 'orig_is_mule_suspect', 'in_short_cycle',
+  'orig_balance_error', 'dest_balance_error', 'is_account_emptied', 'is_zero_balance_dest'
+];
+
+/** Field names a rule condition may reference (shown in the rules editor). */
+export const RULE_FIELDS: string[] = [...TRANSACTION_FIELDS, ...FEATURE_FIELDS];
+export const RULE_FUNCTIONS: string[] = Object.keys(FUNCTIONS);
+
+type Token =
+  | { kind: 'num'; value: number }
+  | { kind: 'str'; value: string }
+  | { kind: 'ident'; value: string }
+  | { kind: 'op'; value: string };
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!', '+', '-', '*', '/', '%', '(', ')', ','];
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+const tokenize = (src: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(src.slice(i));
+      if (!match) throw new Error(`Invalid number at position ${i}`);
+      tokens.push({ kind: 'num', value: parseFloat(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const end = src.indexOf(ch, i + 1);
+      if (end === -1) throw new Error(`Unterminated string at position ${i}`);
+      tokens.push({ kind: 'str', value: src.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(src.slice(i))!;
+      const word = match[0];
+      if (KEYWORD_OPERATORS[word.toLowerCase()]) tokens.push({ kind: 'op', value: KEYWORD_OPERATORS[word.toLowerCase()] });
+      else tokens.push({ kind: 'ident', value: word });
+      i += word.length;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => src.startsWith(o, i));
+    if (!op) throw new Error(`Unexpected character '${ch}' at position ${i}`);
+    tokens.push({ kind: 'op', value: op });
+    i += op.length;
+  }
+  return tokens;
+};
+
+const toNumber = (v: RuleValue): number => typeof v === 'number' ? v : Number(v);
+
+/**
+ * Compiles a condition into a closure. Throws an Error describing the first
+ * syntax problem or unknown field/function.
+ */
+export const compileExpression = (src: string): Evaluator => {
+  const tokens = tokenize(src);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.kind === 'op' && peek()!.value === value;
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected '${value}'`);
+    pos++;
+  };
+
+  const parseOr = (): Evaluator => {
+    let left = parseAnd();
+    while (isOp('||')) {
+      pos++;
+      const l = left, r = parseAnd();
+      left = ctx => Boolean(l(ctx)) || Boolean(r(ctx));
+    }
+    return left;
+  };
+
+  const parseAnd = (): Evaluator => {
+    let left = parseNot();
+    while (isOp('&&')) {
+      pos++;
+      const l = left, r = parseNot();
+      left = ctx => Boolean(l(ctx)) && Boolean(r(ctx));
+    }
+    return left;
+  };
+
+  const parseNot = (): Evaluator => {
+    if (isOp('!')) {
+      pos++;
+      const inner = parseNot();
+      return ctx => !inner(ctx);
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): Evaluator => {
+    const left = parseAdditive();
+    const token = peek();
+    if (token?.kind === 'op' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      pos++;
+      const right = parseAdditive();
+      switch (token.value) {
+        case '==': return ctx => left(ctx) === right(ctx);
+        case '!=': return ctx => left(ctx) !== right(ctx);
+        case '<': return ctx => toNumber(left(ctx)) < toNumber(right(ctx));
+        case '<=': return ctx => toNumber(left(ctx)) <= toNumber(right(ctx));
+        case '>': return ctx => toNumber(left(ctx)) > toNumber(right(ctx));
+        default: return ctx => toNumber(left(ctx)) >= toNumber(right(ctx));
+      }
+    }
+    return left;
+  };
+
+  const parseAdditive = (): Evaluator => {
+    let left = parseMultiplicative();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[pos++].value;
+      const l = left, r = parseMultiplicative();
+      left = op === '+'
+        ? ctx => toNumber(l(ctx)) + toNumber(r(ctx))
+        : ctx => toNumber(l(ctx)) - toNumber(r(ctx));
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): Evaluator => {
+    let left = parseUnary();
+    while (isOp('*') || isOp('/') || isOp('%')) {
+      const op = tokens[pos++].value;
+      const l = left, r = parseUnary();
+      if (op === '*') left = ctx => toNumber(l(ctx)) * toNumber(r(ctx));
+      else if (op === '/') left = ctx => toNumber(l(ctx)) / toNumber(r(ctx));
+      else left = ctx => toNumber(l(ctx)) % toNumber(r(ctx));
+    }
+    return left;
+  };
+
+  const parseUnary = (): Evaluator => {
+    if (isOp('-')) {
+      pos++;
+      const inner = parseUnary();
+      return ctx => -toNumber(inner(ctx));
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Evaluator => {
+    const token = tokens[pos++];
+    if (!token) throw new Error('Unexpected end of expression');
+
+    if (token.kind === 'num' || token.kind === 'str') {
+      const value = token.value;
+      return () => value;
+    }
+
+    if (token.kind === 'ident') {
+      const name = token.value;
+      if (name === 'true' || name === 'false') {
+        const value = name === 'true';
+        return () => value;
+      }
+      if (isOp('(')) {
+        const fn = FUNCTIONS[name];
+        if (!fn) throw new Error(`Unknown function '${name}'`);
+        pos++;
+        const args: Evaluator[] = [];
+        if (!isOp(')')) {
+          args.push(parseOr());
+          while (isOp(',')) { pos++; args.push(parseOr()); }
+        }
+        expectOp(')');
+        return ctx => fn(...args.map(a => toNumber(a(ctx))));
+      }
+      if (!RULE_FIELDS.includes(name)) throw new Error(`Unknown field '${name}'`);
+      return ctx => ctx[name] ?? 0;
+    }
+
+    if (token.value === '(') {
+      const inner = parseOr();
+      expectOp(')');
+      return inner;
+    }
+    throw new Error(`Unexpected '${token.value}'`);
+  };
+
+  if (tokens.length === 0) throw new Error('Condition is empty');
+  const evaluator = parseOr();
+  if (pos < tokens.length) {
+    const rest = tokens[pos];
+    throw new Error(`Unexpected '${rest.value}'`);
+  }
+  return evaluator;
+};
+
+/** Returns a human readable error for an invalid condition, or null if it compiles. */
+export const validateRuleCondition = (condition: string): string | null => {
+  try {
+    compileExpression(condition);
+    return null;
+  } catch (e) {
+    return (e as Error).message;
+  }
+};
+
+/**
+ * Records on each rule why its condition does not compile (compileError), or clears it.
+ * Rules that arrive from storage or a model file go through here so the editor can show
+ * which ones scoring is skipping.
+ */
+export const checkRules = (rules: FraudRule[]): FraudRule[] =>
+  rules.map(rule => {
+    const { compileError: _previous, ...rest } = rule;
+    const compileError = validateRuleCondition(rule.condition);
+    return compileError ? { ...rest, compileError } : rest;
+  });
+
+// Compiled conditions are cached by source text; rules are re-evaluated for every transaction.
+// A condition that does not compile caches null and its rule is skipped (see checkRules).
+const compiledCache = new Map<string, Evaluator | null>();
+
+const getCompiled = (condition: string): Evaluator | null => {
+  if (!compiledCache.has(condition)) {
+    try {
+      compiledCache.set(condition, compileExpression(condition));
+    } catch {
+      compiledCache.set(condition, null);
+    }
+  }
+  return compiledCache.get(condition)!;
+};
+
+export const buildRuleContext = (txn: Transaction, features: EngineeredFeatures): RuleContext => {
+  const ctx: RuleContext = {};
+  [...TRANSACTION_FIELDS, ...FEATURE_FIELDS].forEach(field => {
+    const value = (field in features ? features[field as keyof EngineeredFeatures] : txn[field as keyof Transaction]);
+    if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') ctx[field] = value;
+  });
+  ctx.baseAmount = baseAmountOf(txn);
+  return ctx;
+};
+
+// "{amount_zscore}" in a label is replaced with the field value (numbers to 1 decimal)
+const renderLabel = (label: string, ctx: RuleContext) =>
+  label.replace(/\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name) => {
+    const value = ctx[name];
+    if (value === undefined) return '';
+    return typeof value === 'number' ? value.toFixed(1) : String(value);
+  });
+
+export interface RuleEvaluation {
+  score: number; // capped at 1.0
+  triggers: string[];
+  reasonCodes: string[];
+  contributions: Attribution[]; // weight of each rule that fired, by rule name
+}
+
+export const evaluateRules = (rules: FraudRule[], ctx: RuleContext): RuleEvaluation => {
+  let score = 0;
+  const triggers: string[] = [];
+  const reasonCodes: string[] = [];
+  const contributions: Attribution[] = [];
+
+  rules.forEach(rule => {
+    if (!rule.enabled) return;
+    const evaluator = getCompiled(rule.condition);
+    if (!evaluator || !evaluator(ctx)) return;
+    score += rule.weight;
+    triggers.push(renderLabel(rule.label || rule.name, ctx));
+    reasonCodes.push(rule.reasonCode);
+    contributions.push({ name: rule.name, contribution: rule.weight });
+  });
+
+  return { score: Math.min(Math.max(score, 0), 1.0), triggers, reasonCodes, contributions };
+};
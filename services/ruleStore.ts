@@ -0,0 +1,26 @@
+import { FraudRule } from '../types';
+import { DEFAULT_RULES } from '../constants';
+import { checkRules } from './ruleEngine';
+
+const RULES_STORAGE_KEY = 'fraud_detect_rules';
+
+export const loadRules = (): FraudRule[] => {
+  const stored = localStorage.getItem(RULES_STORAGE_KEY);
+  if (!stored) return DEFAULT_RULES;
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? checkRules(parsed) : DEFAULT_RULES;
+  } catch (e) {
+    console.error("Stored rule set is corrupt, falling back to defaults", e);
+    return DEFAULT_RULES;
+  }
+};
+
+export const saveRules = (rules: FraudRule[]) => {
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+export const resetRules = (): FraudRule[] => {
+  localStorage.removeItem(RULES_STORAGE_KEY);
+  return DEFAULT_RULES;
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { alertPolicyForThreshold, DEFAULT_ALERT_POLICY, DEFAULT_COST_MATRIX, expectedCost, optimizeThreshold } from './thresholdOptimizer';
+
+const SCORES = [0.9, 0.7, 0.5, 0.3];
+const TRUTH = [1, 0, 1, 0];
+const AMOUNTS = [100, 50, 40, 10];
+
+const optimize = (cost = DEFAULT_COST_MATRIX, preds = [1, 1, 1, 0]) =>
+  optimizeThreshold(SCORES, TRUTH, AMOUNTS, { threshold: 0.5, preds }, cost);
+
+describe('alertPolicyForThreshold', () => {
+  it('reproduces the default bands at 0.5', () => {
+    expect(alertPolicyForThreshold(0.5)).toEqual(DEFAULT_ALERT_POLICY);
+    expect(alertPolicyForThreshold(0.25)).toEqual({ threshold: 0.25, riskBands: { medium: 0.15, high: 0.25, critical: 0.7 } });
+  });
+});
+
+describe('expectedCost', () => {
+  it('charges missed amounts and a fee per false alert', () => {
+    expect(expectedCost([0, 1, 1, 0], TRUTH, AMOUNTS, DEFAULT_COST_MATRIX)).toBe(125);
+    expect(expectedCost([0, 0, 0, 0], TRUTH, AMOUNTS, { ...DEFAULT_COST_MATRIX, missedFraudCostRate: 0.5 })).toBe(70);
+  });
+});
+
+describe('optimizeThreshold', () => {
+  it('sweeps every score and picks the cheapest cut-off', () => {
+    const result = optimize();
+    expect(result.curve.map(p => [p.threshold, p.expectedCost])).toEqual([[0.3, 50], [0.5, 25], [0.7, 65], [0.9, 40], [0.9001, 140]]);
+    expect(result).toMatchObject({ currentThreshold: 0.5, currentCost: 25, optimalThreshold: 0.5, optimalCost: 25, optimalAlerts: 3 });
+  });
+
+  it('respects the analyst capacity', () => {
+    const result = optimize({ ...DEFAULT_COST_MATRIX, maxAlertRate: 0.5 });
+    expect(result).toMatchObject({ optimalThreshold: 0.9, optimalCost: 40, optimalAlerts: 1 });
+    expect(result.curve.filter(p => !p.withinCapacity).map(p => p.threshold)).toEqual([0.3, 0.5]);
+  });
+
+  it('prefers the higher threshold when costs tie', () => {
+    const result = optimizeThreshold([0.9, 0.5], [0, 1], [0, 25], { threshold: 0.5, preds: [1, 1] }, DEFAULT_COST_MATRIX);
+    expect(result).toMatchObject({ optimalThreshold: 0.9001, optimalCost: 25, optimalAlerts: 0, currentCost: 25 });
+  });
+
+  it('flags tied scores together and samples long curves', () => {
+    const ties = optimizeThreshold([0.5, 0.5], [1, 0], [100, 0], { threshold: 0.5, preds: [1, 1] }, DEFAULT_COST_MATRIX);
+    expect(ties.curve.map(p => p.alerts)).toEqual([2, 0]);
+
+    const scores = Array.from({ length: 1000 }, (_, i) => i / 1000);
+    const long = optimizeThreshold(scores, scores.map(s => (s > 0.99 ? 1 : 0)), scores.map(() => 1000), { threshold: 0.5, preds: scores.map(() => 0) }, DEFAULT_COST_MATRIX);
+    expect(long.curve.length).toBeLessThanOrEqual(101);
+    expect(long.curve.some(p => p.threshold === long.optimalThreshold)).toBe(true);
+    expect(long.optimalThreshold).toBe(0.991);
+  });
+});
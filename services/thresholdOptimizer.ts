@@ -0,0 +1,105 @@
+import { AlertPolicy, CostMatrix, ThresholdOptimisation, ThresholdPoint } from '../types';
+
+export const DEFAULT_COST_MATRIX: CostMatrix = {
+  missedFraudCostRate: 1, // the whole amount is lost
+  falsePositiveCost: 25,
+  maxAlertRate: 1
+};
+
+export const DEFAULT_ALERT_POLICY: AlertPolicy = {
+  threshold: 0.5,
+  riskBands: { medium: 0.3, high: 0.5, critical: 0.8 }
+};
+
+const CURVE_POINTS = 100;
+
+const round = (v: number, digits: number) => parseFloat(v.toFixed(digits));
+
+/**
+ * Risk bands that follow an alert threshold: HIGH starts at the threshold, MEDIUM at 60% of it
+ * and CRITICAL 60% of the way from it to 1. A threshold of 0.5 gives the default 0.3/0.5/0.8.
+ */
+export const alertPolicyForThreshold = (threshold: number): AlertPolicy => ({
+  threshold: round(threshold, 4),
+  riskBands: {
+    medium: round(threshold * 0.6, 4),
+    high: round(threshold, 4),
+    critical: round(threshold + (1 - threshold) * 0.6, 4)
+  }
+});
+
+/** Cost of a set of 0/1 decisions: missed fraud loses a share of its amount, false alerts cost a review each. */
+export const expectedCost = (preds: number[], truth: number[], amounts: number[], cost: CostMatrix): number => {
+  let total = 0;
+  truth.forEach((actual, i) => {
+    if (actual === 1 && preds[i] === 0) total += cost.missedFraudCostRate * amounts[i];
+    if (actual === 0 && preds[i] === 1) total += cost.falsePositiveCost;
+  });
+  return total;
+};
+
+/**
+ * Sweeps every distinct score as a cut-off (flag when score >= threshold) and returns the
+ * one with the lowest expected cost whose alert volume fits the analyst capacity.
+ * One sort plus a linear pass, so it is cheap enough to run on every Stage 3 batch.
+ */
+export const optimizeThreshold = (
+  scores: number[],
+  truth: number[],
+  amounts: number[],
+  current: { threshold: number; preds: number[] },
+  cost: CostMatrix
+): ThresholdOptimisation => {
+  const n = scores.length;
+  const capacity = cost.maxAlertRate * n;
+  const order = scores.map((_, i) => i).sort((a, b) => scores[b] - scores[a]);
+  const totalFraudAmount = truth.reduce((acc, t, i) => acc + (t === 1 ? amounts[i] : 0), 0);
+
+  // Start with nothing flagged: the threshold sits just above the highest score
+  const points: ThresholdPoint[] = [{
+    threshold: round((n > 0 ? scores[order[0]] : 1) + 0.0001, 4),
+    alerts: 0,
+    truePositives: 0,
+    falsePositives: 0,
+    expectedCost: round(cost.missedFraudCostRate * totalFraudAmount, 2),
+    withinCapacity: true
+  }];
+
+  let alerts = 0, tp = 0, fp = 0, caughtAmount = 0;
+  for (let k = 0; k < n; k++) {
+    const i = order[k];
+    alerts++;
+    if (truth[i] === 1) { tp++; caughtAmount += amounts[i]; }
+    else fp++;
+    // Only emit once every transaction tied at this score has been flagged
+    if (k + 1 < n && scores[order[k + 1]] === scores[i]) continue;
+    points.push({
+      threshold: round(scores[i], 4),
+      alerts,
+      truePositives: tp,
+      falsePositives: fp,
+      expectedCost: round(cost.missedFraudCostRate * (totalFraudAmount - caughtAmount) + cost.falsePositiveCost * fp, 2),
+      withinCapacity: alerts <= capacity
+    });
+  }
+
+  // Ties go to the higher threshold (fewer alerts for the same cost)
+  let best = points[0];
+  points.forEach(p => {
+    if (p.withinCapacity && p.expectedCost < best.expectedCost) best = p;
+  });
+
+  const ascending = [...points].reverse();
+  const sampled = new Set<ThresholdPoint>([best]);
+  if (ascending.length <= CURVE_POINTS) ascending.forEach(p => sampled.add(p));
+  else for (let s = 0; s < CURVE_POINTS; s++) sampled.add(ascending[Math.round((s * (ascending.length - 1)) / (CURVE_POINTS - 1))]);
+
+  return {
+    currentThreshold: round(current.threshold, 4),
+    currentCost: round(expectedCost(current.preds, truth, amounts, cost), 2),
+    optimalThreshold: best.threshold,
+    optimalCost: best.expectedCost,
+    optimalAlerts: best.alerts,
+    curve: Array.from(sampled).sort((a, b) => a.threshold - b.threshold)
+  };
+};
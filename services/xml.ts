@@ -0,0 +1,118 @@
+/**
+ * XML
+ * A small non-validating XML reader for structured imports. DOMParser is not available in
+ * workers, where uploads are parsed. Namespace prefixes are dropped from element names;
+ * comments, processing instructions and the doctype are skipped.
+ */
+
+export interface XmlElement {
+  name: string; // local name, without a namespace prefix
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // the element's own character data, entities decoded
+  line: number; // 1-based line of the start tag
+}
+
+const START_TAG = /<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) =>
+    entity[0] === '#'
+      ? String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10))
+      : ENTITIES[entity.toLowerCase()]);
+
+/** Parses a document into its root element. Throws on markup it cannot read. */
+export const parseXml = (source: string): XmlElement => {
+  const stack: { element: XmlElement; qualifiedName: string }[] = [];
+  let root: XmlElement | null = null;
+  let i = source.charCodeAt(0) === 0xfeff ? 1 : 0;
+  let line = 1;
+
+  const fail = (message: string): never => { throw new Error(`Malformed XML on line ${line}: ${message}`); };
+  const advanceTo = (end: number) => {
+    for (let k = i; k < end; k++) if (source.charCodeAt(k) === 10) line++;
+    i = end;
+  };
+  const skipPast = (terminator: string, what: string) => {
+    const end = source.indexOf(terminator, i);
+    if (end === -1) fail(`unterminated ${what}`);
+    advanceTo(end + terminator.length);
+    return end;
+  };
+
+  while (i < source.length) {
+    const lt = source.indexOf('<', i);
+    const textEnd = lt === -1 ? source.length : lt;
+    if (textEnd > i) {
+      const text = source.slice(i, textEnd);
+      if (stack.length > 0) stack[stack.length - 1].element.text += decodeEntities(text);
+      else if (text.trim() !== '') fail('text outside the root element');
+      advanceTo(textEnd);
+    }
+    if (lt === -1) break;
+
+    if (source.startsWith('<!--', i)) {
+      skipPast('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', i)) {
+      const start = i + 9;
+      const end = skipPast(']]>', 'CDATA section');
+      if (stack.length === 0) fail('CDATA outside the root element');
+      stack[stack.length - 1].element.text += source.slice(start, end);
+    } else if (source.startsWith('<?', i)) {
+      skipPast('?>', 'processing instruction');
+    } else if (source.startsWith('<!', i)) {
+      skipPast('>', 'declaration');
+    } else if (source.startsWith('</', i)) {
+      const start = i + 2;
+      const end = skipPast('>', 'end tag');
+      const name = source.slice(start, end).trim();
+      const open = stack.pop();
+      if (!open || open.qualifiedName !== name) fail(`</${name}> does not close ${open ? `<${open.qualifiedName}>` : 'any element'}`);
+    } else {
+      START_TAG.lastIndex = i;
+      const match = START_TAG.exec(source);
+      if (!match) fail('unreadable start tag');
+      const [, qualifiedName, rawAttributes, selfClosing] = match!;
+      const element: XmlElement = { name: localName(qualifiedName), attributes: {}, children: [], text: '', line };
+      for (const [, name, double, single] of rawAttributes.matchAll(ATTRIBUTE)) {
+        element.attributes[localName(name)] = decodeEntities(double ?? single);
+      }
+      if (stack.length > 0) stack[stack.length - 1].element.children.push(element);
+      else if (root) fail('more than one root element');
+      else root = element;
+      if (!selfClosing) stack.push({ element, qualifiedName });
+      advanceTo(START_TAG.lastIndex);
+    }
+  }
+
+  if (stack.length > 0) fail(`<${stack[stack.length - 1].qualifiedName}> is never closed`);
+  if (!root) fail('no root element');
+  return root!;
+};
+
+/** The element at a path of child names below `element`. */
+export const childElement = (element: XmlElement | undefined, ...path: string[]): XmlElement | undefined =>
+  path.reduce<XmlElement | undefined>((current, name) => current?.children.find(c => c.name === name), element);
+
+export const childElements = (element: XmlElement | undefined, name: string): XmlElement[] =>
+  element ? element.children.filter(c => c.name === name) : [];
+
+/** Trimmed text at a path; undefined when the element is missing or empty. */
+export const childText = (element: XmlElement | undefined, ...path: string[]): string | undefined => {
+  const text = childElement(element, ...path)?.text.trim();
+  return text ? text : undefined;
+};
+
+/** The first element of this name at any depth (depth-first), including `element` itself. */
+export const findElement = (element: XmlElement, name: string): XmlElement | undefined => {
+  if (element.name === name) return element;
+  for (const child of element.children) {
+    const found = findElement(child, name);
+    if (found) return found;
+  }
+  return undefined;
+};
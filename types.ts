@@ -18,19 +18,37 @@ export interface Transaction {
   clientId: string;
   amount: number;
   currency: string;
+  baseAmount?: number; // amount converted to the base reporting currency, see services/fx.ts
+  fxRateDate?: string; // effectiveDate of the FX snapshot used for baseAmount
   timestamp: string; // ISO String
+  step?: number; // PaySim 'step' (hour of the simulation), used for out-of-time evaluation
   category: string;
   location: string;
   merchant?: string;
+  counterpartyId?: string; // receiving account (PaySim 'nameDest')
+  oldBalanceOrig?: number; // PaySim 'oldbalanceOrg'
+  newBalanceOrig?: number; // PaySim 'newbalanceOrig'
+  oldBalanceDest?: number; // PaySim 'oldbalanceDest'
+  newBalanceDest?: number; // PaySim 'newbalanceDest'
   type: TransactionType;
   trueLabel?: number; // 0 or 1, if available in CSV
 }
 
 export interface FraudAnalysis {
   transactionId: string;
-  fraudScore: number; // 0.0 to 1.0
+  fraudScore: number; // 0.0 to 1.0, a calibrated probability when the deciding model has a calibration
+  ruleScore?: number; // capped sum of the weights of the rules that fired, before calibration
+  calibrationMethod?: 'platt' | 'isotonic'; // set when the rule score is a calibrated probability
+  decisionCalibrated?: boolean; // fraudScore is a calibrated probability, from the rules' or the deciding model's map
+  modelScores?: Partial<Record<DecisionModel, number>>; // every score computed for this transaction, calibrated where a map exists
+  decisionModel?: DecisionModel; // the model whose score is fraudScore and drives isSuspicious / riskLevel
+  challengerModel?: DecisionModel; // shadow model, scored but not acted on
+  challengerSuspicious?: boolean;
+  modelVersion?: string; // registry version that scored it, e.g. "v3" ("v3*" when the rules were edited since)
   isSuspicious: boolean;
   ruleTriggered?: string;
+  reasonCodes?: string[]; // FraudRule.reasonCode of every rule that fired
+  ruleHits?: Attribution[]; // weight each fired rule added, as evaluated when the transaction was scored
   aiExplanation?: string;
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
 }
@@ -38,14 +56,55 @@ export interface FraudAnalysis {
 export interface EngineeredFeatures {
   client_amount_mean?: number;
   client_amount_std?: number;
+  client_amount_max?: number;
   client_transaction_count?: number;
   amount_zscore?: number;
   is_amount_outlier?: boolean;
   time_since_last_trans?: number; // minutes
   amount_rolling_mean_5?: number;
   amount_rolling_std_5?: number;
+  amount_rolling_dev?: number; // deviation from the 5-txn rolling mean, in rolling sigmas
   is_rapid_transaction?: boolean;
-  category_freq?: number;
+  category_freq?: number; // share of the client's transactions in this category
+  is_new_category?: boolean; // first time this client uses this category
+  category_entropy?: number; // Shannon entropy (bits) of the client's category mix
+  distance_from_prev_km?: number; // from the client's previous geolocated transaction
+  travel_speed_kmh?: number; // distance_from_prev_km / elapsed time
+  is_new_location?: boolean; // first time this client transacts from this location
+  dest_fan_in?: number; // distinct accounts that have paid the counterparty
+  orig_fan_out?: number; // distinct counterparties this client has paid
+  dest_is_mule_suspect?: boolean; // counterparty collects from unrelated senders and cashes out quickly
+  orig_is_mule_suspect?: boolean; // the paying client itself looks like a mule
+  in_short_cycle?: boolean; // payment closes a 2- or 3-hop loop back to the client
+  orig_balance_error?: number; // newBalanceOrig + amount - oldBalanceOrig, 0 when consistent
+  dest_balance_error?: number; // oldBalanceDest + amount - newBalanceDest, 0 when consistent
+  is_account_emptied?: boolean; // the origin balance drops to zero
+  is_zero_balance_dest?: boolean; // destination balance is zero before and after
+}
+
+export interface FraudRule {
+  id: string;
+  name: string;
+  condition: string; // expression over Transaction + EngineeredFeatures fields, see services/ruleEngine.ts
+  weight: number; // added to the rule score when the condition holds
+  reasonCode: string;
+  label?: string; // trigger text, may interpolate fields e.g. "Z-Score Anomaly ({amount_zscore}σ)"
+  enabled: boolean;
+  compileError?: string; // set by checkRules when the condition does not compile; scoring skips the rule
+}
+
+// Turns the rule score into an alert and a risk level
+export interface AlertPolicy {
+  threshold: number; // rule score at or above which a transaction is flagged
+  riskBands: { medium: number; high: number; critical: number }; // score must exceed each band
+}
+
+export interface FeaturePipelineOptions {
+  rules?: FraudRule[];
+  alertPolicy?: AlertPolicy;
+  calibration?: ScoreCalibration | null; // maps the rule score to a probability
+  decision?: DecisionContext | null; // champion / challenger models; rules decide when omitted
+  pointInTime?: boolean; // features use only data up to each transaction's own timestamp (no look-ahead)
 }
 
 export interface EnrichedTransaction extends Transaction, FraudAnalysis, EngineeredFeatures {
@@ -54,6 +113,21 @@ export interface EnrichedTransaction extends Transaction, FraudAnalysis, Enginee
   logRegScore?: number;
 }
 
+export interface FxRateSnapshot {
+  effectiveDate: string; // YYYY-MM-DD, rates apply from this date until the next snapshot
+  rates: Record<string, number>; // value of 1 unit of the currency in the table's quoteCurrency
+}
+
+export interface FxRateTable {
+  quoteCurrency: string;
+  snapshots: FxRateSnapshot[]; // ascending by effectiveDate
+}
+
+export interface FxSettings {
+  baseCurrency: string; // reporting currency; features and totals use amounts converted into it
+  table: FxRateTable;
+}
+
 export interface DashboardStats {
   totalTransactions: number;
   flaggedTransactions: number;
@@ -62,19 +136,473 @@ export interface DashboardStats {
   fraudRate: number;
 }
 
+export interface MetricInterval {
+  lower: number;
+  upper: number;
+}
+
 export interface ModelMetrics {
   rocAuc: number;
   precision: number;
   recall: number;
   f1Score: number;
+  ci?: Record<'rocAuc' | 'precision' | 'recall' | 'f1Score', MetricInterval>; // bootstrap confidence intervals
+}
+
+/** Monotone map from a raw model score to a fraud probability, see services/calibration.ts. */
+export type ScoreCalibration =
+  | { method: 'platt'; a: number; b: number } // p = sigmoid(a * score + b)
+  | { method: 'isotonic'; x: number[]; y: number[] }; // knots, interpolated linearly
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  meanPredicted: number;
+  observedRate: number;
+  count: number;
+}
+
+export interface ModelCalibration {
+  recommended: ScoreCalibration['method']; // lower cross-fitted Brier score
+  platt: ScoreCalibration;
+  isotonic: ScoreCalibration;
+  brier: { raw: number; platt: number; isotonic: number };
+  reliability: { raw: ReliabilityBin[]; platt: ReliabilityBin[]; isotonic: ReliabilityBin[] };
+}
+
+export type DecisionModel = 'rules' | 'isolationForest' | 'logisticRegression' | 'ensemble';
+export type BaseModel = Exclude<DecisionModel, 'ensemble'>;
+
+export interface EnsembleConfig {
+  method: 'weighted' | 'stacked'; // weighted average of the scores, or a logistic meta-learner trained on labels
+  weights: Record<BaseModel, number>; // weighted method only
+}
+
+export interface DecisionPolicy {
+  champion: DecisionModel; // drives isSuspicious and riskLevel
+  challenger: DecisionModel | null; // scored in shadow for comparison
+  ensemble: EnsembleConfig;
+  // Raw-score cut-off per model; unset, a model flags at its own (the rules use the AlertPolicy)
+  thresholds: Partial<Record<Exclude<DecisionModel, 'rules'>, number>>;
+}
+
+/** Fitted Stage 3 models that live scoring can use. */
+export interface ScoringModels {
+  isolationForest: IsolationForestModel;
+  logisticRegression: LogisticRegressionModel;
+  stacker?: LogisticRegressionModel; // features: rules, isolationForest, logisticRegression scores
+  // Maps from each learned model's raw score to a fraud probability (Stage 3's recommended method),
+  // fitted only with real labels. The weighted ensemble's holds for the weights it was fitted with.
+  calibration?: {
+    isolationForest: ScoreCalibration;
+    logisticRegression: ScoreCalibration;
+    weightedEnsemble?: { weights: Record<BaseModel, number>; calibration: ScoreCalibration };
+  };
+}
+
+export interface DecisionContext {
+  policy: DecisionPolicy;
+  models: ScoringModels | null; // null until Stage 3 has run; model-based decisions fall back to rules
+  modelVersion?: string; // stamped on every transaction it decides
+}
+
+export interface Attribution {
+  name: string;
+  contribution: number;
+}
+
+/** Why one transaction got its scores, per model. */
+export interface ScoreAttributions {
+  // Weight of every rule that fired; a negative 'Score cap' entry when the weights sum past 1
+  rules: { contributions: Attribution[]; score: number };
+  // Log-odds: bias + sum of weight × standardised feature value = logit(score)
+  logisticRegression?: { bias: number; contributions: Attribution[]; score: number };
+  // Path-length steps each feature saved against the average path c(ψ) (negative: lengthened it)
+  isolationForest?: { expectedPath: number; pathLength: number; contributions: Attribution[]; score: number };
+}
+
+/** Compact distribution of one numeric column in a batch. */
+export interface DistributionSummary {
+  count: number; // rows with a value
+  missing: number;
+  mean: number;
+  quantiles: number[]; // 0th to 100th percentile (101 points)
+  histogram?: number[]; // scores only: counts in 10 equal-width bins over [0, 1]
+}
+
+/** Stored snapshot of one uploaded batch, kept so later batches can be compared with it. */
+export interface BatchProfile {
+  id: string;
+  label: string; // file name
+  createdAt: string; // ISO timestamp
+  size: number;
+  features: Record<string, DistributionSummary>; // EngineeredFeatures fields
+  scores: Record<string, DistributionSummary>; // fraud_score, rules and the Stage 3 model scores
+}
+
+export interface DriftSettings {
+  referenceId: string | null; // null: compare with the previous batch
+  psiThreshold: number; // PSI above this flags the column as drifted
+}
+
+export interface DriftMetric {
+  name: string;
+  kind: 'feature' | 'score';
+  psi: number; // Population Stability Index
+  ks: number; // Kolmogorov-Smirnov statistic (max ECDF gap)
+  referenceMean: number;
+  currentMean: number;
+  drifted: boolean;
+}
+
+export interface DriftReport {
+  referenceId: string;
+  currentId: string;
+  metrics: DriftMetric[]; // sorted by PSI, largest first
+  driftedCount: number;
+}
+
+/** What a registered model was trained on and how it scored. */
+export interface ModelTrainingMetadata {
+  dataset: string; // file name of the training batch
+  rowCount: number;
+  trainedAt: string; // ISO timestamp
+  features: string[]; // MODEL_FEATURES order, the column order of the model rows
+  labelSource: Stage3Results['labelSource'];
+  evaluation?: EvaluationMode;
+  metrics: {
+    ruleBased: ModelMetrics;
+    isolationForest: ModelMetrics;
+    logisticRegression: ModelMetrics;
+  };
+  importedFrom?: string; // original version label when loaded from a model file
+}
+
+export interface ModelVersion {
+  id: string;
+  version: number; // shown as "v{version}"
+  registeredAt: string;
+  metadata: ModelTrainingMetadata;
+  rules: FraudRule[];
+  models: ScoringModels;
+}
+
+export interface ModelRegistry {
+  versions: ModelVersion[]; // ascending by version
+  productionId: string | null;
+  promotions: { versionId: string; at: string }[]; // oldest first; rollback returns to the previous entry
+}
+
+export type EvaluationMode = 'in-sample' | 'out-of-time' | 'k-fold';
+
+export interface EvaluationOptions {
+  mode: EvaluationMode;
+  testFraction: number; // out-of-time: share of rows (the latest steps) held out for testing
+  folds: number; // k-fold: number of folds
+  bootstrapSamples: number;
+  confidenceLevel: number; // e.g. 0.95
+  seed: number;
+}
+
+export interface AucComparison {
+  model: string; // compared against the leading model
+  difference: number; // leader AUC - model AUC
+  interval: MetricInterval; // paired bootstrap interval of the difference
+  significant: boolean; // the interval excludes 0
+}
+
+export interface EvaluationSummary {
+  mode: EvaluationMode; // mode actually used (out-of-time / k-fold fall back to in-sample on unsplittable data)
+  note?: string; // why a fallback happened
+  trainSize: number;
+  testSize: number;
+  splitStep?: number; // out-of-time: last step in the training set
+  folds?: number;
+  bootstrapSamples: number;
+  confidenceLevel: number;
+  sample?: { rows: number; batchSize: number }; // set when Stage 3 ran on a sample of the batch; the sizes above count the sample
+  leadingModel: string; // highest AUC, whether or not the lead is significant
+  comparisons: AucComparison[];
+}
+
+export interface RocPoint {
+  threshold: number; // flag when score >= threshold
+  fpr: number;
+  tpr: number;
+}
+
+export interface PrPoint {
+  threshold: number;
+  recall: number;
+  precision: number;
+}
+
+export interface ModelCurves {
+  roc: RocPoint[]; // from (0,0) to (1,1), ascending FPR
+  pr: PrPoint[]; // ascending recall
+  averagePrecision: number;
+  precisionAtK: { k: number; precision: number }[]; // precision among the k highest scores
+}
+
+export interface IsolationForestOptions {
+  numTrees: number;
+  sampleSize: number; // ψ, rows drawn (without replacement) per tree
+  contamination: number; // expected share of anomalies, sets the decision threshold
+  seed: number;
+}
+
+export type IsolationTreeNode =
+  | { size: number }
+  | { feature: number; split: number; left: IsolationTreeNode; right: IsolationTreeNode };
+
+export interface IsolationForestModel {
+  options: IsolationForestOptions;
+  features: string[];
+  sampleSize: number; // effective ψ (capped by batch size)
+  threshold: number; // anomaly score cut-off derived from contamination
+  trees: IsolationTreeNode[];
+}
+
+export interface LogisticRegressionOptions {
+  learningRate: number;
+  epochs: number;
+  l2: number; // ridge penalty on the (standardised) coefficients, bias excluded
+  classWeight: 'balanced' | 'none';
+}
+
+export interface LogisticRegressionModel {
+  options: LogisticRegressionOptions;
+  features: string[];
+  means: number[]; // standardisation parameters learned on the training batch
+  stds: number[];
+  weights: number[]; // coefficients on the standardised scale
+  bias: number;
+  trainingLoss: number;
+}
+
+export interface CostMatrix {
+  missedFraudCostRate: number; // share of the (base-currency) amount lost when a fraud is not flagged
+  falsePositiveCost: number; // fixed cost (base currency) of reviewing a legitimate transaction
+  maxAlertRate: number; // analyst capacity: largest share of transactions that can be reviewed, 1 = no limit
+}
+
+export interface ThresholdPoint {
+  threshold: number; // flag when score >= threshold
+  alerts: number;
+  truePositives: number;
+  falsePositives: number;
+  expectedCost: number;
+  withinCapacity: boolean;
+}
+
+export interface ThresholdOptimisation {
+  currentThreshold: number;
+  currentCost: number;
+  optimalThreshold: number;
+  optimalCost: number;
+  optimalAlerts: number;
+  curve: ThresholdPoint[]; // down-sampled for plotting, ascending by threshold
+}
+
+export interface Stage3Options {
+  isolationForest?: Partial<IsolationForestOptions>;
+  logisticRegression?: Partial<LogisticRegressionOptions>;
+  costMatrix?: Partial<CostMatrix>;
+  ruleThreshold?: number; // AlertPolicy.threshold in force, the rule model's current cut-off
+  modelThresholds?: DecisionPolicy['thresholds']; // live cut-offs set for the learned models, their current cut-offs
+  evaluation?: Partial<EvaluationOptions>;
+  ensemble?: EnsembleConfig;
+  onProgress?: (stage: Stage3Stage) => void; // called as each model is fitted, then before the metrics
+}
+
+export type Stage3Stage = 'isolationForest' | 'logisticRegression' | 'metrics';
+
+/** Steps of the batch upload pipeline (see services/pipeline.ts). */
+export type PipelineStage = 'scoring' | 'features' | Stage3Stage;
+
+export interface PipelineProgress {
+  stage: PipelineStage;
+  pass?: 'full-history' | 'point-in-time'; // which Stage 3 run a model stage belongs to
+  step: number; // 1-based
+  totalSteps: number;
+  label: string;
+  stepFraction?: number; // 0-1 through the current step, when it can tell (reading the file)
+  rowsRead?: number; // scoring only
+}
+
+/** Transaction fields an uploaded column can be mapped onto (see services/columnMapping.ts). */
+export type MappedField =
+  | 'id' | 'time' | 'amount' | 'currency' | 'clientId' | 'counterpartyId'
+  | 'oldBalanceOrig' | 'newBalanceOrig' | 'oldBalanceDest' | 'newBalanceDest'
+  | 'category' | 'type' | 'location' | 'merchant' | 'trueLabel';
+
+/** How the time column is read: a PaySim-style step in hours, or a real datetime. */
+export type TimeFormat = 'step-hours' | 'iso' | 'epoch-seconds' | 'epoch-millis' | 'dmy' | 'mdy';
+
+export type ColumnType = 'empty' | 'integer' | 'decimal' | 'datetime' | 'text';
+
+export interface ColumnMapping {
+  delimiter: string;
+  decimalSeparator: '.' | ',';
+  columns: Partial<Record<MappedField, string>>; // header of the column each field is read from
+  timeFormat: TimeFormat;
+  stepOrigin: string; // ISO datetime of step 0, for 'step-hours'; also the timestamp when no time column is mapped
+}
+
+/** Where an upload's transactions come from: a mapped CSV, an ISO 20022 camt.053 / pain.001 message, or JSON. */
+export type ImportSource =
+  | { format: 'csv'; mapping: ColumnMapping }
+  | { format: 'iso20022' }
+  | { format: 'ndjson' } // one Transaction object per line
+  | { format: 'json' }; // an array of Transaction objects
+
+/** A named, saved mapping for one upstream system's file layout. */
+export interface IngestionProfile {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+  updatedAt: string; // ISO
+}
+
+/** A row the importer could not use; the first few are kept with their line numbers. */
+export interface SkippedRow {
+  line: number; // 1-based line the row starts on
+  reason: string;
+  detail?: string;
+}
+
+export interface ImportReport {
+  rowsRead: number; // data rows, header excluded, skipped rows included
+  rowsSkipped: number;
+  skipReasons: Record<string, number>; // rows skipped per reason
+  skippedSamples: SkippedRow[];
+  // Per Transaction field: values that were absent where required (the row was skipped) or
+  // present but unreadable (the row was skipped, or an optional value dropped)
+  fieldIssues: Record<string, { missing: number; unparseable: number }>;
+}
+
+/** Row-level checks of the data-quality stage (see services/dataQuality.ts). */
+export type DataQualityCheck = 'missingClient' | 'nonPositiveAmount' | 'duplicateRow' | 'duplicateId' | 'outOfOrder' | 'amountOutlier';
+
+/**
+ * What happens to a row failing a check: kept as it is, repaired, set aside for review
+ * (quarantined rows are reported and exported but not scored) or dropped.
+ */
+export type DataQualityAction = 'keep' | 'fix' | 'quarantine' | 'reject';
+
+export interface DataQualityPolicy {
+  actions: Record<DataQualityCheck, DataQualityAction>;
+  outlierThreshold: number; // robust z-score of the log amount beyond which an amount is an outlier
+}
+
+export interface ColumnQuality {
+  field: string; // Transaction field
+  present: number; // rows reaching the data-quality stage with a value
+  missing: number;
+  unparseable: number;
+}
+
+export interface QuarantinedRow {
+  row: number; // 1-based position among the imported transactions
+  transaction: Transaction;
+  issues: DataQualityCheck[];
+}
+
+export interface DataQualityReport {
+  rowsIn: number; // imported transactions reaching the stage
+  rowsOut: number; // passed on to feature engineering
+  fixed: number;
+  quarantined: number;
+  rejected: number;
+  checks: Record<DataQualityCheck, { count: number; action: DataQualityAction }>;
+  columns: ColumnQuality[];
+  labels: { labelled: number; fraud: number; prevalence: number | null }; // among the labelled rows passed on
+  outlierBounds: { lower: number; upper: number } | null; // base currency; null when amounts do not vary enough
+  quarantinedIssues: Partial<Record<DataQualityCheck, number>>; // quarantined rows failing each check
+  quarantinedSamples: QuarantinedRow[]; // the first quarantined rows, capped like ImportReport.skippedSamples
+  policy: DataQualityPolicy;
 }
 
 export interface Stage3Results {
   ruleBased: ModelMetrics;
   isolationForest: ModelMetrics;
   logisticRegression: ModelMetrics;
-  bestModel: string;
+  bestModel: string; // 'Inconclusive' when no model beats the others significantly
+  labelSource: 'isFraud' | 'rule-proxy'; // where ground truth (and LogReg training labels) came from
   featureImportance: { feature: string; coefficient: number }[];
+  curves?: {
+    ruleBased: ModelCurves;
+    isolationForest: ModelCurves;
+    logisticRegression: ModelCurves;
+  };
+  evaluation?: EvaluationSummary;
+  calibration?: { // only with 'isFraud' labels
+    ruleBased: ModelCalibration;
+    isolationForest: ModelCalibration;
+    logisticRegression: ModelCalibration;
+  };
+  ensemble?: {
+    config: EnsembleConfig;
+    weighted: ModelMetrics;
+    stacked?: ModelMetrics; // only with 'isFraud' labels, cross-fitted
+    stackerCoefficients?: { feature: string; coefficient: number }[];
+  };
+  models?: ScoringModels; // the reported models, for champion / challenger scoring
+  costMatrix?: CostMatrix;
+  thresholds?: {
+    ruleBased: ThresholdOptimisation;
+    isolationForest: ThresholdOptimisation;
+    logisticRegression: ThresholdOptimisation;
+  };
+  isolationForestParams?: {
+    numTrees: number;
+    sampleSize: number;
+    contamination: number;
+    threshold: number;
+    features: string[];
+  };
+}
+
+export interface BacktestSummary {
+  alerts: number;
+  blockedVolume: number;
+  metrics: ModelMetrics | null; // null when the batch carries no isFraud labels
+}
+
+export interface BacktestDiffRow {
+  transactionId: string;
+  clientId: string;
+  amount: number;
+  currency: string;
+  baseAmount: number;
+  trueLabel?: number;
+  currentScore: number;
+  candidateScore: number;
+  currentAlert: boolean;
+  candidateAlert: boolean;
+  change: 'GAINED' | 'LOST' | 'UNCHANGED';
+  currentTriggers: string;
+  candidateTriggers: string;
+}
+
+export interface BacktestResult {
+  current: BacktestSummary;
+  candidate: BacktestSummary;
+  alertsGained: number;
+  alertsLost: number;
+  labelled: boolean; // false when the batch has no isFraud labels: only alert changes can be compared
+  rows: BacktestDiffRow[];
+  timestamp: string;
+}
+
+/** Totals over every row an upload scored, of which the page only receives some. */
+export interface BatchSummary {
+  rows: number;
+  flagged: number;
+  totalVolume: number; // base currency
+  blockedVolume: number; // base currency, flagged rows
+  riskLevels: Record<FraudAnalysis['riskLevel'], number>;
+  ruleHits: { name: string; count: number }[]; // rows each rule fired on, most frequent first
 }
 
 export interface BatchAnalysisResult {
@@ -84,5 +612,12 @@ export interface BatchAnalysisResult {
   processingTime: number; // ms
   reportContent: string;
   timestamp: string;
-  stage3?: Stage3Results;
+  stage3?: Stage3Results; // full-history features (client aggregates include later transactions)
+  stage3PointInTime?: Stage3Results; // leak-free, point-in-time features
+  trainedAt?: string; // ISO time Stage 3 fitted its models
+  registeredVersion?: string; // label of the registry version the analyst registered from this batch, e.g. "v4"
+  backtest?: BacktestResult;
+  importReport?: ImportReport;
+  dataQuality?: DataQualityReport;
+  summary?: BatchSummary; // uploads only: totals over the whole file
 }
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { PipelineProgress } from '../types';
+import { runBaselineModelsJob, runBatchPipeline } from '../services/pipeline';
+import { PipelineWorkerMessage, PipelineWorkerRequest } from '../services/pipelineWorker';
+
+// Runs pipeline jobs off the main thread; see services/pipelineWorker.ts for the other side
+const post = (message: PipelineWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<PipelineWorkerRequest>) => {
+  const job = event.data;
+  const onProgress = (progress: PipelineProgress) => post({ type: 'progress', progress });
+  try {
+    const result = job.type === 'upload'
+      ? await runBatchPipeline(job.request, onProgress)
+      : runBaselineModelsJob(job.request, onProgress);
+    post({ type: 'done', result });
+  } catch (e) {
+    post({ type: 'error', message: (e as Error).message });
+  }
+};